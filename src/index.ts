@@ -7,6 +7,7 @@ dotenv.config();
 
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import readline from 'node:readline/promises';
 
 // Import configuration
 import { createConfig, ApplicationConfig } from './lib/config/index.js';
@@ -16,8 +17,10 @@ import { createLLMRunner } from './lib/llm-runner/index.js';
 import { createGitHubService } from './lib/github/index.js';
 import { createDockerService } from './lib/docker/index.js';
 import { createDatabaseService } from './lib/database/index.js';
-import { createAgentService } from './lib/agent/index.js';
+import { createAgentService, type ExecutionResult, type SessionLineage } from './lib/agent/index.js';
+import { formatAgentEvent } from './lib/agent/events.js';
 import { runEvaluations } from './lib/agent/evaluation.js';
+import { createPromptRegistry, defaultPromptDirectories, loadPromptOverrides } from './lib/agent/prompts.js';
 
 // Import types (removed unused types)
 
@@ -44,6 +47,11 @@ try {
   llmRunner = createLLMRunner(config);
   githubService = createGitHubService(config, dockerService);
 
+  const promptOverrides = loadPromptOverrides(defaultPromptDirectories());
+  for (const warning of promptOverrides.warnings) {
+    console.warn(warning);
+  }
+
   agentService = createAgentService({
     config,
     llmRunner,
@@ -53,6 +61,7 @@ try {
     shellCommand: typeof run_shell_command !== 'undefined' ? run_shell_command : undefined,
     webFetch: typeof web_fetch !== 'undefined' ? web_fetch : undefined,
     googleSearch: typeof google_web_search !== 'undefined' ? google_web_search : undefined,
+    promptRegistry: createPromptRegistry(promptOverrides.templates),
   });
 } catch (error) {
   // Config validation failed - show help instead of crashing
@@ -70,6 +79,42 @@ try {
 // Export services for programmatic use
 export { agentService, dockerService, githubService, databaseService, llmRunner, config };
 
+/**
+ * Prints a fork tree, one session per line indented under the session it was forked from
+ */
+function printLineage(lineage: SessionLineage, selectedId: string, depth = 0): void {
+  const { session } = lineage;
+  const forkPoint = session.forkedFromTaskId ? ` from task ${session.forkedFromTaskId}` : '';
+  const marker = session.id === selectedId ? ' *' : '';
+  console.log(`${'  '.repeat(depth)}${session.id} ${session.status}${forkPoint}${marker}`);
+  for (const fork of lineage.forks) {
+    printLineage(fork, selectedId, depth + 1);
+  }
+}
+
+/**
+ * Prints an execution result with the tokens and cost used by the session and each task, and the calls a dry run simulated
+ */
+function printExecutionResult(result: ExecutionResult): void {
+  console.log('Execution result:', result);
+  console.log(`Usage: ${result.usage.totalTokens} tokens ($${result.usage.costUsd.toFixed(4)})`);
+  for (const task of result.taskUsage) {
+    console.log(`  Task ${task.taskId}: ${task.tokens} tokens ($${task.costUsd.toFixed(4)})`);
+  }
+
+  const simulated = result.log.flatMap((item) =>
+    item.action.toolCalls.filter((toolCall) =>
+      item.observation.some((o) => o.toolCallId === toolCall.id && o.simulated),
+    ),
+  );
+  if (simulated.length > 0) {
+    console.log(`Simulated ${simulated.length} tool call(s) that would change something:`);
+    for (const toolCall of simulated) {
+      console.log(`  ${toolCall.name} ${JSON.stringify(toolCall.arguments)}`);
+    }
+  }
+}
+
 // CLI interface
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const _argv = yargs(hideBin(process.argv))
@@ -108,25 +153,417 @@ const _argv = yargs(hideBin(process.argv))
     },
   )
   .command(
-    'execute',
-    'Execute a previously created plan',
+    'refine',
+    'Refine a plan that is awaiting confirmation',
+    (yargs) => {
+      return yargs
+        .option('session-id', {
+          description: 'The session ID containing the plan to refine',
+          type: 'string',
+          required: true,
+        })
+        .option('prompt', {
+          description: 'Feedback on the current plan',
+          type: 'string',
+          required: true,
+        });
+    },
+    async (argv) => {
+      try {
+        const plan = await agentService.refinePlan({
+          sessionId: argv.sessionId,
+          refinementPrompt: argv.prompt,
+        });
+        console.log('Refined plan:', JSON.stringify(plan, null, 2));
+      } catch (error) {
+        console.error('Failed to refine plan:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'chat',
+    'Interactively refine a plan, then confirm it',
+    (yargs) => {
+      return yargs.option('session-id', {
+        description: 'The session ID containing the plan to refine',
+        type: 'string',
+        required: true,
+      });
+    },
+    async (argv) => {
+      const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+      try {
+        console.log('Enter feedback to refine the plan. Type "confirm" to lock the plan or "exit" to quit.');
+        for (;;) {
+          const input = (await rl.question('> ')).trim();
+          if (!input) {
+            continue;
+          }
+          if (input === 'exit') {
+            break;
+          }
+          if (input === 'confirm') {
+            const plan = await agentService.confirmPlan({ sessionId: argv.sessionId });
+            console.log('Confirmed plan:', JSON.stringify(plan, null, 2));
+            console.log(`Use "execute --session-id ${argv.sessionId}" to run it`);
+            break;
+          }
+
+          const plan = await agentService.refinePlan({ sessionId: argv.sessionId, refinementPrompt: input });
+          plan.forEach((task, index) => console.log(`${index + 1}. ${task.description}`));
+        }
+      } catch (error) {
+        console.error('Failed to refine plan:', error);
+        process.exit(1);
+      } finally {
+        rl.close();
+      }
+    },
+  )
+  .command(
+    'revert',
+    'Revert a plan to an earlier version',
+    (yargs) => {
+      return yargs
+        .option('session-id', {
+          description: 'The session ID containing the plan to revert',
+          type: 'string',
+          required: true,
+        })
+        .option('to', {
+          description: 'The plan version to revert to',
+          type: 'number',
+          required: true,
+        });
+    },
+    async (argv) => {
+      try {
+        const plan = await agentService.revertPlan({ sessionId: argv.sessionId, version: argv.to });
+        console.log('Reverted plan:', JSON.stringify(plan, null, 2));
+      } catch (error) {
+        console.error('Failed to revert plan:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'plan-versions',
+    'List the version history of a plan',
+    (yargs) => {
+      return yargs.option('session-id', {
+        description: 'The session ID containing the plan',
+        type: 'string',
+        required: true,
+      });
+    },
+    async (argv) => {
+      try {
+        const versions = await agentService.listPlanVersions(argv.sessionId);
+        for (const version of versions) {
+          console.log(`v${version.version} ${version.createdAt} ${version.feedback ?? '(initial plan)'}`);
+          version.plan.forEach((task, index) => console.log(`  ${index + 1}. ${task.description}`));
+        }
+      } catch (error) {
+        console.error('Failed to list plan versions:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'confirm',
+    'Confirm and lock a plan so it can be executed',
     (yargs) => {
       return yargs.option('session-id', {
-        description: 'The session ID containing the plan to execute',
+        description: 'The session ID containing the plan to confirm',
         type: 'string',
         required: true,
       });
     },
     async (argv) => {
       try {
-        const result = await agentService.executePlan({ sessionId: argv.sessionId });
-        console.log('Execution result:', result);
+        const plan = await agentService.confirmPlan({ sessionId: argv.sessionId });
+        console.log('Confirmed plan:', JSON.stringify(plan, null, 2));
+      } catch (error) {
+        console.error('Failed to confirm plan:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'execute',
+    'Execute a previously confirmed plan',
+    (yargs) => {
+      return yargs
+        .option('session-id', {
+          description: 'The session ID containing the plan to execute',
+          type: 'string',
+          required: true,
+        })
+        .option('max-steps', {
+          description: 'Maximum ReAct steps per task',
+          type: 'number',
+        })
+        .option('max-task-seconds', {
+          description: 'Maximum wall-clock time per task, in seconds',
+          type: 'number',
+        })
+        .option('max-task-tokens', {
+          description: 'Maximum LLM tokens per task',
+          type: 'number',
+        })
+        .option('parallel', {
+          description: 'Maximum number of independent tasks run at once, each in its own container',
+          type: 'number',
+          default: 1,
+        })
+        .option('on-failure', {
+          description: 'What to do when a task fails: retry it, replan the remaining tasks, or stop the session',
+          choices: ['retry', 'replan', 'stop'] as const,
+          default: 'stop' as const,
+        })
+        .option('max-retries', {
+          description: 'Maximum retries per task, or replans per session, before the session stops',
+          type: 'number',
+          default: 2,
+        })
+        .option('max-session-tokens', {
+          description: 'Maximum LLM tokens for the whole session, including planning',
+          type: 'number',
+        })
+        .option('max-cost', {
+          description: 'Maximum LLM cost for the whole session, in US dollars',
+          type: 'number',
+        })
+        .option('workspace-retention', {
+          description: 'Whether the session workspace container is destroyed or kept when the session ends',
+          choices: ['destroy', 'keep', 'keep-on-failure'] as const,
+          default: 'destroy' as const,
+        })
+        .option('verify', {
+          description: 'Verify each task that reports completion with checks and a review of its diff',
+          type: 'boolean',
+          default: false,
+        })
+        .option('verify-command', {
+          description: 'Check command run during verification; detected from the repository when not given',
+          type: 'string',
+          array: true,
+        })
+        .option('max-verification-retries', {
+          description: 'Times a task that fails verification goes back to work before it fails',
+          type: 'number',
+          default: 2,
+        })
+        .option('dry-run', {
+          description: 'Run read-only tool calls and simulate the ones that would change something',
+          type: 'boolean',
+          default: false,
+        });
+    },
+    async (argv) => {
+      try {
+        agentService.subscribe((event) => console.log(formatAgentEvent(event)));
+        const result = await agentService.executePlan({
+          sessionId: argv.sessionId,
+          taskBudget: {
+            maxSteps: argv.maxSteps,
+            maxDurationMs: argv.maxTaskSeconds !== undefined ? argv.maxTaskSeconds * 1000 : undefined,
+            maxTokens: argv.maxTaskTokens,
+          },
+          maxParallelTasks: argv.parallel,
+          failurePolicy: { strategy: argv.onFailure, maxRetries: argv.maxRetries },
+          workspaceRetention: argv.workspaceRetention,
+          sessionBudget: { maxTokens: argv.maxSessionTokens, maxCostUsd: argv.maxCost },
+          verification:
+            argv.verify || argv.verifyCommand
+              ? { commands: argv.verifyCommand, maxRetries: argv.maxVerificationRetries }
+              : undefined,
+          dryRun: argv.dryRun,
+        });
+        printExecutionResult(result);
       } catch (error) {
         console.error('Failed to execute plan:', error);
         process.exit(1);
       }
     },
   )
+  .command(
+    'resume',
+    'Resume an execution that was interrupted',
+    (yargs) => {
+      return yargs.option('session-id', {
+        description: 'The session ID of the interrupted execution',
+        type: 'string',
+        required: true,
+      });
+    },
+    async (argv) => {
+      try {
+        agentService.subscribe((event) => console.log(formatAgentEvent(event)));
+        const result = await agentService.resumeExecution(argv.sessionId);
+        printExecutionResult(result);
+      } catch (error) {
+        console.error('Failed to resume execution:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'approve',
+    'Approve tool calls held for approval and continue execution',
+    (yargs) => {
+      return yargs
+        .option('session-id', {
+          description: 'The session ID awaiting approval',
+          type: 'string',
+          required: true,
+        })
+        .option('tool-call-id', {
+          description: 'The tool call to approve; defaults to every pending tool call',
+          type: 'string',
+        });
+    },
+    async (argv) => {
+      try {
+        agentService.subscribe((event) => console.log(formatAgentEvent(event)));
+        const result = await agentService.approveToolCalls({
+          sessionId: argv.sessionId,
+          toolCallId: argv.toolCallId,
+        });
+        printExecutionResult(result);
+      } catch (error) {
+        console.error('Failed to approve tool calls:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'deny',
+    'Deny tool calls held for approval and continue execution',
+    (yargs) => {
+      return yargs
+        .option('session-id', {
+          description: 'The session ID awaiting approval',
+          type: 'string',
+          required: true,
+        })
+        .option('tool-call-id', {
+          description: 'The tool call to deny; defaults to every pending tool call',
+          type: 'string',
+        })
+        .option('reason', {
+          description: 'Reason for the denial, shown to the model',
+          type: 'string',
+        });
+    },
+    async (argv) => {
+      try {
+        agentService.subscribe((event) => console.log(formatAgentEvent(event)));
+        const result = await agentService.denyToolCalls({
+          sessionId: argv.sessionId,
+          toolCallId: argv.toolCallId,
+          note: argv.reason,
+        });
+        printExecutionResult(result);
+      } catch (error) {
+        console.error('Failed to deny tool calls:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'pause',
+    'Pause a running execution at its next step',
+    (yargs) => {
+      return yargs.option('session-id', {
+        description: 'The session ID of the execution to pause',
+        type: 'string',
+        required: true,
+      });
+    },
+    async (argv) => {
+      try {
+        const session = await agentService.pauseExecution(argv.sessionId);
+        console.log(`Session ${session.id} is now ${session.status}`);
+      } catch (error) {
+        console.error('Failed to pause execution:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'cancel',
+    'Cancel an execution and release its containers',
+    (yargs) => {
+      return yargs.option('session-id', {
+        description: 'The session ID of the execution to cancel',
+        type: 'string',
+        required: true,
+      });
+    },
+    async (argv) => {
+      try {
+        const session = await agentService.cancelExecution(argv.sessionId);
+        console.log(`Session ${session.id} is now ${session.status}`);
+      } catch (error) {
+        console.error('Failed to cancel execution:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'fork',
+    'Fork a session to try another approach from its plan or a task of it',
+    (yargs) => {
+      return yargs
+        .option('session-id', {
+          description: 'The session ID to fork',
+          type: 'string',
+          required: true,
+        })
+        .option('from-task-id', {
+          description: 'The task to restart from; earlier tasks keep their state (default: all tasks keep it)',
+          type: 'string',
+        })
+        .option('snapshot-workspace', {
+          description: "Start the fork's workspace from a snapshot of the session's workspace container",
+          type: 'boolean',
+          default: false,
+        });
+    },
+    async (argv) => {
+      try {
+        const session = await agentService.forkSession(argv.sessionId, {
+          fromTaskId: argv.fromTaskId,
+          snapshotWorkspace: argv.snapshotWorkspace,
+        });
+        console.log(`Forked session ${session.id} is ${session.status}`);
+      } catch (error) {
+        console.error('Failed to fork session:', error);
+        process.exit(1);
+      }
+    },
+  )
+  .command(
+    'lineage',
+    'List the sessions a session was forked from and the forks made from them',
+    (yargs) => {
+      return yargs.option('session-id', {
+        description: 'The session ID whose lineage to list',
+        type: 'string',
+        required: true,
+      });
+    },
+    async (argv) => {
+      try {
+        printLineage(await agentService.getSessionLineage(argv.sessionId), argv.sessionId);
+      } catch (error) {
+        console.error('Failed to list session lineage:', error);
+        process.exit(1);
+      }
+    },
+  )
   .command('cleanup-containers', 'Clean up idle Docker containers', async () => {
     try {
       const result = await dockerService.cleanupIdleContainers();
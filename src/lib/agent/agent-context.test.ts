@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { parseAgentContext, formatAgentContext } from './agent-context.js';
+
+const AGENT_MD = `# Project notes
+
+This is a TypeScript monorepo.
+
+## Conventions
+- Use factory functions, not classes
+- Keep modules small
+
+## Build
+\`\`\`bash
+# install first
+pnpm install
+pnpm build
+\`\`\`
+
+## Testing
+- Run \`pnpm test\` before finishing
+
+## Do not modify
+- \`src/generated/\`
+- migrations/
+`;
+
+describe('Agent context parsing', () => {
+  it('should parse sections from an AGENT.md file', () => {
+    const context = parseAgentContext('AGENT.md', AGENT_MD);
+
+    expect(context.source).toBe('AGENT.md');
+    expect(context.instructions).toBe('# Project notes\n\nThis is a TypeScript monorepo.');
+    expect(context.conventions).toEqual(['Use factory functions, not classes', 'Keep modules small']);
+    expect(context.buildCommands).toEqual(['pnpm install', 'pnpm build']);
+    expect(context.testCommands).toEqual(['pnpm test']);
+    expect(context.forbiddenPaths).toEqual(['src/generated/', 'migrations/']);
+  });
+
+  it('should keep a file without recognized sections as instructions', () => {
+    const context = parseAgentContext('.cursorrules', 'Always write tests.\nPrefer small diffs.');
+
+    expect(context.instructions).toBe('Always write tests.\nPrefer small diffs.');
+    expect(context.testCommands).toEqual([]);
+  });
+
+  it('should format a context for prompts', () => {
+    const formatted = formatAgentContext(parseAgentContext('AGENT.md', AGENT_MD));
+
+    expect(formatted).toContain('Repository instructions (AGENT.md):');
+    expect(formatted).toContain('Test commands: pnpm test');
+    expect(formatted).toContain('Never modify: src/generated/, migrations/');
+  });
+});
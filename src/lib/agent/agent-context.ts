@@ -0,0 +1,136 @@
+/**
+ * Repository context files (AGENT.md and well-known equivalents)
+ */
+
+/**
+ * Context file names, in order of preference, relative to the repository root
+ */
+export const AGENT_CONTEXT_FILES = [
+  'AGENT.md',
+  'AGENTS.md',
+  'CLAUDE.md',
+  '.github/copilot-instructions.md',
+  '.cursorrules',
+];
+
+/**
+ * Instructions parsed from a repository context file
+ */
+export interface AgentContext {
+  source: string;
+  instructions: string;
+  conventions: string[];
+  buildCommands: string[];
+  testCommands: string[];
+  forbiddenPaths: string[];
+}
+
+type AgentContextSection = 'conventions' | 'buildCommands' | 'testCommands' | 'forbiddenPaths';
+
+/**
+ * Heading patterns mapped to the section they populate; the first match wins
+ */
+const SECTION_PATTERNS: Array<[RegExp, AgentContextSection]> = [
+  [/forbidden|protected|off.?limits|do not (modify|touch|edit)|never (modify|touch|edit)/i, 'forbiddenPaths'],
+  [/test|verif|check/i, 'testCommands'],
+  [/build|setup|install|command/i, 'buildCommands'],
+  [/convention|style|guideline|rule/i, 'conventions'],
+];
+
+/**
+ * Maximum length of free-form instructions kept from a context file
+ */
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+
+/**
+ * Extracts an item from a list line, preferring an inline code span for commands and paths
+ */
+function extractItem(text: string, section: AgentContextSection): string {
+  if (section === 'conventions') {
+    return text;
+  }
+  const code = text.match(/`([^`]+)`/);
+  return code ? code[1].trim() : text;
+}
+
+/**
+ * Parses a context file into conventions, build/test commands and forbidden paths
+ * Text outside recognized sections is kept as free-form instructions
+ */
+export function parseAgentContext(source: string, content: string): AgentContext {
+  const context: AgentContext = {
+    source,
+    instructions: '',
+    conventions: [],
+    buildCommands: [],
+    testCommands: [],
+    forbiddenPaths: [],
+  };
+
+  const instructions: string[] = [];
+  let section: AgentContextSection | undefined;
+  let inCodeBlock = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      if (!section) {
+        instructions.push(line);
+      }
+      continue;
+    }
+
+    const heading = inCodeBlock ? null : line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      section = SECTION_PATTERNS.find(([pattern]) => pattern.test(heading[1]))?.[1];
+      if (!section) {
+        instructions.push(line);
+      }
+      continue;
+    }
+
+    if (!section) {
+      instructions.push(line);
+      continue;
+    }
+
+    if (inCodeBlock) {
+      const command = line.trim();
+      if (command && !command.startsWith('#')) {
+        context[section].push(command);
+      }
+      continue;
+    }
+
+    const listItem = line.match(/^\s*(?:[-*+]|\d+\.)\s+(.*)$/);
+    if (listItem && listItem[1].trim()) {
+      context[section].push(extractItem(listItem[1].trim(), section));
+    }
+  }
+
+  context.instructions = instructions.join('\n').trim().slice(0, MAX_INSTRUCTIONS_LENGTH);
+  return context;
+}
+
+/**
+ * Formats a parsed context file for inclusion in planning and execution prompts
+ */
+export function formatAgentContext(context: AgentContext): string {
+  const parts = [`Repository instructions (${context.source}):`];
+  if (context.instructions) {
+    parts.push(context.instructions);
+  }
+  if (context.conventions.length > 0) {
+    parts.push(`Conventions:\n${context.conventions.map((c) => `- ${c}`).join('\n')}`);
+  }
+  if (context.buildCommands.length > 0) {
+    parts.push(`Build commands: ${context.buildCommands.join('; ')}`);
+  }
+  if (context.testCommands.length > 0) {
+    parts.push(`Test commands: ${context.testCommands.join('; ')}`);
+  }
+  if (context.forbiddenPaths.length > 0) {
+    parts.push(`Never modify: ${context.forbiddenPaths.join(', ')}`);
+  }
+  return parts.join('\n');
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_APPROVAL_RULES, requiresApproval } from './approval.js';
+
+describe('Approval rules', () => {
+  it('should gate the sensitive tools by default', () => {
+    expect(
+      requiresApproval(DEFAULT_APPROVAL_RULES, {
+        id: 'call_1',
+        name: 'run_shell_command',
+        arguments: { command: 'ls' },
+      }),
+    ).toBe(true);
+    expect(
+      requiresApproval(DEFAULT_APPROVAL_RULES, { id: 'call_2', name: 'githubService.listRepositories', arguments: {} }),
+    ).toBe(false);
+  });
+
+  it('should only gate calls whose arguments match the rule pattern', () => {
+    const rules = [{ tool: 'run_shell_command', argumentPattern: /rm -rf|git push/ }];
+
+    expect(
+      requiresApproval(rules, { id: 'call_1', name: 'run_shell_command', arguments: { command: 'rm -rf /' } }),
+    ).toBe(true);
+    expect(requiresApproval(rules, { id: 'call_2', name: 'run_shell_command', arguments: { command: 'ls' } })).toBe(
+      false,
+    );
+  });
+});
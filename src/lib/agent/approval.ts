@@ -0,0 +1,43 @@
+/**
+ * Approval policy for sensitive tool calls
+ */
+
+import type { ToolCall } from '../llm-runner/index.js';
+
+/**
+ * Tool, optionally narrowed to calls whose JSON arguments match a pattern, that needs human approval
+ */
+export interface ApprovalRule {
+  tool: string;
+  argumentPattern?: RegExp;
+}
+
+/**
+ * Tools gated when an agent is created without its own rules
+ */
+export const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  { tool: 'githubService.createRepository' },
+  { tool: 'githubService.closePullRequest' },
+  { tool: 'dockerManager.destroyContainer' },
+  { tool: 'run_shell_command' },
+];
+
+/**
+ * Tool call held back until a human approves or denies it
+ */
+export interface ApprovalRequest {
+  taskId: string;
+  toolCall: ToolCall;
+  decision?: 'APPROVED' | 'DENIED';
+  note?: string;
+}
+
+/**
+ * Returns whether any rule gates the tool call
+ */
+export function requiresApproval(rules: ApprovalRule[], toolCall: ToolCall): boolean {
+  const args = JSON.stringify(toolCall.arguments ?? {});
+  return rules.some(
+    (rule) => rule.tool === toolCall.name && (!rule.argumentPattern || rule.argumentPattern.test(args)),
+  );
+}
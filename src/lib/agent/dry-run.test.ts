@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { isMutatingToolCall, simulateToolResult } from './dry-run.js';
+
+/**
+ * Builds a shell tool call running the command
+ */
+function shell(command: string): { id: string; name: string; arguments: { command: string } } {
+  return { id: 'call_1', name: 'run_shell_command', arguments: { command } };
+}
+
+describe('Dry-run policy', () => {
+  it('should intercept GitHub writes and container destruction', () => {
+    expect(isMutatingToolCall({ id: '1', name: 'githubService.createPullRequest', arguments: {} })).toBe(true);
+    expect(isMutatingToolCall({ id: '2', name: 'dockerManager.destroyContainer', arguments: {} })).toBe(true);
+    expect(isMutatingToolCall({ id: '3', name: 'githubService.readPullRequest', arguments: {} })).toBe(false);
+    expect(isMutatingToolCall({ id: '4', name: 'dockerManager.listContainers', arguments: {} })).toBe(false);
+  });
+
+  it('should intercept scripts that match write patterns', () => {
+    for (const command of [
+      'echo "fixed" > README.md',
+      'cat a >> b',
+      'rm -rf dist',
+      'mkdir -p src/lib',
+      "sed -i 's/teh/the/' README.md",
+      'git add . && git commit -m "Fix typo"',
+      'npm install lodash',
+      'curl -X POST https://example.com/hook',
+    ]) {
+      expect(isMutatingToolCall(shell(command)), command).toBe(true);
+    }
+
+    expect(
+      isMutatingToolCall({
+        id: 'call_2',
+        name: 'dockerManager.executeScript',
+        arguments: { containerId: 'c1', script: 'cd /workspace\ngit push origin main' },
+      }),
+    ).toBe(true);
+  });
+
+  it('should let read-only scripts run', () => {
+    for (const command of [
+      'ls -la',
+      'cat package.json 2>&1',
+      'grep -rn "TODO" src > /dev/null',
+      'git status && git diff HEAD',
+      'npm test',
+      'find . -name "*.ts" | head -20',
+    ]) {
+      expect(isMutatingToolCall(shell(command)), command).toBe(false);
+    }
+  });
+
+  it('should answer an intercepted call with a simulated result', () => {
+    expect(simulateToolResult(shell('rm -rf dist'))).toEqual({
+      simulated: true,
+      message: 'Dry run: run_shell_command was not run. Assume it succeeded and continue.',
+    });
+  });
+});
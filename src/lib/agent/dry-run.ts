@@ -0,0 +1,67 @@
+/**
+ * Dry-run policy: which tool calls would change something, and the results given in their place
+ */
+
+import type { ToolCall } from '../llm-runner/index.js';
+
+/**
+ * Tools that always write: GitHub writes and container destruction
+ */
+export const MUTATING_TOOLS: string[] = [
+  'githubService.createRepository',
+  'githubService.createPullRequest',
+  'githubService.updatePullRequest',
+  'githubService.closePullRequest',
+  'githubService.createIssue',
+  'githubService.updateIssue',
+  'githubService.closeIssue',
+  'githubService.configureGitClientInContainer',
+  'dockerManager.destroyContainer',
+  'dockerManager.cleanupIdleContainers',
+];
+
+/**
+ * Tools running a script, with the argument holding it
+ */
+const SCRIPT_ARGUMENTS: Record<string, string> = {
+  run_shell_command: 'command',
+  'dockerManager.executeScript': 'script',
+};
+
+/**
+ * Scripts matching any of these are treated as writes; a false match only costs a real result
+ */
+export const WRITE_SCRIPT_PATTERNS: RegExp[] = [
+  // Output redirected to a file, other than /dev/null or another descriptor
+  /(^|[^0-9&<>=-])>{1,2}(?!>|\s*(\/dev\/null|&))/,
+  /\b(rm|rmdir|mv|cp|mkdir|touch|chmod|chown|ln|tee|truncate|dd)\s/,
+  /\bsed\s+(-\w+\s+)*-i/,
+  /\bgit\s+(add|am|apply|checkout|cherry-pick|clean|clone|commit|init|merge|mv|pull|push|rebase|reset|restore|revert|rm|stash|switch)\b/,
+  /\b(npm|pnpm|yarn)\s+(install|i|add|remove|rm|uninstall|update|upgrade|publish|ci|link)\b/,
+  /\b(pip3?|apt-get|apt|apk|yum|dnf)\s+(install|uninstall|remove|upgrade|update|add|del)\b/,
+  /\b(kill|pkill|killall|shutdown|reboot)\b/,
+  /\bcurl\b.*\s(-X\s*(POST|PUT|PATCH|DELETE)|-d|--data\S*|-o|-O|-T)\s/,
+];
+
+/**
+ * Returns whether a dry run intercepts the tool call instead of running it
+ */
+export function isMutatingToolCall(toolCall: ToolCall): boolean {
+  if (MUTATING_TOOLS.includes(toolCall.name)) {
+    return true;
+  }
+
+  const argument = SCRIPT_ARGUMENTS[toolCall.name];
+  const script = argument ? (toolCall.arguments as Record<string, unknown> | undefined)?.[argument] : undefined;
+  return typeof script === 'string' && WRITE_SCRIPT_PATTERNS.some((pattern) => pattern.test(`${script} `));
+}
+
+/**
+ * Synthetic result given to the model for an intercepted call
+ */
+export function simulateToolResult(toolCall: ToolCall): unknown {
+  return {
+    simulated: true,
+    message: `Dry run: ${toolCall.name} was not run. Assume it succeeded and continue.`,
+  };
+}
@@ -198,6 +198,7 @@ describe('Agent Evaluation - Realistic Coding Scenarios', () => {
       shellCommand,
       webFetch,
       googleSearch,
+      approvalRules: [],
     });
   });
 
@@ -248,6 +249,7 @@ describe('Agent Evaluation - Realistic Coding Scenarios', () => {
       shellCommand,
       webFetch,
       googleSearch,
+      approvalRules: [],
     });
 
     // Test planning
@@ -302,6 +304,7 @@ describe('Agent Evaluation - Realistic Coding Scenarios', () => {
 
           // Phase 2: Execution
           const execStartTime = Date.now();
+          await agentService.confirmPlan({ sessionId: plan[0].sessionId });
           const result = await agentService.executePlan({
             sessionId: plan[0].sessionId,
           });
@@ -311,16 +314,18 @@ describe('Agent Evaluation - Realistic Coding Scenarios', () => {
           // Analyze execution results
           metrics.tasksCompleted = plan.filter((t) => t.status === 'COMPLETED').length;
           metrics.successRate = (metrics.tasksCompleted / metrics.totalTasks) * 100;
-          metrics.toolCallsCount = result.log.filter((item) => item.toolCalls && item.toolCalls.length > 0).length;
+          metrics.toolCallsCount = result.log.filter((item) => item.action.toolCalls.length > 0).length;
 
           // Count LLM calls (approximation based on react history)
           metrics.totalLLMCalls = result.log.length;
 
           // Collect any errors
           result.log.forEach((item) => {
-            if (item.observation && typeof item.observation === 'object' && 'error' in item.observation) {
-              metrics.errors.push(String(item.observation.error));
-            }
+            item.observation.forEach(({ result: toolResult }) => {
+              if (toolResult && typeof toolResult === 'object' && 'error' in toolResult) {
+                metrics.errors.push(String(toolResult.error));
+              }
+            });
           });
 
           console.log(`✅ Execution completed in ${metrics.executionTime}ms`);
@@ -458,11 +463,10 @@ ${generateEvaluationSummary(results)}
 
 ## Performance Analysis
 
-### Native Tool Calling Benefits
-- **Efficiency**: Single LLM call per action instead of 3 (reason/act/reflect)
-- **Cost Reduction**: ~66% fewer API calls
-- **Speed**: Faster execution due to fewer round trips
-- **Accuracy**: Direct tool selection by LLM
+### Reason / Act / Reflect Loop
+- **Reason**: Free-text reasoning about the next step
+- **Act**: Native tool calling over a multi-turn transcript
+- **Reflect**: Validated reflection JSON decides task completion
 
 ## Detailed Results
 
@@ -74,6 +74,8 @@ const scenarios: EvaluationScenario[] = [
       // Update the session's rawPlan with the tasks that have database-generated IDs
       await databaseService.updateSession(sessionId, { rawPlan: JSON.stringify(tasksInDb) });
 
+      await agentService.confirmPlan({ sessionId: sessionId });
+
       const result = await agentService.executePlan({ sessionId: sessionId });
 
       // This is a mock evaluation. In a real scenario, we would inspect the file system.
@@ -125,6 +127,8 @@ const scenarios: EvaluationScenario[] = [
       }
       await databaseService.updateSession(sessionId, { rawPlan: JSON.stringify(tasksInDb) });
 
+      await agentService.confirmPlan({ sessionId: sessionId });
+
       const result = await agentService.executePlan({ sessionId: sessionId });
 
       const success = result.status === 'COMPLETED';
@@ -427,6 +431,7 @@ async function runEvaluations(options: { htmlReport?: boolean } = {}): Promise<v
     shellCommand, // Provide the real implementation
     webFetch, // Provide the real implementation
     googleSearch, // Provide the real implementation
+    approvalRules: [], // Evaluations run unattended
   });
 
   const results: EvaluationResult[] = [];
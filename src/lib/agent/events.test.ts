@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAgentEventEmitter, formatAgentEvent, type AgentEvent } from './events.js';
+
+const started: AgentEvent = {
+  type: 'task_started',
+  sessionId: 'session-1',
+  taskId: 'task-1',
+  description: 'Add tests',
+};
+
+describe('Agent events', () => {
+  it('should deliver events to subscribers until they unsubscribe', () => {
+    const emitter = createAgentEventEmitter();
+    const received: AgentEvent[] = [];
+
+    const unsubscribe = emitter.subscribe((event) => received.push(event));
+    emitter.emit(started);
+    unsubscribe();
+    emitter.emit(started);
+
+    expect(received).toEqual([started]);
+  });
+
+  it('should keep delivering events when a listener throws', () => {
+    const onListenerError = vi.fn();
+    const emitter = createAgentEventEmitter(onListenerError);
+    const received: AgentEvent[] = [];
+    const failure = new Error('listener failed');
+
+    emitter.subscribe(() => {
+      throw failure;
+    });
+    emitter.subscribe((event) => received.push(event));
+    emitter.emit(started);
+
+    expect(received).toEqual([started]);
+    expect(onListenerError).toHaveBeenCalledExactlyOnceWith(failure, started);
+
+    const silent = createAgentEventEmitter();
+    silent.subscribe(() => {
+      throw failure;
+    });
+    expect(() => silent.emit(started)).not.toThrow();
+  });
+
+  it('should format events as progress lines', () => {
+    expect(formatAgentEvent(started)).toBe('Task task-1 started: Add tests');
+    expect(
+      formatAgentEvent({
+        type: 'llm_response',
+        sessionId: 'session-1',
+        phase: 'reason',
+        content: 'Next step',
+        usage: { totalTokens: 42 },
+      }),
+    ).toBe('LLM reason response (42 tokens)');
+  });
+});
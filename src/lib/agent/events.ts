@@ -0,0 +1,115 @@
+/**
+ * Events emitted by the agent while it plans and executes
+ */
+
+import type { ToolCall, ChatMessage, LLMResponse } from '../llm-runner/index.js';
+import type { Session, Task } from '../database/index.js';
+import type { AppliedPlanModification } from './index.js';
+
+/**
+ * LLM call that produced an event
+ */
+export type LLMPhase = 'plan' | 'refine' | 'reason' | 'act' | 'reflect' | 'replan' | 'compact' | 'verify';
+
+/**
+ * Token usage reported by the provider, or estimated when it reports none
+ */
+export type LLMUsage = NonNullable<LLMResponse['usage']>;
+
+/**
+ * Event emitted by the agent service; every event names the session it belongs to
+ */
+export type AgentEvent =
+  | { type: 'session_status'; sessionId: string; status: Session['status'] }
+  | { type: 'task_started'; sessionId: string; taskId: string; description: string }
+  | { type: 'task_finished'; sessionId: string; taskId: string; status: Task['status'] }
+  | { type: 'llm_request'; sessionId: string; taskId?: string; phase: LLMPhase; prompt: string | ChatMessage[] }
+  | { type: 'llm_response'; sessionId: string; taskId?: string; phase: LLMPhase; content: unknown; usage: LLMUsage }
+  | { type: 'tool_call'; sessionId: string; taskId?: string; toolCall: ToolCall }
+  | {
+      type: 'tool_result';
+      sessionId: string;
+      taskId?: string;
+      toolCallId: string;
+      result: unknown;
+      simulated?: boolean;
+    }
+  | { type: 'plan_modified'; sessionId: string; taskId: string; modifications: AppliedPlanModification[] }
+  | { type: 'approval_requested'; sessionId: string; taskId: string; toolCalls: ToolCall[] };
+
+/**
+ * Callback receiving agent events
+ */
+export type AgentEventListener = (event: AgentEvent) => void;
+
+/**
+ * Callback receiving the error a listener threw, with the event it was handling
+ */
+export type AgentEventListenerErrorHandler = (error: unknown, event: AgentEvent) => void;
+
+/**
+ * Fan-out of agent events to subscribed listeners
+ */
+export interface AgentEventEmitter {
+  emit(event: AgentEvent): void;
+  subscribe(listener: AgentEventListener): () => void;
+}
+
+/**
+ * Creates an event emitter; a throwing listener does not affect the agent or other listeners
+ * Its error is passed to onListenerError when given, and dropped otherwise
+ */
+export function createAgentEventEmitter(onListenerError?: AgentEventListenerErrorHandler): AgentEventEmitter {
+  const listeners = new Set<AgentEventListener>();
+
+  return {
+    /**
+     *
+     */
+    emit(event: AgentEvent): void {
+      for (const listener of listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          onListenerError?.(error, event);
+        }
+      }
+    },
+
+    /**
+     *
+     */
+    subscribe(listener: AgentEventListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Formats an event as a single line for progress output
+ */
+export function formatAgentEvent(event: AgentEvent): string {
+  switch (event.type) {
+    case 'session_status':
+      return `Session ${event.sessionId} is ${event.status}`;
+    case 'task_started':
+      return `Task ${event.taskId} started: ${event.description}`;
+    case 'task_finished':
+      return `Task ${event.taskId} finished: ${event.status}`;
+    case 'llm_request':
+      return `LLM ${event.phase} request`;
+    case 'llm_response':
+      return `LLM ${event.phase} response (${event.usage.totalTokens ?? 0} tokens)`;
+    case 'tool_call':
+      return `Tool call ${event.toolCall.name} (${event.toolCall.id})`;
+    case 'tool_result':
+      return `${event.simulated ? 'Simulated tool result' : 'Tool result'} for ${event.toolCallId}`;
+    case 'plan_modified':
+      return `Plan modified: ${event.modifications.filter((m) => m.applied).length} of ${event.modifications.length} changes applied`;
+    case 'approval_requested':
+      return `Approval needed for ${event.toolCalls.map((t) => `${t.name} (${t.id})`).join(', ')}`;
+  }
+}
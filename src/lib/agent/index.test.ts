@@ -6,7 +6,22 @@ import { createTestDockerService } from '../docker/index.js';
 import { createTestDatabaseService } from '../database/index.js';
 import { createTestLLMToolsService } from '../llm-tools/index.js';
 import { createTestConfig } from '../config/index.js';
-import type { AgentService } from './index.js';
+import type { AgentService, ReactHistoryItem } from './index.js';
+import type { Session, Task } from '../database/index.js';
+import { parseAgentContext } from './agent-context.js';
+import type { AgentEvent } from './events.js';
+import { createPromptRegistry } from './prompts.js';
+
+const completeReflection = JSON.stringify({
+  summary: 'Task goal achieved',
+  is_task_complete: true,
+  is_task_failed: false,
+});
+const incompleteReflection = JSON.stringify({
+  summary: 'More work needed',
+  is_task_complete: false,
+  is_task_failed: false,
+});
 
 describe('Agent Service Tests', () => {
   let agentService: AgentService;
@@ -60,6 +75,7 @@ describe('Agent Service Tests', () => {
       shellCommand,
       webFetch,
       googleSearch,
+      approvalRules: [],
     });
   });
 
@@ -83,32 +99,174 @@ describe('Agent Service Tests', () => {
     expect(sessions).toHaveLength(1);
     expect(sessions[0].status).toBe('AWAITING_CONFIRMATION');
     expect(sessions[0].rawPlan).toBe(JSON.stringify(plan));
+    expect(JSON.parse(sessions[0].rawPlanHistory!)[0].promptVersions).toEqual({ plan: '2' });
+  });
+
+  it('should plan from a summary of the cloned repository', async () => {
+    const executeScript = vi.spyOn(dockerService, 'executeScript');
+    llmRunner.setResponses([JSON.stringify([{ description: 'Update README.md' }])]);
+
+    await agentService.startPlanning({
+      prompt: 'Document the project',
+      repoUrl: 'https://github.com/test/repo',
+    });
+
+    const scripts = executeScript.mock.calls.map(([options]) => options.script);
+    expect(
+      scripts.some((script) => script.includes("git clone --depth 1 'https://github.com/test/repo' /workspace")),
+    ).toBe(true);
+    expect(scripts.some((script) => script.includes('head -c 2000 /workspace/README.md'))).toBe(true);
+    expect(githubService.getCallStats().configureGitClientInContainer).toBe(1);
+
+    const prompt = llmRunner.getCallHistory()[0];
+    expect(prompt).toContain('File1.js\nFile2.ts\nREADME.md');
+    expect(prompt).toContain('Key files:');
+
+    // The planning container is thrown away once the summary is built
+    expect(dockerService.getContainerCount()).toBe(0);
+  });
+
+  it('should read AGENT.md from the workspace into the planning prompt', async () => {
+    vi.spyOn(dockerService, 'ingestDirectory').mockResolvedValue({
+      ok: true,
+      value: '/workspace/AGENT.md\n/workspace/src/index.ts',
+    });
+    const executeScript = dockerService.executeScript.bind(dockerService);
+    vi.spyOn(dockerService, 'executeScript').mockImplementation(async (options) =>
+      options.script.includes('/workspace/AGENT.md')
+        ? { ok: true, value: '## Testing\n- `npm test`\n\n## Forbidden paths\n- `dist/`' }
+        : executeScript(options),
+    );
+    llmRunner.setResponses([JSON.stringify([{ description: 'Update src/index.ts' }])]);
+
+    await agentService.startPlanning({ prompt: 'Add logging', repoUrl: 'https://github.com/test/repo' });
+
+    const prompt = llmRunner.getCallHistory()[0];
+    expect(prompt).toContain('Repository instructions (AGENT.md):');
+    expect(prompt).toContain('Test commands: npm test');
+    expect(prompt).toContain('Never modify: dist/');
+    const session = databaseService.getAllSessions()[0];
+    expect(JSON.parse(session.rawAgentContext!).testCommands).toEqual(['npm test']);
+  });
+
+  it('should fail planning when the repository cannot be cloned', async () => {
+    vi.spyOn(dockerService, 'executeScript').mockResolvedValue({ ok: true, value: 'fatal: repository not found' });
+
+    await expect(
+      agentService.startPlanning({ prompt: 'Anything', repoUrl: 'https://github.com/test/missing' }),
+    ).rejects.toThrow('Failed to clone https://github.com/test/missing');
+
+    expect(llmRunner.getCallHistory()).toHaveLength(0);
+    expect(databaseService.getAllSessions()[0].status).toBe('FAILED');
+    expect(dockerService.getContainerCount()).toBe(0);
   });
 
   it('should successfully refine an existing plan', async () => {
     // Create a session with an existing plan
     const session = await databaseService.createSession({
       status: 'AWAITING_CONFIRMATION',
-      rawPlan: JSON.stringify([{ id: 'task-1', description: 'Old Task' }]),
     });
+    const setup = await databaseService.insertTask(session.id, 'Set up the project');
+    const old = await databaseService.insertTask(session.id, 'Old Task');
+    const docs = await databaseService.insertTask(session.id, 'Write docs');
 
     // Set up LLM response for refinement
-    llmRunner.setResponses([JSON.stringify([{ description: 'Revised Task 1' }, { description: 'Revised Task 2' }])]);
+    llmRunner.setResponses([
+      JSON.stringify([
+        { op: 'edit', taskId: setup.id, description: 'Set up the project with TypeScript' },
+        { op: 'insert', description: 'Add tests' },
+        { op: 'delete', taskId: old.id },
+      ]),
+    ]);
 
     const refinedPlan = await agentService.refinePlan({
       sessionId: session.id,
       refinementPrompt: 'Add more details to the plan',
     });
 
-    expect(refinedPlan).toHaveLength(2);
-    expect(refinedPlan[0].description).toBe('Revised Task 1');
-    expect(refinedPlan[1].description).toBe('Revised Task 2');
+    expect(refinedPlan.map((t) => t.description)).toEqual([
+      'Set up the project with TypeScript',
+      'Add tests',
+      'Write docs',
+    ]);
+    expect(refinedPlan.map((t) => t.order)).toEqual([0, 1, 2]);
+    expect(refinedPlan[0].id).toBe(setup.id);
+    expect(refinedPlan[2].id).toBe(docs.id);
+
+    // Old drafts must not linger on the session
+    const tasks = await databaseService.listTasks(session.id);
+    expect(tasks.map((t) => t.id)).toEqual(refinedPlan.map((t) => t.id));
 
     // Verify the session was updated
     const updatedSession = await databaseService.retrieveSession(session.id);
     expect(updatedSession?.rawPlan).toBe(JSON.stringify(refinedPlan));
   });
 
+  it('should reject a refinement that references unknown tasks', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+    const task = await databaseService.insertTask(session.id, 'Build the API');
+
+    llmRunner.setResponses([
+      JSON.stringify([
+        { op: 'delete', taskId: task.id },
+        { op: 'keep', taskId: 'missing' },
+      ]),
+    ]);
+
+    await expect(agentService.refinePlan({ sessionId: session.id, refinementPrompt: 'Start over' })).rejects.toThrow(
+      'Refinement references unknown or repeated task missing',
+    );
+    expect(await databaseService.listTasks(session.id)).toHaveLength(1);
+  });
+
+  it('should revert a plan to an earlier version', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+    const build = await databaseService.insertTask(session.id, 'Build the API');
+    const deploy = await databaseService.updateTask(
+      (await databaseService.insertTask(session.id, 'Deploy the API')).id,
+      {
+        title: 'Deploy',
+        rawAcceptanceCriteria: JSON.stringify(['The API answers on port 80']),
+        rawLikelyFiles: JSON.stringify(['deploy.sh']),
+        effort: 'small',
+        rawDependencies: JSON.stringify([build.id]),
+      },
+    );
+
+    llmRunner.setResponses([
+      JSON.stringify([
+        { op: 'edit', taskId: build.id, description: 'Build the GraphQL API' },
+        { op: 'delete', taskId: deploy.id },
+      ]),
+    ]);
+    await agentService.refinePlan({ sessionId: session.id, refinementPrompt: 'Use GraphQL, skip deployment' });
+
+    const versions = await agentService.listPlanVersions(session.id);
+    expect(versions.map((v) => v.version)).toEqual([1, 2]);
+    expect(versions[1].feedback).toBe('Use GraphQL, skip deployment');
+
+    const reverted = await agentService.revertPlan({ sessionId: session.id, version: 1 });
+
+    expect(reverted.map((t) => t.description)).toEqual(['Build the API', 'Deploy the API']);
+    expect(reverted[0].id).toBe(build.id);
+    expect(reverted[1]).toMatchObject({
+      title: 'Deploy',
+      rawAcceptanceCriteria: JSON.stringify(['The API answers on port 80']),
+      rawLikelyFiles: JSON.stringify(['deploy.sh']),
+      effort: 'small',
+      rawDependencies: JSON.stringify([build.id]),
+    });
+    expect(await databaseService.listTasks(session.id)).toHaveLength(2);
+    expect(await agentService.listPlanVersions(session.id)).toHaveLength(3);
+    await expect(agentService.revertPlan({ sessionId: session.id, version: 7 })).rejects.toThrow(
+      'Plan version 7 not found',
+    );
+  });
+
   it('should execute a plan with a single task', async () => {
     // Create a session with a plan containing one task
     const session = await databaseService.createSession({
@@ -130,8 +288,9 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses(['Run the tool', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
@@ -147,10 +306,122 @@ describe('Agent Service Tests', () => {
     expect(finalPlan[0].rawReactHistory).toBeDefined();
 
     // Verify the execution log with new format
-    expect(result.log).toHaveLength(2); // One for tool call, one for completion
-    expect(result.log[0].toolCalls).toEqual([toolCall]);
-    expect(result.log[0].toolResults).toHaveLength(1);
-    expect(result.log[1].content).toContain('TASK_COMPLETE');
+    expect(result.log).toHaveLength(1);
+    expect(result.log[0].reason).toBe('Run the tool');
+    expect(result.log[0].action.toolCalls).toEqual([toolCall]);
+    expect(result.log[0].observation).toHaveLength(1);
+    expect(result.log[0].reflection.is_task_complete).toBe(true);
+  });
+
+  it('should provision a session workspace and destroy it when the session ends', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      repoUrl: 'https://github.com/test/repo',
+    });
+    await databaseService.insertTask(session.id, 'Fix the typo');
+    await agentService.confirmPlan({ sessionId: session.id });
+    const executeScript = vi.spyOn(dockerService, 'executeScript');
+    const createContainer = vi.spyOn(dockerService, 'createContainer');
+
+    llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(createContainer).toHaveBeenCalledTimes(1);
+    expect(createContainer).toHaveBeenCalledWith({ groupId: session.id });
+    const scripts = executeScript.mock.calls.map(([options]) => options.script);
+    expect(scripts.some((script) => script.includes(`git checkout -q -b 'agent/session-${session.id}'`))).toBe(true);
+    expect(githubService.getCallStats().configureGitClientInContainer).toBe(1);
+
+    const containerId = executeScript.mock.calls[0][0].containerId;
+    expect(llmRunner.getCallHistory()[0]).toContain(`Workspace container ID: ${containerId}`);
+    expect(llmRunner.getCallHistory()[0]).toContain('The repository is checked out at /workspace');
+
+    const finalSession = await databaseService.retrieveSession(session.id);
+    expect(finalSession?.branch).toBe(`agent/session-${session.id}`);
+    expect(finalSession?.containerId).toBeNull();
+    expect(dockerService.getContainerCount()).toBe(0);
+  });
+
+  it('should open a pull request with the session branch once the session completes', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      repoUrl: 'https://github.com/test/repo.git',
+      prompt: 'Fix the typo in the README\nIt says "teh"',
+    });
+    const task = await databaseService.insertTask(session.id, 'Fix the typo');
+    await agentService.confirmPlan({ sessionId: session.id });
+    const runScript = dockerService.executeScript.bind(dockerService);
+    const executeScript = vi
+      .spyOn(dockerService, 'executeScript')
+      .mockImplementation(async (options) =>
+        options.script.includes('git push') ? { ok: true, value: 'pushed\norigin/develop\n' } : runScript(options),
+      );
+    const createPullRequest = vi.spyOn(githubService, 'createPullRequest');
+
+    llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.prUrl).toBe('https://github.com/test/repo/pull/1');
+    expect((await databaseService.retrieveSession(session.id))?.prUrl).toBe(result.prUrl);
+
+    const pushScript = executeScript.mock.calls.map(([options]) => options.script).find((s) => s.includes('git push'));
+    expect(pushScript).toContain("git commit -q -m 'Fix the typo in the README'");
+    expect(pushScript).toContain(`git push -q origin 'agent/session-${session.id}'`);
+
+    const [owner, repo, title, head, base, body] = createPullRequest.mock.calls[0];
+    expect([owner, repo, title, head, base]).toEqual([
+      'test',
+      'repo',
+      'Fix the typo in the README',
+      `agent/session-${session.id}`,
+      'develop',
+    ]);
+    expect(body).toContain(`- [x] ${task.description} (COMPLETED)\n  Task goal achieved`);
+    expect(body).toContain('1 ReAct steps with 0 tool calls');
+  });
+
+  it('should not open a pull request when the session left the repository unchanged', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      repoUrl: 'https://github.com/test/repo',
+    });
+    await databaseService.insertTask(session.id, 'Check the build');
+    await agentService.confirmPlan({ sessionId: session.id });
+    const executeScript = dockerService.executeScript.bind(dockerService);
+    vi.spyOn(dockerService, 'executeScript').mockImplementation(async (options) =>
+      options.script.includes('git push') ? { ok: true, value: '' } : executeScript(options),
+    );
+
+    llmRunner.setResponses(['Check it', 'Checked', completeReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.prUrl).toBeUndefined();
+    expect(githubService.getCallStats().createPullRequest ?? 0).toBe(0);
+  });
+
+  it('should keep the workspace of a failed session when asked to', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    await databaseService.insertTask(session.id, 'Fix the typo');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setResponses([
+      'Fix it',
+      'Broke it',
+      JSON.stringify({ summary: 'File is read-only', is_task_complete: false, is_task_failed: true }),
+    ]);
+
+    const result = await agentService.executePlan({ sessionId: session.id, workspaceRetention: 'keep-on-failure' });
+
+    expect(result.status).toBe('FAILED');
+    const [container] = dockerService.getContainers();
+    expect(container.groupId).toBe(session.id);
+    expect((await databaseService.retrieveSession(session.id))?.containerId).toBe(container.id);
   });
 
   it('should handle deadline exceeded during execution', async () => {
@@ -167,6 +438,7 @@ describe('Agent Service Tests', () => {
       rawPlan: JSON.stringify([task]),
     });
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('DEADLINE_EXCEEDED');
@@ -176,17 +448,695 @@ describe('Agent Service Tests', () => {
     expect(finalSession?.status).toBe('DEADLINE_EXCEEDED');
   });
 
-  it('should throw error when trying to execute a session not awaiting confirmation', async () => {
-    // Create a session in wrong status
+  it('should stop at the next LLM call once the deadline passes mid-task', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      deadline: new Date(Date.now() + 3600000),
+    });
+    const task = await databaseService.insertTask(session.id, 'Long running task');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const generateContent = llmRunner.generateContent.bind(llmRunner);
+    vi.spyOn(llmRunner, 'generateContent').mockImplementation(async (prompt, signal) => {
+      vi.setSystemTime(Date.now() + 2 * 3600000);
+      return generateContent(prompt, signal);
+    });
+    llmRunner.setResponses(['Start the work']);
+
+    try {
+      const result = await agentService.executePlan({ sessionId: session.id });
+
+      expect(result.status).toBe('DEADLINE_EXCEEDED');
+      expect(result.log).toHaveLength(0);
+      expect(llmRunner.getCallHistory()).toHaveLength(1);
+      expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('IN_PROGRESS');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should end a task whose step budget runs out', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Endless task');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setResponses(['Try', 'Tried', incompleteReflection, 'Try again', 'Tried again', incompleteReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id, taskBudget: { maxSteps: 2 } });
+
+    expect(result.log).toHaveLength(2);
+    expect(result.log[0].budgetExhausted).toBeUndefined();
+    expect(result.log[1].budgetExhausted).toEqual({ budget: 'steps', limit: 2, used: 2 });
+    const finalTask = databaseService.getAllTasks().find((t) => t.id === task.id);
+    expect(finalTask?.status).toBe('BUDGET_EXCEEDED');
+    expect(JSON.parse(finalTask!.rawReactHistory!)[1].budgetExhausted.budget).toBe('steps');
+  });
+
+  it('should abort a call that runs past the task time budget', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Slow task');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    // The call only returns once it is aborted
+    vi.spyOn(llmRunner, 'generateContent').mockImplementation(
+      (_prompt, signal) =>
+        new Promise((_resolve, reject) => signal!.addEventListener('abort', () => reject(signal!.reason))),
+    );
+
+    const result = await agentService.executePlan({ sessionId: session.id, taskBudget: { maxDurationMs: 20 } });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.log).toHaveLength(1);
+    expect(result.log[0].budgetExhausted).toMatchObject({ budget: 'time', limit: 20 });
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('BUDGET_EXCEEDED');
+  });
+
+  it('should end a task whose token budget runs out', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Expensive task');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setResponses(['Think hard', 'Thought', incompleteReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id, taskBudget: { maxTokens: 10 } });
+
+    expect(result.log).toHaveLength(1);
+    expect(result.log[0].usage!.tokens).toBeGreaterThan(10);
+    expect(result.log[0].budgetExhausted).toMatchObject({ budget: 'tokens', limit: 10 });
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('BUDGET_EXCEEDED');
+    const finalSession = await databaseService.retrieveSession(session.id);
+    expect(JSON.parse(finalSession!.rawTaskBudget!)).toEqual({ maxSteps: 50, maxTokens: 10 });
+  });
+
+  it('should total the tokens and cost of LLM calls per task and per session', async () => {
+    vi.spyOn(llmRunner, 'getConfig').mockReturnValue({ provider: 'openai', apiKey: 'test-api-key', model: 'gpt-4o' });
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Fix the typo');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.usage.totalTokens).toBeGreaterThan(0);
+    expect(result.usage.totalTokens).toBe(result.usage.promptTokens + result.usage.completionTokens);
+    expect(result.usage.costUsd).toBeCloseTo(
+      (result.usage.promptTokens * 2.5 + result.usage.completionTokens * 10) / 1_000_000,
+    );
+    expect(result.taskUsage).toEqual([
+      { taskId: task.id, tokens: result.usage.totalTokens, costUsd: expect.any(Number) },
+    ]);
+    expect(result.taskUsage[0].costUsd).toBeCloseTo(result.usage.costUsd);
+    const finalSession = await databaseService.retrieveSession(session.id);
+    expect(JSON.parse(finalSession!.rawUsage!)).toEqual(result.usage);
+  });
+
+  it('should stop the session once its token budget is used up', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Fix the typo');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id, sessionBudget: { maxTokens: 1 } });
+
+    // The reason call uses up the budget, so the act call never starts
+    expect(result.status).toBe('BUDGET_EXCEEDED');
+    expect(llmRunner.getCallHistory()).toHaveLength(1);
+    expect(result.usage.totalTokens).toBeGreaterThan(1);
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('PENDING');
+    expect(dockerService.getContainerCount()).toBe(0);
+  });
+
+  it('should store task dependencies emitted by planning', async () => {
+    llmRunner.setResponses([
+      JSON.stringify([
+        { description: 'Create schema' },
+        { description: 'Write queries', dependsOn: [0] },
+        { description: 'Write docs', dependsOn: [2, 5] },
+      ]),
+    ]);
+
+    const plan = await agentService.startPlanning({ prompt: 'Add storage', repoUrl: 'https://github.com/test/repo' });
+
+    expect(JSON.parse(plan[1].rawDependencies!)).toEqual([plan[0].id]);
+    expect(plan[2].rawDependencies ?? null).toBeNull();
+    expect(databaseService.getAllSessions()[0].repoUrl).toBe('https://github.com/test/repo');
+  });
+
+  it('should store the structured fields of a planned task', async () => {
+    const generateJSON = vi.spyOn(llmRunner as Required<typeof llmRunner>, 'generateJSON');
+    llmRunner.setResponses([
+      JSON.stringify({
+        tasks: [
+          {
+            title: 'Add login route',
+            description: 'Add a POST /login route',
+            acceptanceCriteria: ['POST /login returns a token'],
+            files: ['src/routes/auth.ts'],
+            effort: 'medium',
+          },
+        ],
+      }),
+    ]);
+
+    const [task] = await agentService.startPlanning({ prompt: 'Add login', repoUrl: 'https://github.com/test/repo' });
+
+    expect(task).toMatchObject({ title: 'Add login route', description: 'Add a POST /login route', effort: 'medium' });
+    expect(JSON.parse(task.rawAcceptanceCriteria!)).toEqual(['POST /login returns a token']);
+    expect(JSON.parse(task.rawLikelyFiles!)).toEqual(['src/routes/auth.ts']);
+    expect(generateJSON.mock.calls[0][1]).toMatchObject({
+      type: 'object',
+      properties: { tasks: { type: 'array', items: { type: 'object' } } },
+      required: ['tasks'],
+    });
+  });
+
+  it('should ask the model to repair a plan that fails validation', async () => {
+    llmRunner.setResponses([
+      JSON.stringify([{ title: 'No description', effort: 'huge' }]),
+      JSON.stringify([{ title: 'Fixed', description: 'Write the docs', effort: 'small' }]),
+    ]);
+
+    const plan = await agentService.startPlanning({ prompt: 'Document it', repoUrl: 'https://github.com/test/repo' });
+
+    expect(plan.map((t) => t.description)).toEqual(['Write the docs']);
+    const repairPrompt = llmRunner.getCallHistory()[1];
+    expect(repairPrompt).toContain('Your previous response did not match the required format');
+    expect(repairPrompt).toContain('description');
+  });
+
+  it('should fail planning when the repaired plan is still invalid', async () => {
+    llmRunner.setResponses(['{"tasks": []}', '[]']);
+
+    await expect(
+      agentService.startPlanning({ prompt: 'Document it', repoUrl: 'https://github.com/test/repo' }),
+    ).rejects.toThrow('Planning response did not match the plan schema');
+    expect(databaseService.getAllSessions()[0].status).toBe('FAILED');
+    expect(databaseService.getAllTasks()).toHaveLength(0);
+  });
+
+  it('should run tasks after their dependencies and fail when a dependency cannot complete', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const dependent = await databaseService.insertTask(session.id, 'Deploy the service');
+    const dependency = await databaseService.insertTask(session.id, 'Build the service');
+    await databaseService.updateTask(dependent.id, { rawDependencies: JSON.stringify([dependency.id]) });
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setResponses([
+      'Build it',
+      'Build broke',
+      JSON.stringify({ summary: 'Build is broken', is_task_complete: false, is_task_failed: true }),
+    ]);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.log.map((item) => item.reason)).toEqual(['Build it']);
+    const tasks = databaseService.getAllTasks();
+    expect(tasks.find((t) => t.id === dependency.id)?.status).toBe('FAILED');
+    expect(tasks.find((t) => t.id === dependent.id)?.status).toBe('PENDING');
+  });
+
+  describe('failure policy', () => {
+    const failedReflection = JSON.stringify({
+      summary: 'Build is broken',
+      is_task_complete: false,
+      is_task_failed: true,
+      failure_reason: 'compiler crashed',
+    });
+
+    it('should stop the session after a failed task by default', async () => {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      const first = await databaseService.insertTask(session.id, 'Build the service');
+      const second = await databaseService.insertTask(session.id, 'Write the docs');
+      await agentService.confirmPlan({ sessionId: session.id });
+
+      llmRunner.setResponses(['Build it', 'Build broke', failedReflection]);
+
+      const result = await agentService.executePlan({ sessionId: session.id });
+
+      expect(result.status).toBe('FAILED');
+      const tasks = databaseService.getAllTasks();
+      expect(tasks.find((t) => t.id === first.id)?.status).toBe('FAILED');
+      expect(tasks.find((t) => t.id === second.id)?.status).toBe('PENDING');
+    });
+
+    it('should retry a failed task with a summary of the failure', async () => {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      const task = await databaseService.insertTask(session.id, 'Build the service');
+      await agentService.confirmPlan({ sessionId: session.id });
+
+      llmRunner.setResponses([
+        'Build it',
+        'Build broke',
+        failedReflection,
+        'Build it again',
+        'Built',
+        completeReflection,
+      ]);
+
+      const result = await agentService.executePlan({
+        sessionId: session.id,
+        failurePolicy: { strategy: 'retry', maxRetries: 1 },
+      });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.log.map((item) => item.reason)).toEqual(['Build it', 'Build it again']);
+      expect(llmRunner.getCallHistory()[3]).toContain('Previous attempts at this task failed:\n- compiler crashed');
+      const finalTask = databaseService.getAllTasks().find((t) => t.id === task.id);
+      expect(finalTask?.status).toBe('COMPLETED');
+      expect(JSON.parse(finalTask!.rawPreviousAttempts!)).toEqual(['compiler crashed']);
+      expect(JSON.parse(finalTask!.rawReactHistory!)).toHaveLength(1);
+    });
+
+    it('should reset the session workspace to where a failed task started before retrying it', async () => {
+      const session = await databaseService.createSession({
+        status: 'AWAITING_CONFIRMATION',
+        repoUrl: 'https://github.com/test/repo',
+      });
+      const task = await databaseService.insertTask(session.id, 'Build the service');
+      await agentService.confirmPlan({ sessionId: session.id });
+      const executeScript = vi.spyOn(dockerService, 'executeScript');
+      llmRunner.setResponses([
+        'Build it',
+        'Build broke',
+        failedReflection,
+        'Build it again',
+        'Built',
+        completeReflection,
+      ]);
+
+      const result = await agentService.executePlan({
+        sessionId: session.id,
+        failurePolicy: { strategy: 'retry', maxRetries: 1 },
+      });
+
+      expect(result.status).toBe('COMPLETED');
+      const scripts = executeScript.mock.calls.map(([options]) => options.script);
+      const resets = scripts.flatMap((script, index) =>
+        script.includes(`git read-tree -u --reset refs/agent/base/${task.id}`) ? [index] : [],
+      );
+      const bases = scripts.flatMap((script, index) =>
+        script.includes(`git update-ref refs/agent/base/${task.id}`) ? [index] : [],
+      );
+      // Reset once, between the failed attempt and the retry
+      expect(resets).toHaveLength(1);
+      expect(bases).toHaveLength(2);
+      expect(resets[0]).toBeGreaterThan(bases[0]);
+      expect(resets[0]).toBeLessThan(bases[1]);
+    });
+
+    it('should fail the session once retries are used up', async () => {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      await databaseService.insertTask(session.id, 'Build the service');
+      await agentService.confirmPlan({ sessionId: session.id });
+
+      llmRunner.setResponses([
+        'Build it',
+        'Build broke',
+        failedReflection,
+        'Build it again',
+        'Broke',
+        failedReflection,
+      ]);
+
+      const result = await agentService.executePlan({
+        sessionId: session.id,
+        failurePolicy: { strategy: 'retry', maxRetries: 1 },
+      });
+
+      expect(result.status).toBe('FAILED');
+      expect(result.log).toHaveLength(2);
+    });
+
+    it('should replan the remaining tasks around a failed task', async () => {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      const build = await databaseService.insertTask(session.id, 'Build the service');
+      const deploy = await databaseService.insertTask(session.id, 'Deploy the service');
+      await databaseService.updateTask(deploy.id, { rawDependencies: JSON.stringify([build.id]) });
+      await agentService.confirmPlan({ sessionId: session.id });
+
+      llmRunner.setResponseMapping(
+        'Revise the remaining tasks',
+        JSON.stringify([
+          {
+            type: 'add',
+            description: 'Build with the legacy toolchain',
+            afterTaskId: build.id,
+            reason: 'The new toolchain crashes',
+          },
+        ]),
+      );
+      llmRunner.setResponses([
+        'Build it',
+        'Build broke',
+        failedReflection,
+        'Use the legacy toolchain',
+        'Built',
+        completeReflection,
+        'Deploy it',
+        'Deployed',
+        completeReflection,
+      ]);
+
+      const result = await agentService.executePlan({ sessionId: session.id, failurePolicy: { strategy: 'replan' } });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.log.map((item) => item.reason)).toEqual(['Build it', 'Use the legacy toolchain', 'Deploy it']);
+      const tasks = databaseService.getAllTasks();
+      expect(tasks.find((t) => t.id === build.id)?.status).toBe('REPLANNED');
+      const legacyBuild = tasks.find((t) => t.description === 'Build with the legacy toolchain')!;
+      expect(legacyBuild.status).toBe('COMPLETED');
+      expect(tasks.find((t) => t.id === deploy.id)?.rawDependencies).toBe(JSON.stringify([legacyBuild.id]));
+      const finalSession = await databaseService.retrieveSession(session.id);
+      expect(JSON.parse(finalSession!.rawFailurePolicy!)).toEqual({ strategy: 'replan', maxRetries: 2 });
+    });
+  });
+
+  describe('parallel execution', () => {
+    beforeEach(() => {
+      llmRunner.setResponseMapping('Decide the single next step', 'Work on it');
+      llmRunner.setResponseMapping('Use tools to carry out each step', 'Worked on it');
+      llmRunner.setResponseMapping('Reflect on the observation', completeReflection);
+    });
+
+    it('should run independent tasks concurrently in their own containers', async () => {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      const api = await databaseService.insertTask(session.id, 'Build the API');
+      const ui = await databaseService.insertTask(session.id, 'Build the UI');
+      const e2e = await databaseService.insertTask(session.id, 'Write end-to-end tests');
+      await databaseService.updateTask(e2e.id, { rawDependencies: JSON.stringify([api.id, ui.id]) });
+      await agentService.confirmPlan({ sessionId: session.id });
+
+      let maxContainers = 0;
+      const statusesWhenE2EStarted: string[] = [];
+      const generateContent = llmRunner.generateContent.bind(llmRunner);
+      vi.spyOn(llmRunner, 'generateContent').mockImplementation(async (prompt, signal) => {
+        maxContainers = Math.max(maxContainers, dockerService.getContainerCount());
+        if (prompt.includes('Task: Write end-to-end tests')) {
+          const tasks = databaseService.getAllTasks();
+          statusesWhenE2EStarted.push(...[api, ui].map((t) => tasks.find((task) => task.id === t.id)!.status));
+        }
+        return generateContent(prompt, signal);
+      });
+
+      const result = await agentService.executePlan({ sessionId: session.id, maxParallelTasks: 2 });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.log).toHaveLength(3);
+      expect(result.mergeConflicts).toEqual([]);
+      // Two task containers next to the session workspace
+      expect(maxContainers).toBe(3);
+      expect(statusesWhenE2EStarted).toEqual(['COMPLETED', 'COMPLETED']);
+      expect(dockerService.getContainerCount()).toBe(0);
+
+      const containerIds = llmRunner
+        .getCallHistory()
+        .map((prompt) => prompt.match(/Workspace container ID: (\S+)/)?.[1])
+        .filter(Boolean);
+      expect(new Set(containerIds).size).toBe(3);
+    });
+
+    it('should surface merge conflicts between tasks that ran in parallel', async () => {
+      const session = await databaseService.createSession({
+        status: 'AWAITING_CONFIRMATION',
+        repoUrl: 'https://github.com/test/repo',
+      });
+      await databaseService.insertTask(session.id, 'Rename the config option');
+      await databaseService.insertTask(session.id, 'Document the config option');
+      await agentService.confirmPlan({ sessionId: session.id });
+      const executeScript = vi.spyOn(dockerService, 'executeScript');
+
+      const result = await agentService.executePlan({ sessionId: session.id, maxParallelTasks: 2 });
+
+      // The test container echoes the conflict marker for every patch checked against the later task's changes
+      const tasks = databaseService.getAllTasks();
+      const integrated = tasks.find((t) => t.status === 'COMPLETED')!;
+      const conflicted = tasks.find((t) => t.status === 'MERGE_CONFLICT')!;
+      expect(integrated.patch).toBeTruthy();
+      expect(conflicted.patch ?? null).toBeNull();
+      expect(result.mergeConflicts).toEqual([{ taskId: conflicted.id, conflictingTaskIds: [integrated.id] }]);
+      expect(JSON.parse(conflicted.rawReactHistory!).at(-1).mergeConflict.conflictingTaskIds).toEqual([integrated.id]);
+
+      const scripts = executeScript.mock.calls.map(([options]) => options.script);
+      expect(scripts.filter((script) => script.includes('git checkout -q -b agent/'))).toHaveLength(2);
+      expect(
+        scripts.filter((script) => script.includes(`git checkout -q -b 'agent/session-${session.id}'`)),
+      ).toHaveLength(1);
+      expect(scripts.filter((script) => script.includes('echo "applied"'))).toHaveLength(1);
+      expect(scripts.some((script) => script.includes('git apply --check'))).toBe(true);
+      // Patches are taken against the state each task started from, so commits made in its container are kept
+      expect(
+        tasks.every((task) =>
+          scripts.some(
+            (script) => script.includes('git diff --cached --binary') && script.includes(`refs/agent/base/${task.id}`),
+          ),
+        ),
+      ).toBe(true);
+    });
+
+    it('should resume a paused task in the container it was paused in', async () => {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      const task = await databaseService.insertTask(session.id, 'Write the migration');
+      await agentService.confirmPlan({ sessionId: session.id });
+
+      const generateContent = llmRunner.generateContent.bind(llmRunner);
+      const pause = vi.spyOn(llmRunner, 'generateContent').mockImplementation(async (prompt, signal) => {
+        await agentService.pauseExecution(session.id);
+        return generateContent(prompt, signal);
+      });
+
+      const paused = await agentService.executePlan({ sessionId: session.id, maxParallelTasks: 2 });
+
+      expect(paused.status).toBe('PAUSED');
+      const pausedTask = databaseService.getAllTasks().find((t) => t.id === task.id)!;
+      expect(pausedTask.status).toBe('IN_PROGRESS');
+      const { containerId } = JSON.parse(pausedTask.rawWorkspace!);
+      // The session workspace and the paused task's container
+      expect(dockerService.getContainerCount()).toBe(2);
+
+      pause.mockRestore();
+      const promptsBeforeResume = llmRunner.getCallHistory().length;
+      const resumed = await agentService.resumeExecution(session.id);
+
+      expect(resumed.status).toBe('COMPLETED');
+      const resumedContainerIds = llmRunner
+        .getCallHistory()
+        .slice(promptsBeforeResume)
+        .map((prompt) => prompt.match(/Workspace container ID: (\S+)/)?.[1])
+        .filter(Boolean);
+      expect(resumedContainerIds).not.toHaveLength(0);
+      expect(new Set(resumedContainerIds)).toEqual(new Set([containerId]));
+      expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.rawWorkspace).toBeNull();
+      expect(dockerService.getContainerCount()).toBe(0);
+    });
+
+    it('should wait for a container when the group limit is reached', async () => {
+      // Room for the session workspace and one task container
+      const limitedDocker = createTestDockerService({ containerLimit: 2 });
+      const limitedAgent = createAgentService({
+        config: createTestConfig(),
+        llmRunner,
+        githubService,
+        dockerService: limitedDocker,
+        databaseService,
+      });
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      await databaseService.insertTask(session.id, 'First task');
+      await databaseService.insertTask(session.id, 'Second task');
+      await limitedAgent.confirmPlan({ sessionId: session.id });
+
+      const result = await limitedAgent.executePlan({ sessionId: session.id, maxParallelTasks: 2 });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.log).toHaveLength(2);
+      expect(limitedDocker.getContainerCount()).toBe(0);
+    });
+  });
+
+  it('should emit events while a plan executes', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Run the tool');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    const toolCall: ToolCall = { id: 'call_1', name: 'unknown_tool', arguments: {} };
+    llmRunner.setToolCallResponses([toolCall]);
+    llmRunner.setResponses(['Use the tool', completeReflection]);
+
+    const events: AgentEvent[] = [];
+    const unsubscribe = agentService.subscribe((event) => events.push(event));
+    await agentService.executePlan({ sessionId: session.id });
+    unsubscribe();
+
+    expect(events.map((event) => event.type)).toEqual([
+      'session_status',
+      'task_started',
+      'llm_request',
+      'llm_response',
+      'llm_request',
+      'llm_response',
+      'tool_call',
+      'tool_result',
+      'llm_request',
+      'llm_response',
+      'task_finished',
+      'session_status',
+    ]);
+    expect(events[0]).toEqual({ type: 'session_status', sessionId: session.id, status: 'EXECUTING' });
+    expect(events.filter((event) => event.type === 'llm_request').map((event) => event.phase)).toEqual([
+      'reason',
+      'act',
+      'reflect',
+    ]);
+    const actResponse = events.find((event) => event.type === 'llm_response' && event.phase === 'act');
+    expect(actResponse?.type === 'llm_response' && actResponse.usage.totalTokens).toBeGreaterThan(0);
+    expect(events[6]).toEqual({ type: 'tool_call', sessionId: session.id, taskId: task.id, toolCall });
+    expect(events[10]).toEqual({ type: 'task_finished', sessionId: session.id, taskId: task.id, status: 'COMPLETED' });
+    expect(events[11]).toEqual({ type: 'session_status', sessionId: session.id, status: 'COMPLETED' });
+  });
+
+  describe('approval gates', () => {
+    let gatedAgent: AgentService;
+    const deleteCall: ToolCall = { id: 'call_rm', name: 'run_shell_command', arguments: { command: 'rm -rf build' } };
+
+    beforeEach(() => {
+      gatedAgent = createAgentService({
+        config: createTestConfig(),
+        llmRunner,
+        githubService,
+        dockerService,
+        databaseService,
+        shellCommand,
+      });
+    });
+
+    /**
+     * Runs a one-task plan until its shell tool call is held for approval
+     */
+    async function runUntilApproval(): Promise<{ sessionId: string; taskId: string }> {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+      const task = await databaseService.insertTask(session.id, 'Clean the build directory');
+      await gatedAgent.confirmPlan({ sessionId: session.id });
+
+      llmRunner.setToolCallResponses([deleteCall]);
+      llmRunner.setResponses(['Delete the build output']);
+      const result = await gatedAgent.executePlan({ sessionId: session.id });
+      expect(result.status).toBe('AWAITING_APPROVAL');
+
+      return { sessionId: session.id, taskId: task.id };
+    }
+
+    it('should hold a gated tool call until it is approved', async () => {
+      const executeToolCalls = vi.spyOn(llmRunner as Required<typeof llmRunner>, 'executeToolCalls');
+      const { sessionId, taskId } = await runUntilApproval();
+
+      expect(executeToolCalls).not.toHaveBeenCalled();
+      const waiting = await databaseService.retrieveSession(sessionId);
+      expect(JSON.parse(waiting!.rawApprovalRequests!)).toEqual([{ taskId, toolCall: deleteCall }]);
+      expect(JSON.parse(databaseService.getAllTasks()[0].rawPendingStep!).reason).toBe('Delete the build output');
+      await expect(gatedAgent.resumeExecution(sessionId)).rejects.toThrow('Session is not executing or paused');
+
+      const callsBefore = llmRunner.getCallHistory().length;
+      llmRunner.setResponses([completeReflection]);
+      const result = await gatedAgent.approveToolCalls({ sessionId });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(executeToolCalls).toHaveBeenCalledWith([deleteCall], expect.anything());
+      // The held step continues at Observe, so only the reflection is requested
+      expect(llmRunner.getCallHistory()).toHaveLength(callsBefore + 1);
+      expect(result.log[0].reason).toBe('Delete the build output');
+      const finished = await databaseService.retrieveSession(sessionId);
+      expect(JSON.parse(finished!.rawApprovalRequests!)).toEqual([]);
+      expect(databaseService.getAllTasks()[0].rawPendingStep).toBeNull();
+    });
+
+    it('should feed a denial back to the model as an observation', async () => {
+      const executeToolCalls = vi.spyOn(llmRunner as Required<typeof llmRunner>, 'executeToolCalls');
+      const { sessionId } = await runUntilApproval();
+
+      llmRunner.setResponses([completeReflection]);
+      const result = await gatedAgent.denyToolCalls({ sessionId, toolCallId: 'call_rm', note: 'keep the cache' });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(executeToolCalls).not.toHaveBeenCalled();
+      expect(result.log[0].observation).toEqual([
+        { toolCallId: 'call_rm', result: { error: 'Tool call denied by user: keep the cache' } },
+      ]);
+      expect(llmRunner.getCallHistory().at(-1)).toContain('Tool call denied by user: keep the cache');
+    });
+
+    it('should reject decisions for sessions that are not awaiting approval', async () => {
+      const session = await databaseService.createSession({ status: 'EXECUTING' });
+
+      await expect(gatedAgent.approveToolCalls({ sessionId: session.id })).rejects.toThrow(
+        'Session is not awaiting approval',
+      );
+    });
+  });
+
+  it('should throw error when trying to execute a plan that has not been confirmed', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      rawPlan: JSON.stringify([{ id: 'task-1', description: 'Task' }]),
+    });
+
+    await expect(agentService.executePlan({ sessionId: session.id })).rejects.toThrow('Plan has not been confirmed');
+  });
+
+  it('should lock the confirmed plan against further refinement', async () => {
     const session = await databaseService.createSession({
-      status: 'PLANNING',
+      status: 'AWAITING_CONFIRMATION',
     });
+    const task = await databaseService.insertTask(session.id, 'Write the README');
+
+    const confirmed = await agentService.confirmPlan({ sessionId: session.id });
 
-    await expect(agentService.executePlan({ sessionId: session.id })).rejects.toThrow(
+    expect(confirmed.map((t) => t.id)).toEqual([task.id]);
+    const confirmedSession = await databaseService.retrieveSession(session.id);
+    expect(confirmedSession?.status).toBe('CONFIRMED');
+    expect(confirmedSession?.confirmedPlan).toBe(JSON.stringify(confirmed));
+    expect(confirmedSession?.confirmedAt).toBeInstanceOf(Date);
+
+    await expect(
+      agentService.refinePlan({ sessionId: session.id, refinementPrompt: 'Also add a changelog' }),
+    ).rejects.toThrow('Session is not awaiting confirmation');
+    await expect(agentService.confirmPlan({ sessionId: session.id })).rejects.toThrow(
       'Session is not awaiting confirmation',
     );
   });
 
+  it('should keep the refinement conversation across turns', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+    const api = await databaseService.insertTask(session.id, 'Build the API');
+
+    llmRunner.setResponses([
+      JSON.stringify([
+        { op: 'keep', taskId: api.id },
+        { op: 'insert', description: 'Add authentication' },
+      ]),
+    ]);
+
+    const firstPlan = await agentService.refinePlan({ sessionId: session.id, refinementPrompt: 'Add authentication' });
+    llmRunner.setResponses([
+      JSON.stringify([
+        { op: 'keep', taskId: api.id },
+        { op: 'edit', taskId: firstPlan[1].id, description: 'Add OAuth authentication' },
+      ]),
+    ]);
+    await agentService.refinePlan({ sessionId: session.id, refinementPrompt: 'Use OAuth for it' });
+
+    const prompts = llmRunner.getCallHistory();
+    expect(prompts[1]).toContain('User: Add authentication');
+    expect(prompts[1]).toContain('Assistant: Revised tasks: Build the API, Add authentication');
+
+    const updatedSession = await databaseService.retrieveSession(session.id);
+    expect(JSON.parse(updatedSession!.rawRefinementHistory!)).toHaveLength(4);
+  });
+
   it('should throw error when session not found for execution', async () => {
     await expect(agentService.executePlan({ sessionId: 'non-existent' })).rejects.toThrow('Session not found');
   });
@@ -226,18 +1176,931 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall1, toolCall2]);
-    llmRunner.setResponses(['Continuing with next step', 'TASK_COMPLETE']);
+    llmRunner.setResponses(['Run step 1', incompleteReflection, 'Run step 2', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
-    expect(result.log).toHaveLength(4); // Two tool calls plus two completion attempts
+    expect(result.log).toHaveLength(2);
 
     // Verify react history was updated in database
     const updatedTask = databaseService.getAllTasks().find((t) => t.id === task.id);
     expect(updatedTask?.rawReactHistory).toBeDefined();
     const reactHistory = JSON.parse(updatedTask?.rawReactHistory || '[]');
-    expect(reactHistory).toHaveLength(4);
+    expect(reactHistory).toHaveLength(2);
+    expect(reactHistory[1].action.toolCalls).toEqual([toolCall2]);
+  });
+
+  it('should replay tool results to the model as tool turns', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+
+    const task = await databaseService.insertTask(session.id, 'Inspect the workspace');
+
+    await databaseService.updateSession(session.id, {
+      rawPlan: JSON.stringify([task]),
+    });
+
+    const toolCall: ToolCall = {
+      id: 'call_1',
+      name: 'run_shell_command',
+      arguments: { command: 'ls' },
+    };
+
+    llmRunner.setToolCallResponses([toolCall]);
+    llmRunner.setResponses([
+      'List the files',
+      incompleteReflection,
+      'Summarize',
+      'Nothing left to do',
+      completeReflection,
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    await agentService.executePlan({ sessionId: session.id });
+
+    const transcripts = llmRunner.getChatHistory();
+    expect(transcripts).toHaveLength(2);
+
+    // First Act turn carries the task and the current reasoning
+    expect(transcripts[0]).toHaveLength(2);
+    expect(transcripts[0][0].content).toContain('Inspect the workspace');
+    expect(transcripts[0][1]).toEqual({
+      role: 'user',
+      content: 'Next step: List the files\nCarry out this step using the available tools.',
+    });
+
+    // Second Act turn replays the assistant tool call, its result tied by ID, and the reflection
+    const [, assistantTurn, toolTurn, reflectionTurn] = transcripts[1];
+    expect(assistantTurn).toEqual({ role: 'assistant', content: undefined, toolCalls: [toolCall] });
+    expect(toolTurn).toEqual({
+      role: 'tool',
+      toolCallId: 'call_1',
+      name: 'run_shell_command',
+      content: JSON.stringify({ stdout: 'test output', stderr: '', exitCode: 0 }),
+    });
+    expect(reflectionTurn).toEqual({ role: 'user', content: 'Reflection: More work needed' });
+  });
+
+  it('should render prompts from the registry and record their versions on each step', async () => {
+    agentService = createAgentService({
+      config: createTestConfig(),
+      llmRunner,
+      githubService,
+      dockerService,
+      databaseService,
+      approvalRules: [],
+      promptRegistry: createPromptRegistry({
+        reason: { version: 'terse', text: 'Task: {{task}}\nName the next step.' },
+      }),
+    });
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Versioned task');
+    await databaseService.updateSession(session.id, { rawPlan: JSON.stringify([task]) });
+    llmRunner.setResponses(['Finish up', 'Done', completeReflection]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(llmRunner.getCallHistory()[0]).toBe('Task: Versioned task\nName the next step.');
+    const reactHistory = JSON.parse(databaseService.getAllTasks()[0].rawReactHistory || '[]');
+    expect(reactHistory[0].promptVersions).toEqual({ reason: 'terse', act: '1', actStep: '1', reflect: '1' });
+  });
+
+  it('should only complete a task from the validated reflection', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+
+    const task = await databaseService.insertTask(session.id, 'Claim completion early');
+
+    await databaseService.updateSession(session.id, {
+      rawPlan: JSON.stringify([task]),
+    });
+
+    llmRunner.setResponses([
+      'Declare victory',
+      'TASK_COMPLETE',
+      incompleteReflection,
+      'Try again',
+      'TASK_COMPLETE',
+      'not a reflection',
+      'Finish',
+      'Done',
+      completeReflection,
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.log).toHaveLength(3);
+    expect(result.log[0].action.content).toBe('TASK_COMPLETE');
+    expect(result.log[0].reflection.is_task_complete).toBe(false);
+    expect(result.log[1].reflection.summary).toContain('Reflection could not be validated');
+    expect(result.log[2].reflection.is_task_complete).toBe(true);
+  });
+
+  it('should treat a reflection with malformed JSON in a code block as inconclusive', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    await databaseService.insertTask(session.id, 'Reflect badly');
+    // Without generateJSON, the agent parses the reflection from generated text itself
+    delete (llmRunner as { generateJSON?: unknown }).generateJSON;
+
+    llmRunner.setResponses([
+      'Look',
+      'Looked',
+      '```json\n{"summary": "Half done",\n```',
+      'Finish',
+      'Done',
+      completeReflection,
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.log).toHaveLength(2);
+    expect(result.log[0].reflection.summary).toContain('Reflection could not be validated');
+  });
+
+  it('should fail a task when the reflection reports a persistent error', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+
+    const task = await databaseService.insertTask(session.id, 'Use a missing binary');
+
+    await databaseService.updateSession(session.id, {
+      rawPlan: JSON.stringify([task]),
+    });
+
+    llmRunner.setToolCallResponses([{ id: 'call_1', name: 'run_shell_command', arguments: { command: 'missing' } }]);
+    llmRunner.setResponses([
+      'Run the binary',
+      JSON.stringify({
+        summary: 'Binary is not installed',
+        is_task_complete: false,
+        is_task_failed: true,
+        failure_reason: 'command not found',
+      }),
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.log).toHaveLength(1);
+    expect(result.log[0].reflection.failure_reason).toBe('command not found');
+    const failedTask = databaseService.getAllTasks().find((t) => t.id === task.id);
+    expect(failedTask?.status).toBe('FAILED');
+  });
+
+  it('should apply plan modifications proposed during reflection', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+
+    const first = await databaseService.insertTask(session.id, 'Install dependencies');
+    const second = await databaseService.insertTask(session.id, 'Configure the build cache');
+    const third = await databaseService.insertTask(session.id, 'Run the tests');
+
+    await databaseService.updateSession(session.id, {
+      rawPlan: JSON.stringify([first, second, third]),
+    });
+
+    llmRunner.setToolCallResponses([{ id: 'call_1', name: 'run_shell_command', arguments: { command: 'npm ci' } }]);
+    llmRunner.setResponses([
+      'Install the packages',
+      JSON.stringify({
+        summary: 'Installed, but the lockfile needs migrating and caching is built in',
+        is_task_complete: true,
+        is_task_failed: false,
+        plan_modifications: [
+          { type: 'add', description: 'Migrate the lockfile', afterTaskId: first.id, reason: 'Old lockfile format' },
+          { type: 'obsolete', taskId: second.id, reason: 'Caching is built in' },
+          { type: 'edit', taskId: third.id, description: 'Run the unit tests', reason: 'No e2e setup' },
+          { type: 'obsolete', taskId: 'missing', reason: 'Unknown task' },
+        ],
+      }),
+      'Migrate it',
+      'Lockfile migrated',
+      completeReflection,
+      'Run them',
+      'Tests passed',
+      completeReflection,
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    const applied = result.log[0].planModifications!;
+    expect(applied.map((m) => m.applied)).toEqual([true, true, true, false]);
+
+    const tasks = databaseService.getAllTasks().sort((a, b) => a.order - b.order);
+    expect(tasks.map((t) => [t.description, t.status])).toEqual([
+      ['Install dependencies', 'COMPLETED'],
+      ['Migrate the lockfile', 'COMPLETED'],
+      ['Configure the build cache', 'OBSOLETE'],
+      ['Run the unit tests', 'COMPLETED'],
+    ]);
+
+    const updatedSession = await databaseService.retrieveSession(session.id);
+    const rawPlan: Task[] = JSON.parse(updatedSession!.rawPlan!);
+    expect(rawPlan.map((t) => t.id)).toContain(applied[0].taskId);
+  });
+
+  it('should stop a task that the reflection marks as obsolete', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+    });
+
+    const task = await databaseService.insertTask(session.id, 'Create the config file');
+
+    await databaseService.updateSession(session.id, {
+      rawPlan: JSON.stringify([task]),
+    });
+
+    llmRunner.setResponses([
+      'Check for an existing config',
+      'The config file already exists',
+      JSON.stringify({
+        summary: 'Config already present',
+        is_task_complete: false,
+        is_task_failed: false,
+        plan_modifications: [{ type: 'obsolete', taskId: task.id, reason: 'Already exists' }],
+      }),
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.log).toHaveLength(1);
+    expect(databaseService.getAllTasks()[0].status).toBe('OBSOLETE');
+  });
+
+  it('should verify a completed task with the declared test commands', async () => {
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      repoUrl: 'https://github.com/test/repo',
+      rawAgentContext: JSON.stringify(parseAgentContext('AGENT.md', '## Testing\n- `npm test`')),
+    });
+    const task = await databaseService.insertTask(session.id, 'Fix the failing test');
+
+    const executeScript = dockerService.executeScript.bind(dockerService);
+    const testScripts: string[] = [];
+    vi.spyOn(dockerService, 'executeScript').mockImplementation(async (options) => {
+      if (options.script.includes('(npm test)')) {
+        testScripts.push(options.script);
+        return { ok: true, value: testScripts.length === 1 ? 'check failed\n1 failing' : 'check passed\n' };
+      }
+      return executeScript(options);
+    });
+    llmRunner.setResponses([
+      'Edit the test',
+      'Edited',
+      completeReflection,
+      'Edit it again',
+      'Edited again',
+      completeReflection,
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.log).toHaveLength(2);
+    expect(result.log[0].testResults![0]).toEqual({ command: 'npm test', passed: false, output: '1 failing' });
+    expect(result.log[0].reflection.is_task_complete).toBe(false);
+    expect(result.log[0].reflection.summary).toContain('Test commands failed: npm test');
+    expect(result.log[1].testResults![0].passed).toBe(true);
+    expect(testScripts[0]).toMatch(/^cd \/workspace\n/);
+    expect(llmRunner.getCallHistory()[0]).toContain('Repository instructions (AGENT.md):');
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('COMPLETED');
+  });
+
+  describe('verification', () => {
+    const metCriteria = JSON.stringify({ criteria_met: true, feedback: 'The diff fixes the typo' });
+
+    let session: Awaited<ReturnType<typeof databaseService.createSession>>;
+
+    beforeEach(async () => {
+      session = await databaseService.createSession({
+        status: 'AWAITING_CONFIRMATION',
+        repoUrl: 'https://github.com/test/repo',
+      });
+      await databaseService.insertTask(session.id, 'Fix the typo');
+      await agentService.confirmPlan({ sessionId: session.id });
+    });
+
+    it('should send a task that fails its checks back to work with the check output', async () => {
+      const executeScript = dockerService.executeScript.bind(dockerService);
+      let checkRuns = 0;
+      vi.spyOn(dockerService, 'executeScript').mockImplementation(async (options) => {
+        if (options.script.includes('/tmp/verification.log')) {
+          checkRuns++;
+          return { ok: true, value: checkRuns === 1 ? 'check failed\nsrc/a.ts: error TS2322' : 'check passed\n' };
+        }
+        return executeScript(options);
+      });
+      llmRunner.setResponseMapping('Review whether the diff meets', metCriteria);
+      llmRunner.setResponses([
+        'Fix it',
+        'Fixed',
+        completeReflection,
+        'Fix the type error',
+        'Fixed',
+        completeReflection,
+      ]);
+
+      const result = await agentService.executePlan({
+        sessionId: session.id,
+        verification: { commands: ['npm test'] },
+      });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.log).toHaveLength(2);
+      expect(result.log[0].verification).toMatchObject({
+        passed: false,
+        checks: [{ command: 'npm test', passed: false, output: 'src/a.ts: error TS2322' }],
+        criteriaMet: true,
+      });
+      expect(result.log[0].reflection.is_task_complete).toBe(false);
+      expect(result.log[1].verification?.passed).toBe(true);
+      const retryPrompt = llmRunner
+        .getCallHistory()
+        .filter((prompt) => prompt.includes('Decide the single next step'))[1];
+      expect(retryPrompt).toContain('Check failed: npm test');
+    });
+
+    it('should fail a task once verification retries run out', async () => {
+      llmRunner.setResponseMapping(
+        'Review whether the diff meets',
+        JSON.stringify({ criteria_met: false, feedback: 'The typo is still there' }),
+      );
+      llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+      const result = await agentService.executePlan({
+        sessionId: session.id,
+        verification: { commands: ['npm test'], maxRetries: 0 },
+      });
+
+      expect(result.status).toBe('FAILED');
+      expect(result.log[0].reflection.is_task_failed).toBe(true);
+      expect(result.log[0].reflection.failure_reason).toContain('Acceptance criteria not met: The typo is still there');
+      expect(databaseService.getAllTasks()[0].status).toBe('FAILED');
+    });
+
+    it('should detect checks from the repository when none are configured', async () => {
+      const executeScript = vi.spyOn(dockerService, 'executeScript');
+      llmRunner.setResponseMapping('Review whether the diff meets', metCriteria);
+      llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+      const result = await agentService.executePlan({ sessionId: session.id, verification: {} });
+
+      expect(result.status).toBe('COMPLETED');
+      const scripts = executeScript.mock.calls.map(([options]) => options.script);
+      expect(scripts.some((script) => script.includes(`grep -q '"lint"[[:space:]]*:' package.json`))).toBe(true);
+      expect(result.log[0].verification?.checks.map((check) => check.command)).toEqual(['npm run build']);
+    });
+
+    it('should review the diff against the workspace state the task started from', async () => {
+      const executeScript = vi.spyOn(dockerService, 'executeScript');
+      llmRunner.setResponseMapping('Review whether the diff meets', metCriteria);
+      llmRunner.setResponses(['Fix it', 'Fixed', completeReflection]);
+
+      await agentService.executePlan({ sessionId: session.id, verification: { commands: ['npm test'] } });
+
+      const [task] = databaseService.getAllTasks();
+      const scripts = executeScript.mock.calls.map(([options]) => options.script);
+      const baseIndex = scripts.findIndex((script) => script.includes(`git update-ref refs/agent/base/${task.id}`));
+      const diffIndex = scripts.findIndex((script) => script.includes('git diff'));
+      expect(baseIndex).toBeGreaterThanOrEqual(0);
+      expect(diffIndex).toBeGreaterThan(baseIndex);
+      expect(scripts[diffIndex]).toContain(`git rev-parse -q --verify refs/agent/base/${task.id}`);
+    });
+  });
+
+  it('should run a delegated subtask with its own tools and record it on the task', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Update the auth configuration');
+
+    const delegateCall: ToolCall = {
+      id: 'call_1',
+      name: 'delegate_subtask',
+      arguments: { goal: 'Find where auth is configured', tools: ['run_shell_command'], maxSteps: 3 },
+    };
+    const fetchCall: ToolCall = { id: 'call_2', name: 'web_fetch', arguments: { url: 'https://example.com' } };
+    const searchCall: ToolCall = { id: 'call_3', name: 'run_shell_command', arguments: { command: 'grep -r auth' } };
+    llmRunner.setToolCallResponses([delegateCall, fetchCall, searchCall]);
+    llmRunner.setResponses([
+      'Delegate the search',
+      'Fetch the docs',
+      incompleteReflection,
+      'Search the code',
+      completeReflection,
+      completeReflection,
+    ]);
+
+    await agentService.confirmPlan({ sessionId: session.id });
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.log).toHaveLength(1);
+    const [subtask] = await databaseService.listSubtasks(task.id);
+    expect(result.log[0].observation[0].result).toEqual({
+      subtaskId: subtask.id,
+      status: 'COMPLETED',
+      summary: 'Task goal achieved',
+      steps: 2,
+      tokens: expect.any(Number),
+    });
+    expect(llmRunner.getCallHistory()[2]).toContain('This is a subtask of: Update the auth configuration');
+    expect(llmRunner.getCallHistory()[2]).toContain('Task: Find where auth is configured');
+
+    expect(subtask).toMatchObject({
+      taskId: task.id,
+      goal: 'Find where auth is configured',
+      status: 'COMPLETED',
+      result: 'Task goal achieved',
+    });
+    expect(JSON.parse(subtask.rawTools!)).toEqual(['run_shell_command']);
+    expect(JSON.parse(subtask.rawBudget!)).toEqual({ maxSteps: 3 });
+    const subtaskHistory: ReactHistoryItem[] = JSON.parse(subtask.rawReactHistory!);
+    expect(subtaskHistory[0].observation).toEqual([
+      { toolCallId: 'call_2', result: { error: 'Tool web_fetch is not available to this subtask' } },
+    ]);
+    expect(subtaskHistory[1].action.toolCalls).toEqual([searchCall]);
+  });
+
+  it('should close the subtask row of a sub-run stopped by a pause', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Update the auth configuration');
+    await agentService.confirmPlan({ sessionId: session.id });
+    llmRunner.setToolCallResponses([
+      { id: 'call_1', name: 'delegate_subtask', arguments: { goal: 'Find where auth is configured' } },
+    ]);
+    llmRunner.setResponses(['Delegate the search']);
+    const generateContent = llmRunner.generateContent.bind(llmRunner);
+    vi.spyOn(llmRunner, 'generateContent').mockImplementation(async (prompt, signal) => {
+      if (prompt.includes('Task: Find where auth is configured')) {
+        await agentService.pauseExecution(session.id);
+      }
+      return generateContent(prompt, signal);
+    });
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('PAUSED');
+    const [subtask] = await databaseService.listSubtasks(task.id);
+    expect(subtask.status).toBe('FAILED');
+    expect(subtask.result).toBe('Stopped before finishing: PAUSE');
+  });
+
+  it('should simulate mutating tool calls in a dry run and end in its own status', async () => {
+    // Default approval rules gate run_shell_command, but a simulated call never runs
+    agentService = createAgentService({
+      config: createTestConfig(),
+      llmRunner,
+      githubService,
+      dockerService,
+      databaseService,
+    });
+    const session = await databaseService.createSession({
+      status: 'AWAITING_CONFIRMATION',
+      repoUrl: 'https://github.com/test/repo',
+    });
+    await databaseService.insertTask(session.id, 'Clean the build output');
+    await agentService.confirmPlan({ sessionId: session.id });
+    const createPullRequest = vi.spyOn(githubService, 'createPullRequest');
+    const events: AgentEvent[] = [];
+    agentService.subscribe((event) => events.push(event));
+
+    llmRunner.setToolCallResponses([
+      { id: 'call_1', name: 'dockerManager.listContainers', arguments: {} },
+      { id: 'call_2', name: 'run_shell_command', arguments: { command: 'rm -rf dist' } },
+    ]);
+    llmRunner.setResponses(['Look around', incompleteReflection, 'Remove dist', completeReflection]);
+
+    const result = await agentService.executePlan({ sessionId: session.id, dryRun: true });
+
+    expect(result.status).toBe('DRY_RUN_COMPLETED');
+    expect(result.log[0].observation[0].simulated).toBeUndefined();
+    expect(result.log[1].observation[0]).toEqual({
+      toolCallId: 'call_2',
+      result: expect.objectContaining({ simulated: true }),
+      simulated: true,
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'tool_result', toolCallId: 'call_2', simulated: true }),
+    );
+    expect(createPullRequest).not.toHaveBeenCalled();
+    expect((await databaseService.retrieveSession(session.id))?.dryRun).toBe(true);
+  });
+
+  it('should hint about a repeated tool call, then fail the task when the loop continues', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Build the project');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    llmRunner.setToolCallResponses(
+      [1, 2, 3, 4].map((n) => ({
+        id: `call_${n}`,
+        name: 'dockerManager.executeScript',
+        arguments: { containerId: 'c1', script: 'npm run build' },
+      })),
+    );
+    llmRunner.setResponseMapping('Decide the single next step', 'Run the build again');
+    llmRunner.setResponseMapping('Reflect on the observation', incompleteReflection);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.log).toHaveLength(4);
+    expect(result.log[1].loopDetected).toBeUndefined();
+    expect(result.log[2].loopDetected).toMatchObject({ pattern: 'repetition', repetitions: 3, action: 'hint' });
+    expect(result.log[2].reflection.summary).toContain('Loop detected: The last 3 steps repeated');
+    expect(result.log[2].reflection.is_task_failed).toBe(false);
+    expect(llmRunner.getCallHistory().filter((p) => p.includes('Loop detected'))).not.toHaveLength(0);
+    expect(result.log[3].loopDetected?.action).toBe('fail');
+    expect(result.log[3].reflection.failure_reason).toMatch(/^LOOP_DETECTED: The last 4 steps repeated/);
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('FAILED');
+  });
+
+  it('should resume an interrupted execution from the stored ReAct history', async () => {
+    const session = await databaseService.createSession({ status: 'EXECUTING' });
+    const done = await databaseService.insertTask(session.id, 'Create the project');
+    const interrupted = await databaseService.insertTask(session.id, 'Install dependencies');
+    const pending = await databaseService.insertTask(session.id, 'Run the build');
+
+    const previousStep = {
+      reason: 'Install express',
+      action: { content: 'Installing', toolCalls: [] },
+      observation: [],
+      reflection: { summary: 'express installed, cors still missing', is_task_complete: false, is_task_failed: false },
+    };
+    await databaseService.updateTask(done.id, { status: 'COMPLETED' });
+    await databaseService.updateTask(interrupted.id, {
+      status: 'IN_PROGRESS',
+      rawReactHistory: JSON.stringify([previousStep]),
+    });
+
+    llmRunner.setResponses(['Install cors', 'Installed', completeReflection, 'Build it', 'Built', completeReflection]);
+
+    const result = await agentService.resumeExecution(session.id);
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.log.map((item) => item.reason)).toEqual(['Install express', 'Install cors', 'Build it']);
+    expect(llmRunner.getCallHistory()[0]).toContain('Reflection: express installed, cors still missing');
+    const statuses = databaseService.getAllTasks().map((t) => [t.id, t.status]);
+    expect(statuses).toEqual([
+      [done.id, 'COMPLETED'],
+      [interrupted.id, 'COMPLETED'],
+      [pending.id, 'COMPLETED'],
+    ]);
+  });
+
+  describe('history compaction', () => {
+    const steps = Array.from({ length: 6 }, (_, index) => ({
+      reason: `Inspect file ${index + 1}`,
+      action: { content: 'Reading', toolCalls: [] },
+      observation: [],
+      reflection: { summary: `File ${index + 1} read`, is_task_complete: false, is_task_failed: false },
+    }));
+
+    it('should summarize older steps once the replayed history crosses the token threshold', async () => {
+      const compactingAgent = createAgentService({
+        config: createTestConfig(),
+        llmRunner,
+        githubService,
+        dockerService,
+        databaseService,
+        approvalRules: [],
+        compactionThresholdTokens: 100,
+      });
+      const session = await databaseService.createSession({ status: 'EXECUTING' });
+      const task = await databaseService.insertTask(session.id, 'Find the config loader');
+      await databaseService.updateTask(task.id, { status: 'IN_PROGRESS', rawReactHistory: JSON.stringify(steps) });
+
+      llmRunner.setResponseMapping('Update the summary so it replaces these steps', 'Config loader is src/config.ts');
+      llmRunner.setResponses(['Open src/config.ts', 'Opened', completeReflection]);
+
+      await compactingAgent.resumeExecution(session.id);
+
+      const [compactionPrompt, reasonPrompt] = llmRunner.getCallHistory();
+      expect(compactionPrompt).toContain('Steps 1-1:\n1. Reason: Inspect file 1');
+      expect(reasonPrompt).toContain('Summary of steps 1-1:\nConfig loader is src/config.ts');
+      expect(reasonPrompt).toContain('2. Reason: Inspect file 2');
+      expect(reasonPrompt).not.toContain('Inspect file 1');
+      const finalTask = databaseService.getAllTasks().find((t) => t.id === task.id);
+      expect(JSON.parse(finalTask!.rawHistorySummary!)).toEqual({
+        summary: 'Config loader is src/config.ts',
+        compactedSteps: 1,
+      });
+    });
+
+    it('should reuse the stored summary when an execution resumes', async () => {
+      const session = await databaseService.createSession({ status: 'EXECUTING' });
+      const task = await databaseService.insertTask(session.id, 'Find the config loader');
+      await databaseService.updateTask(task.id, {
+        status: 'IN_PROGRESS',
+        rawReactHistory: JSON.stringify(steps),
+        rawHistorySummary: JSON.stringify({ summary: 'Config loader is src/config.ts', compactedSteps: 4 }),
+      });
+
+      llmRunner.setResponses(['Open src/config.ts', 'Opened', completeReflection]);
+
+      await agentService.resumeExecution(session.id);
+
+      const [reasonPrompt] = llmRunner.getCallHistory();
+      expect(reasonPrompt).toContain('Summary of steps 1-4:\nConfig loader is src/config.ts');
+      expect(reasonPrompt).toContain('5. Reason: Inspect file 5');
+      expect(reasonPrompt).not.toContain('Inspect file 4');
+    });
+  });
+
+  it('should recreate the session container when it is gone on resume', async () => {
+    const session = await databaseService.createSession({
+      status: 'EXECUTING',
+      containerId: 'lost-container',
+      workspaceRetention: 'keep',
+    });
+    await databaseService.insertTask(session.id, 'Run the tests');
+
+    llmRunner.setResponses(['Run them', 'Passed', completeReflection]);
+
+    const result = await agentService.resumeExecution(session.id);
+
+    expect(result.status).toBe('COMPLETED');
+    const [container] = dockerService.getContainers();
+    expect(container.groupId).toBe(session.id);
+    expect((await databaseService.retrieveSession(session.id))?.containerId).toBe(container.id);
+    expect(llmRunner.getCallHistory()[0]).toContain(`Workspace container ID: ${container.id}`);
+  });
+
+  it('should only resume sessions that are executing', async () => {
+    const session = await databaseService.createSession({ status: 'COMPLETED' });
+
+    await expect(agentService.resumeExecution(session.id)).rejects.toThrow('Session is not executing or paused');
+    await expect(agentService.resumeExecution('non-existent')).rejects.toThrow('Session not found');
+  });
+
+  it('should pause a running execution and resume it later', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Write the migration');
+    await agentService.confirmPlan({ sessionId: session.id });
+
+    const generateContent = llmRunner.generateContent.bind(llmRunner);
+    let reasonCalls = 0;
+    vi.spyOn(llmRunner, 'generateContent').mockImplementation(async (prompt, signal) => {
+      if (++reasonCalls === 2) {
+        await agentService.pauseExecution(session.id);
+      }
+      return generateContent(prompt, signal);
+    });
+    llmRunner.setResponses(['Draft it', 'Drafted', incompleteReflection, 'Apply it']);
+
+    const paused = await agentService.executePlan({ sessionId: session.id });
+
+    expect(paused.status).toBe('PAUSED');
+    const pausedSession = await databaseService.retrieveSession(session.id);
+    expect(pausedSession?.controlRequest).toBeNull();
+    const pausedTask = databaseService.getAllTasks().find((t) => t.id === task.id);
+    expect(pausedTask?.status).toBe('IN_PROGRESS');
+    expect(JSON.parse(pausedTask!.rawReactHistory!)).toHaveLength(1);
+
+    llmRunner.setResponses(['Apply it', 'Applied', completeReflection]);
+    const resumed = await agentService.resumeExecution(session.id);
+
+    expect(resumed.status).toBe('COMPLETED');
+    expect(resumed.log.map((item) => item.reason)).toEqual(['Draft it', 'Apply it']);
+  });
+
+  it('should cancel a running execution through the persisted control flag', async () => {
+    const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const task = await databaseService.insertTask(session.id, 'Refactor the module');
+    await agentService.confirmPlan({ sessionId: session.id });
+    await dockerService.createContainer({ groupId: session.id });
+
+    // Simulates a cancel issued from another process, which can only reach the database
+    const generateContent = llmRunner.generateContent.bind(llmRunner);
+    vi.spyOn(llmRunner, 'generateContent').mockImplementation(async (prompt, signal) => {
+      await databaseService.updateSession(session.id, { controlRequest: 'CANCEL' });
+      return generateContent(prompt, signal);
+    });
+    llmRunner.setResponses(['Refactor it']);
+
+    const result = await agentService.executePlan({ sessionId: session.id });
+
+    expect(result.status).toBe('CANCELLED');
+    expect(result.log).toHaveLength(0);
+    const cancelledSession = await databaseService.retrieveSession(session.id);
+    expect(cancelledSession?.controlRequest).toBeNull();
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('PENDING');
+    expect(dockerService.getContainerCount()).toBe(0);
+  });
+
+  it('should cancel sessions that are not executing right away', async () => {
+    const awaiting = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION' });
+    const completed = await databaseService.createSession({ status: 'COMPLETED' });
+
+    const cancelled = await agentService.cancelExecution(awaiting.id);
+
+    expect(cancelled.status).toBe('CANCELLED');
+    await expect(agentService.cancelExecution(completed.id)).rejects.toThrow('Session has already finished');
+    await expect(agentService.pauseExecution(awaiting.id)).rejects.toThrow('Session is not executing');
+  });
+
+  it('should finish cancelling a session left executing by a crashed process', async () => {
+    let session = await databaseService.createSession({ status: 'EXECUTING' });
+    const task = await databaseService.insertTask(session.id, 'Refactor the module');
+    await databaseService.updateTask(task.id, { status: 'IN_PROGRESS' });
+    const container = await dockerService.createContainer({ groupId: session.id });
+    session = await databaseService.updateSession(session.id, {
+      containerId: container.ok ? container.value.id : null,
+    });
+
+    const cancelled = await agentService.cancelExecution(session.id);
+
+    expect(cancelled.status).toBe('CANCELLED');
+    expect(cancelled.containerId).toBeNull();
+    expect(dockerService.getContainerCount()).toBe(0);
+    expect(databaseService.getAllTasks().find((t) => t.id === task.id)?.status).toBe('PENDING');
+  });
+
+  it('should destroy the workspace of a paused session cancelled from another process', async () => {
+    let session = await databaseService.createSession({ status: 'PAUSED' });
+    const container = await dockerService.createContainer({ groupId: session.id });
+    session = await databaseService.updateSession(session.id, {
+      containerId: container.ok ? container.value.id : null,
+    });
+
+    // A fresh process only lists the containers it created or attached
+    const attached: string[] = [];
+    const attachContainer = dockerService.attachContainer.bind(dockerService);
+    vi.spyOn(dockerService, 'attachContainer').mockImplementation(async (containerId, groupId) => {
+      attached.push(containerId);
+      return attachContainer(containerId, groupId);
+    });
+    const listContainers = dockerService.listContainers.bind(dockerService);
+    vi.spyOn(dockerService, 'listContainers').mockImplementation(async (groupId) => {
+      const listResult = await listContainers(groupId);
+      return listResult.ok ? { ok: true, value: listResult.value.filter((c) => attached.includes(c.id)) } : listResult;
+    });
+
+    const cancelled = await agentService.cancelExecution(session.id);
+
+    expect(cancelled.status).toBe('CANCELLED');
+    expect(cancelled.containerId).toBeNull();
+    expect(dockerService.getContainerCount()).toBe(0);
+  });
+
+  describe('session forking', () => {
+    /**
+     * Creates a confirmed session with three tasks, the last depending on the second
+     */
+    async function createConfirmedSession(data: Partial<Session> = {}): Promise<{ session: Session; tasks: Task[] }> {
+      const session = await databaseService.createSession({ status: 'AWAITING_CONFIRMATION', ...data });
+      const first = await databaseService.insertTask(session.id, 'Add the parser');
+      const second = await databaseService.insertTask(session.id, 'Wire the parser into the CLI');
+      const third = await databaseService.insertTask(session.id, 'Document the CLI flag');
+      await databaseService.updateTask(third.id, { rawDependencies: JSON.stringify([second.id]) });
+      await agentService.confirmPlan({ sessionId: session.id });
+      return { session: (await databaseService.retrieveSession(session.id))!, tasks: [first, second, third] };
+    }
+
+    it('should fork from a task, keeping earlier tasks and restarting it and later ones', async () => {
+      const { session, tasks } = await createConfirmedSession();
+      const history = JSON.stringify([{ reason: 'Parse', action: { content: '', toolCalls: [] }, observation: [] }]);
+      await databaseService.updateTask(tasks[0].id, { status: 'COMPLETED', rawReactHistory: history });
+      await databaseService.updateTask(tasks[1].id, { status: 'FAILED', rawReactHistory: history });
+      await databaseService.updateSession(session.id, { status: 'FAILED' });
+
+      const fork = await agentService.forkSession(session.id, { fromTaskId: tasks[1].id });
+
+      expect(fork.status).toBe('CONFIRMED');
+      expect(fork.parentSessionId).toBe(session.id);
+      expect(fork.forkedFromTaskId).toBe(tasks[1].id);
+      const forkTasks = await databaseService.listTasks(fork.id);
+      expect(forkTasks.map((t) => [t.description, t.status])).toEqual([
+        ['Add the parser', 'COMPLETED'],
+        ['Wire the parser into the CLI', 'PENDING'],
+        ['Document the CLI flag', 'PENDING'],
+      ]);
+      expect(forkTasks[0].rawReactHistory).toBe(history);
+      expect(forkTasks[1].rawReactHistory).toBeFalsy();
+      expect(JSON.parse(forkTasks[2].rawDependencies!)).toEqual([forkTasks[1].id]);
+
+      llmRunner.setResponses(['Wire it', 'Wired', completeReflection, 'Document it', 'Documented', completeReflection]);
+      const result = await agentService.executePlan({ sessionId: fork.id });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.log).toHaveLength(2);
+      expect((await databaseService.listTasks(session.id)).map((t) => t.status)).toEqual([
+        'COMPLETED',
+        'FAILED',
+        'PENDING',
+      ]);
+    });
+
+    it('should reject a fork point outside the session', async () => {
+      const { session } = await createConfirmedSession();
+
+      await expect(agentService.forkSession(session.id, { fromTaskId: 'task-unknown' })).rejects.toThrow(
+        `Task task-unknown is not part of session ${session.id}`,
+      );
+      await expect(agentService.forkSession(session.id, { snapshotWorkspace: true })).rejects.toThrow(
+        'Session has no workspace to snapshot',
+      );
+    });
+
+    it('should start the workspace of a fork from a snapshot of its parent workspace', async () => {
+      const container = await dockerService.createContainer({ groupId: 'parent-workspace' });
+      const containerId = container.ok ? container.value.id : '';
+      const { session, tasks } = await createConfirmedSession({ repoUrl: 'https://github.com/test/repo', containerId });
+      const parserPatch = 'diff --git a/parser.ts b/parser.ts\n';
+      await databaseService.updateTask(tasks[0].id, { status: 'COMPLETED', patch: parserPatch });
+      await databaseService.updateTask(tasks[1].id, { status: 'COMPLETED', patch: 'diff --git a/cli.ts b/cli.ts\n' });
+      const attachContainer = vi.spyOn(dockerService, 'attachContainer');
+
+      const fork = await agentService.forkSession(session.id, { fromTaskId: tasks[1].id, snapshotWorkspace: true });
+      const image = `test-snapshot:${session.id}-${containerId}`;
+      expect(fork.workspaceImage).toBe(image);
+      expect(dockerService.getSnapshots()).toEqual([image]);
+      expect(attachContainer).toHaveBeenCalledWith(containerId, session.id);
+
+      const createContainer = vi.spyOn(dockerService, 'createContainer');
+      const executeScript = vi.spyOn(dockerService, 'executeScript');
+      llmRunner.setResponseMapping('Decide the single next step', 'Work on it');
+      llmRunner.setResponseMapping('Use tools to carry out each step', 'Worked on it');
+      llmRunner.setResponseMapping('Reflect on the observation', completeReflection);
+      const result = await agentService.executePlan({ sessionId: fork.id });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(createContainer).toHaveBeenCalledWith({ groupId: fork.id, image });
+      // The snapshot is removed with the fork's containers once it has completed
+      expect(dockerService.getSnapshots()).toEqual([]);
+      expect(githubService.getCallStats().configureGitClientInContainer).toBeUndefined();
+      // The snapshot is reset to the clone and only the changes of tasks before the fork point are applied again
+      const prepareScript = executeScript.mock.calls
+        .map(([options]) => options.script)
+        .find((script) => script.includes('git checkout -q -b'))!;
+      expect(prepareScript).toContain('git reset -q --hard origin/HEAD');
+      expect(prepareScript).toContain(parserPatch);
+      expect(prepareScript).not.toContain('cli.ts');
+    });
+
+    it('should record the changes of tasks run in the session workspace so forks can apply them', async () => {
+      const { session } = await createConfirmedSession({ repoUrl: 'https://github.com/test/repo' });
+      const executeScript = dockerService.executeScript.bind(dockerService);
+      vi.spyOn(dockerService, 'executeScript').mockImplementation(async (options) =>
+        options.script.includes('git diff --cached --binary')
+          ? { ok: true, value: 'diff --git a/parser.ts b/parser.ts\n' }
+          : executeScript(options),
+      );
+      llmRunner.setResponseMapping('Decide the single next step', 'Work on it');
+      llmRunner.setResponseMapping('Use tools to carry out each step', 'Worked on it');
+      llmRunner.setResponseMapping('Reflect on the observation', completeReflection);
+
+      const result = await agentService.executePlan({ sessionId: session.id });
+
+      expect(result.status).toBe('COMPLETED');
+      const tasks = await databaseService.listTasks(session.id);
+      expect(tasks.map((t) => t.patch)).toEqual(Array(3).fill('diff --git a/parser.ts b/parser.ts\n'));
+      const fork = await agentService.forkSession(session.id, { fromTaskId: tasks[2].id });
+      expect((await databaseService.listTasks(fork.id)).map((t) => t.patch)).toEqual([
+        tasks[0].patch,
+        tasks[1].patch,
+        null,
+      ]);
+    });
+
+    it('should reject a fork that would lose completed changes with no recorded patch', async () => {
+      const { session, tasks } = await createConfirmedSession({ repoUrl: 'https://github.com/test/repo' });
+      await databaseService.updateTask(tasks[0].id, { status: 'COMPLETED' });
+
+      await expect(agentService.forkSession(session.id, { fromTaskId: tasks[1].id })).rejects.toThrow(
+        `Task ${tasks[0].id} has no recorded changes to fork from`,
+      );
+    });
+
+    it('should list the lineage of a session from the session it descends from', async () => {
+      const { session } = await createConfirmedSession();
+      const first = await agentService.forkSession(session.id);
+      const nested = await agentService.forkSession(first.id);
+      const second = await agentService.forkSession(session.id);
+
+      const lineage = await agentService.getSessionLineage(nested.id);
+
+      expect(lineage.session.id).toBe(session.id);
+      expect(lineage.forks.map((f) => f.session.id)).toEqual([first.id, second.id]);
+      expect(lineage.forks[0].forks.map((f) => f.session.id)).toEqual([nested.id]);
+      expect(lineage.forks[1].forks).toEqual([]);
+    });
   });
 
   it('should handle GitHub repository creation in execution', async () => {
@@ -259,16 +2122,17 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses(['Run the tool', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
 
     // Verify the tool call was executed
-    expect(result.log).toHaveLength(2);
-    expect(result.log[0].toolCalls).toEqual([toolCall]);
-    expect(result.log[0].toolResults).toHaveLength(1);
+    expect(result.log).toHaveLength(1);
+    expect(result.log[0].action.toolCalls).toEqual([toolCall]);
+    expect(result.log[0].observation).toHaveLength(1);
   });
 
   it('should handle unknown tools in execution', async () => {
@@ -290,12 +2154,13 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses(['Run the tool', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
-    expect(result.log[0].toolResults?.[0]?.result).toEqual({ error: 'Unknown tool: unknown_tool' });
+    expect(result.log[0].observation[0].result).toEqual({ error: 'Unknown tool: unknown_tool' });
   });
 
   it('should handle exceptions during tool execution', async () => {
@@ -317,13 +2182,14 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses(['Run the tool', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
     // Since we're using the test tools service, this should succeed with mock data
-    expect(result.log[0].toolResults).toHaveLength(1);
+    expect(result.log[0].observation).toHaveLength(1);
   });
 
   it('should handle tool calls with the new approach', async () => {
@@ -345,13 +2211,14 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses(['Run the tool', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
-    expect(result.log[0].toolCalls).toEqual([toolCall]);
-    expect(result.log[0].toolResults).toHaveLength(1);
+    expect(result.log[0].action.toolCalls).toEqual([toolCall]);
+    expect(result.log[0].observation).toHaveLength(1);
   });
 
   it('should handle Docker service tools', async () => {
@@ -373,11 +2240,12 @@ describe('Agent Service Tests', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses(['Run the tool', completeReflection]);
 
+    await agentService.confirmPlan({ sessionId: session.id });
     const result = await agentService.executePlan({ sessionId: session.id });
 
     expect(result.status).toBe('COMPLETED');
-    expect(result.log[0].toolCalls).toEqual([toolCall]);
+    expect(result.log[0].action.toolCalls).toEqual([toolCall]);
   });
 });
@@ -2,13 +2,20 @@
  * Agent service for AI-driven task orchestration
  */
 
-import type { LLMRunnerService, ToolCall } from '../llm-runner/index.js';
+import type { LLMRunnerService, ToolCall, ChatMessage } from '../llm-runner/index.js';
 import type { GitHubService } from '../github/index.js';
 import type { DockerService } from '../docker/index.js';
-import type { DatabaseService, Task, Session } from '../database/index.js';
-import { createLLMToolsService } from '../llm-tools/index.js';
-import { createLLMRunnerWithConfig } from '../llm-runner/index.js';
+import type { DatabaseService, Task, Session, TaskEffort } from '../database/index.js';
+import { createLLMToolsService, type DelegateSubtaskArgs } from '../llm-tools/index.js';
+import { createLLMRunnerWithConfig, estimateTokenCount, estimateCost } from '../llm-runner/index.js';
 import { ApplicationConfig } from '../config/index.js';
+import { AGENT_CONTEXT_FILES, parseAgentContext, formatAgentContext, type AgentContext } from './agent-context.js';
+import { createAgentEventEmitter, type AgentEventListener, type LLMPhase, type LLMUsage } from './events.js';
+import { DEFAULT_APPROVAL_RULES, requiresApproval, type ApprovalRule, type ApprovalRequest } from './approval.js';
+import { createPromptRegistry, type PromptRegistry, type PromptVersions, type RenderedPrompt } from './prompts.js';
+import { isMutatingToolCall, simulateToolResult } from './dry-run.js';
+import { detectLoop, describeLoop, type LoopDetection } from './loop-detection.js';
+import { z } from 'zod';
 
 /**
  * Options for starting planning
@@ -19,6 +26,19 @@ export interface PlanningOptions {
   deadline?: Date;
 }
 
+/**
+ * Task as produced by planning, before it is stored
+ * dependsOn lists the 0-based indexes of earlier tasks in the plan
+ */
+export interface PlannedTask {
+  title?: string;
+  description: string;
+  acceptanceCriteria: string[];
+  files: string[];
+  dependsOn: number[];
+  effort?: TaskEffort;
+}
+
 /**
  * Options for refining a plan
  */
@@ -27,11 +47,178 @@ export interface RefinementOptions {
   refinementPrompt: string;
 }
 
+/**
+ * Options for confirming a plan
+ */
+export interface ConfirmationOptions {
+  sessionId: string;
+}
+
+/**
+ * A turn in the plan refinement conversation
+ */
+export interface RefinementTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Options for reverting a plan to an earlier version
+ */
+export interface RevertOptions {
+  sessionId: string;
+  version: number;
+}
+
+/**
+ * Options for forking a session: tasks before fromTaskId keep their status and ReAct history, it and later tasks
+ * start over; all tasks keep their state when it is omitted
+ */
+export interface ForkOptions {
+  fromTaskId?: string;
+  snapshotWorkspace?: boolean;
+}
+
+/**
+ * Session with the sessions forked from it, recursively; lineages start from the session the others descend from
+ */
+export interface SessionLineage {
+  session: Session;
+  forks: SessionLineage[];
+}
+
+/**
+ * Operation in a plan refinement diff; the order of non-delete operations is the new task order
+ */
+export type PlanDiffOperation =
+  | { op: 'keep'; taskId: string }
+  | { op: 'edit'; taskId: string; description: string }
+  | { op: 'insert'; description: string }
+  | { op: 'delete'; taskId: string };
+
+/**
+ * Snapshot of a plan recorded after planning, refinement or revert
+ */
+export interface PlanVersion {
+  version: number;
+  createdAt: string;
+  feedback?: string;
+  plan: Task[];
+  promptVersions?: PromptVersions;
+}
+
+/**
+ * Request persisted on a running session to stop it at the next checkpoint
+ */
+export type ControlRequest = 'CANCEL' | 'PAUSE';
+
+/**
+ * Per-task execution limits; time and tokens are unlimited unless set
+ */
+export interface TaskBudget {
+  maxSteps: number;
+  maxDurationMs?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Resources used by one ReAct step
+ */
+export interface StepUsage {
+  tokens: number;
+  durationMs: number;
+  costUsd?: number;
+}
+
+/**
+ * Tokens and cost, in US dollars at the model's list price, of a session's LLM calls
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Tokens and cost of the ReAct steps a task has recorded
+ */
+export interface TaskUsage {
+  taskId: string;
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Token and cost limits across all of a session's LLM calls; unlimited unless set
+ */
+export interface SessionBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+/**
+ * Budget that ended a task, recorded on the task's last history item
+ */
+export interface BudgetExhaustion {
+  budget: 'steps' | 'time' | 'tokens';
+  limit: number;
+  used: number;
+}
+
+/**
+ * What an execution does when a task fails, runs out of budget or conflicts with other tasks
+ * retry reruns the task with a summary of the failure, replan asks the model to revise the remaining tasks,
+ * and stop ends the session as FAILED; retry and replan fall back to stop after maxRetries attempts
+ */
+export interface FailurePolicy {
+  strategy: 'retry' | 'replan' | 'stop';
+  maxRetries: number;
+}
+
+/**
+ * Checks run in the workspace once a task reports completion; commands are detected from the repository when unset
+ * A task that fails verification goes back to work with the failure output, and fails after maxRetries such returns
+ */
+export interface VerificationPolicy {
+  commands?: string[];
+  maxRetries: number;
+}
+
+/**
+ * What happens to the session's workspace container when the session ends
+ */
+export type WorkspaceRetention = 'destroy' | 'keep' | 'keep-on-failure';
+
 /**
  * Options for executing a plan
  */
 export interface ExecutionOptions {
   sessionId: string;
+  taskBudget?: Partial<TaskBudget>;
+  maxParallelTasks?: number;
+  failurePolicy?: Partial<FailurePolicy>;
+  workspaceRetention?: WorkspaceRetention;
+  sessionBudget?: SessionBudget;
+  verification?: Partial<VerificationPolicy>;
+  dryRun?: boolean;
+}
+
+/**
+ * Options for approving or denying gated tool calls; without a tool call ID the decision covers every pending request
+ */
+export interface ApprovalDecisionOptions {
+  sessionId: string;
+  toolCallId?: string;
+  note?: string;
+}
+
+/**
+ * Changes of a completed task that do not apply on top of tasks integrated while it ran
+ */
+export interface MergeConflict {
+  taskId: string;
+  conflictingTaskIds: string[];
 }
 
 /**
@@ -40,145 +227,2769 @@ export interface ExecutionOptions {
 export interface ExecutionResult {
   status: Session['status'];
   log: ReactHistoryItem[];
+  mergeConflicts: MergeConflict[];
+  prUrl?: string;
+  usage: UsageTotals;
+  taskUsage: TaskUsage[];
+}
+
+/**
+ * Action taken during the Act phase of a ReAct step
+ */
+export interface ReactAction {
+  content?: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Modification to the plan proposed during execution
+ */
+export type PlanModification =
+  | { type: 'add'; description: string; afterTaskId?: string; reason: string }
+  | { type: 'edit'; taskId: string; description: string; reason: string }
+  | { type: 'obsolete'; taskId: string; reason: string };
+
+/**
+ * Outcome of applying a plan modification
+ */
+export interface AppliedPlanModification {
+  modification: PlanModification;
+  applied: boolean;
+  taskId?: string;
+  error?: string;
+}
+
+/**
+ * Structured reflection returned by the Observe/Reflect phase
+ */
+export interface Reflection {
+  summary: string;
+  is_task_complete: boolean;
+  is_task_failed: boolean;
+  failure_reason?: string;
+  plan_modifications?: PlanModification[];
 }
 
 /**
  * React history item for tracking execution
  */
 export interface ReactHistoryItem {
-  toolCalls?: ToolCall[];
-  toolResults?: Array<{ toolCallId: string; result: unknown }>;
-  content?: string;
-  observation: unknown;
+  reason: string;
+  action: ReactAction;
+  observation: Array<{ toolCallId: string; result: unknown; simulated?: boolean }>;
+  reflection: Reflection;
+  planModifications?: AppliedPlanModification[];
+  testResults?: TestCommandResult[];
+  usage?: StepUsage;
+  budgetExhausted?: BudgetExhaustion;
+  loopDetected?: LoopDetection;
+  mergeConflict?: MergeConflict;
+  verification?: VerificationResult;
+  promptVersions?: PromptVersions;
 }
 
 /**
- * Agent service interface
+ * LLM summary of a task's oldest ReAct steps, sent in their place in prompts
  */
-export interface AgentService {
-  startPlanning(options: PlanningOptions): Promise<Task[]>;
-  refinePlan(options: RefinementOptions): Promise<Task[]>;
-  executePlan(options: ExecutionOptions): Promise<ExecutionResult>;
+export interface HistorySummary {
+  summary: string;
+  compactedSteps: number;
 }
 
 /**
- * Dependencies for the agent service
+ * Nested ReAct run delegated by a task through the delegate_subtask tool, recorded as a Subtask row of the task
  */
-export interface AgentDependencies {
-  config?: ApplicationConfig;
-  llmRunner: LLMRunnerService;
-  githubService: GitHubService;
-  dockerService: DockerService;
-  databaseService: DatabaseService;
-  shellCommand?: (args: { command: string }) => Promise<unknown>;
-  webFetch?: (args: { url: string }) => Promise<unknown>;
-  googleSearch?: (args: { query: string }) => Promise<unknown>;
+export interface SubtaskRun {
+  id: string;
+  goal: string;
+  tools: string[];
+  budget: TaskBudget;
+  status: Task['status'];
+  reactHistory: ReactHistoryItem[];
+  result?: string;
 }
 
 /**
- * Creates an Agent service
- * @param deps - Dependencies for the agent service
- * @returns An AgentService instance
+ * Condensed outcome of a subtask, returned to the delegating task as the tool result
  */
-export function createAgentService(deps: AgentDependencies): AgentService {
-  const {
-    llmRunner,
-    githubService,
-    dockerService,
-    databaseService,
-    shellCommand = async (): Promise<unknown> => {
-      throw new Error('shellCommand not provided');
-    },
-    webFetch = async (): Promise<unknown> => {
-      throw new Error('webFetch not provided');
+export interface SubtaskResult {
+  subtaskId: string;
+  status: Task['status'];
+  summary: string;
+  steps: number;
+  tokens: number;
+}
+
+/**
+ * Outcome of a check command run in the workspace during verification
+ */
+export interface VerificationCheck {
+  command: string;
+  passed: boolean;
+  output: string;
+}
+
+/**
+ * Outcome of verifying a task that reported completion: its checks and the review of its diff against the task
+ */
+export interface VerificationResult {
+  passed: boolean;
+  checks: VerificationCheck[];
+  criteriaMet: boolean;
+  feedback: string;
+}
+
+/**
+ * Outcome of a test command declared in the repository context file
+ */
+export interface TestCommandResult {
+  command: string;
+  passed: boolean;
+  output: string;
+}
+
+/**
+ * Validation schema for plans returned by the LLM
+ */
+const PlanSchema = z
+  .array(
+    z.object({
+      title: z.string().min(1).optional(),
+      description: z.string().min(1),
+      acceptanceCriteria: z.array(z.string()).default([]),
+      files: z.array(z.string()).default([]),
+      dependsOn: z.array(z.number().int()).default([]),
+      effort: z.enum(['small', 'medium', 'large']).optional(),
+    }),
+  )
+  .min(1) satisfies z.ZodType<PlannedTask[]>;
+
+/**
+ * Plan schema passed to providers that support constrained JSON output, requiring the same fields as `PlanSchema`
+ */
+const PLAN_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          acceptanceCriteria: { type: 'array', items: { type: 'string' } },
+          files: { type: 'array', items: { type: 'string' } },
+          dependsOn: { type: 'array', items: { type: 'integer' } },
+          effort: { type: 'string', enum: ['small', 'medium', 'large'] },
+        },
+        required: ['description'],
+      },
     },
-    googleSearch = async (): Promise<unknown> => {
-      throw new Error('googleSearch not provided');
+  },
+  required: ['tasks'],
+};
+
+/**
+ * Validation schema for plan modifications returned by the LLM
+ */
+const PlanModificationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('add'),
+    description: z.string().min(1),
+    afterTaskId: z.string().optional(),
+    reason: z.string(),
+  }),
+  z.object({ type: z.literal('edit'), taskId: z.string(), description: z.string().min(1), reason: z.string() }),
+  z.object({ type: z.literal('obsolete'), taskId: z.string(), reason: z.string() }),
+]) satisfies z.ZodType<PlanModification>;
+
+/**
+ * Validation schema for replans returned by the LLM after a task failed
+ */
+const ReplanSchema = z.array(PlanModificationSchema);
+
+/**
+ * Validation schema for plan refinement diffs returned by the LLM
+ */
+const PlanDiffSchema = z.array(
+  z.discriminatedUnion('op', [
+    z.object({ op: z.literal('keep'), taskId: z.string() }),
+    z.object({ op: z.literal('edit'), taskId: z.string(), description: z.string().min(1) }),
+    z.object({ op: z.literal('insert'), description: z.string().min(1) }),
+    z.object({ op: z.literal('delete'), taskId: z.string() }),
+  ]),
+) satisfies z.ZodType<PlanDiffOperation[]>;
+
+/**
+ * Validation schema for reflections returned by the LLM
+ */
+const ReflectionSchema = z.object({
+  summary: z.string(),
+  is_task_complete: z.boolean(),
+  is_task_failed: z.boolean().default(false),
+  failure_reason: z.string().optional(),
+  plan_modifications: z.array(PlanModificationSchema).optional(),
+}) satisfies z.ZodType<Reflection>;
+
+/**
+ * Validation schema for delegate_subtask arguments chosen by the LLM
+ */
+const DelegateSubtaskSchema = z.object({
+  goal: z.string().min(1),
+  tools: z.array(z.string()).optional(),
+  maxSteps: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+}) satisfies z.ZodType<DelegateSubtaskArgs>;
+
+/**
+ * Validation schema for the review of a task's diff against its acceptance criteria
+ */
+const CriteriaReviewSchema = z.object({
+  criteria_met: z.boolean(),
+  feedback: z.string(),
+});
+
+/**
+ * Response schema for the criteria review, passed to providers that support constrained JSON output
+ */
+const CRITERIA_REVIEW_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    criteria_met: { type: 'boolean' },
+    feedback: { type: 'string' },
+  },
+  required: ['criteria_met', 'feedback'],
+};
+
+/**
+ * Response schema passed to providers that support constrained JSON output
+ */
+const REFLECTION_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    is_task_complete: { type: 'boolean' },
+    is_task_failed: { type: 'boolean' },
+    failure_reason: { type: 'string' },
+    plan_modifications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['add', 'edit', 'obsolete'] },
+          taskId: { type: 'string' },
+          afterTaskId: { type: 'string' },
+          description: { type: 'string' },
+          reason: { type: 'string' },
+        },
+        required: ['type', 'reason'],
+      },
     },
-  } = deps;
+  },
+  required: ['summary', 'is_task_complete', 'is_task_failed'],
+};
+
+/**
+ * Number of most recent history items kept verbatim when older ones are compacted into a summary
+ */
+const MAX_HISTORY_ITEMS = 5;
+
+/**
+ * Token count of the history replayed since the last summary above which older steps are compacted
+ */
+const DEFAULT_COMPACTION_THRESHOLD_TOKENS = 8000;
+
+/**
+ * Maximum length of each observation embedded in a compaction prompt
+ */
+const MAX_COMPACTED_OBSERVATION_LENGTH = 2000;
+
+/**
+ * Task budget used when an execution does not set its own limits
+ */
+const DEFAULT_TASK_BUDGET: TaskBudget = { maxSteps: 50 };
+
+/**
+ * Verification policy applied when an execution enables verification without a retry limit
+ */
+const DEFAULT_VERIFICATION_POLICY: VerificationPolicy = { maxRetries: 2 };
+
+/**
+ * Checks detected from the repository when verification has no configured commands
+ * A check applies when its file exists and, if a pattern is given, the file matches it
+ */
+const DETECTED_CHECKS: Array<{ file: string; pattern?: string; command: string }> = [
+  { file: 'package.json', pattern: '"build"[[:space:]]*:', command: 'npm run build' },
+  { file: 'package.json', pattern: '"lint"[[:space:]]*:', command: 'npm run lint' },
+  { file: 'package.json', pattern: '"test"[[:space:]]*:', command: 'npm test' },
+  { file: 'Cargo.toml', command: 'cargo build' },
+  { file: 'Cargo.toml', command: 'cargo test' },
+  { file: 'go.mod', command: 'go build ./...' },
+  { file: 'go.mod', command: 'go test ./...' },
+];
+
+/**
+ * Maximum length of the output kept from each verification check, taken from its end
+ */
+const MAX_CHECK_OUTPUT_LENGTH = 2000;
+
+/**
+ * Maximum length of the workspace diff reviewed against a task's acceptance criteria
+ */
+const MAX_REVIEWED_DIFF_LENGTH = 8000;
+
+/**
+ * Ref namespace holding the workspace state each task started from, which its patch and reviewed diff are taken against
+ */
+const TASK_BASE_REF = 'refs/agent/base';
+
+/**
+ * Resets a workspace restored from a snapshot to the cloned commit, so only the patches applied to it remain
+ */
+const RESET_TO_CLONE_COMMAND = 'git reset -q --hard origin/HEAD && git clean -fdq';
+
+/**
+ * Builds a shell expression naming the state a task started from, or HEAD when none was recorded
+ */
+function taskBaseRevision(taskId: string): string {
+  return `"$(git rev-parse -q --verify ${TASK_BASE_REF}/${taskId} || echo HEAD)"`;
+}
+
+/**
+ * Budget of a subtask whose delegating call sets no step limit
+ */
+const DEFAULT_SUBTASK_BUDGET: TaskBudget = { maxSteps: 10 };
+
+/**
+ * Failure policy used when an execution does not set its own
+ */
+const DEFAULT_FAILURE_POLICY: FailurePolicy = { strategy: 'stop', maxRetries: 2 };
+
+/**
+ * Longest delay a timer accepts; later deadlines are only enforced at checkpoints
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Maximum length of an observation embedded in a reflection prompt
+ */
+const MAX_OBSERVATION_LENGTH = 8000;
+
+/**
+ * Number of times a planning response that fails validation is sent back to the model for repair
+ */
+const MAX_PLAN_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Maximum number of refinement turns included in a refinement prompt
+ */
+const MAX_REFINEMENT_TURNS = 10;
+
+/**
+ * Path inside planning, session and task containers where the repository is cloned
+ */
+const WORKSPACE_PATH = '/workspace';
+
+/**
+ * Maximum length of the file tree embedded in a planning prompt
+ */
+const MAX_FILE_TREE_LENGTH = 4000;
+
+/**
+ * Maximum length of each manifest embedded in a planning prompt
+ */
+const MAX_MANIFEST_LENGTH = 2000;
+
+/**
+ * Maximum length of a repository context file read from the workspace
+ */
+const MAX_CONTEXT_FILE_LENGTH = 8000;
+
+/**
+ * Root-level files whose contents are included in the planning prompt when present
+ */
+const KEY_MANIFESTS = [
+  'README.md',
+  'package.json',
+  'pyproject.toml',
+  'requirements.txt',
+  'Cargo.toml',
+  'go.mod',
+  'Makefile',
+  'Dockerfile',
+];
+
+/**
+ * Quotes a value for safe use as a single shell argument
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Extracts the owner from a GitHub repository URL, used as the git username in the container
+ */
+function parseRepositoryOwner(repoUrl: string): string {
+  const match = repoUrl.match(/github\.com[/:]([^/]+)\//);
+  return match ? match[1] : 'builder';
+}
+
+/**
+ * Extracts the owner and name from a GitHub repository URL
+ */
+function parseRepository(repoUrl: string): { owner: string; repo: string } | undefined {
+  const match = repoUrl.match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+/**
+ * Maximum length of a pull request title taken from the session prompt
+ */
+const MAX_PR_TITLE_LENGTH = 72;
+
+/**
+ * Builds the pull request and commit title from the first line of the session prompt
+ */
+function buildPullRequestTitle(session: Session): string {
+  const line = session.prompt?.split('\n')[0].trim();
+  return line ? line.slice(0, MAX_PR_TITLE_LENGTH) : `Agent session ${session.id}`;
+}
+
+/**
+ * Builds the pull request body from the plan and the ReAct history of its tasks
+ */
+function buildPullRequestBody(session: Session, plan: Task[]): string {
+  let steps = 0;
+  let toolCalls = 0;
+  const tasks = plan.map((task) => {
+    const history: ReactHistoryItem[] = task.rawReactHistory ? JSON.parse(task.rawReactHistory) : [];
+    steps += history.length;
+    toolCalls += history.reduce((sum, item) => sum + item.action.toolCalls.length, 0);
+    const summary = history[history.length - 1]?.reflection.summary.replace(/\s+/g, ' ');
+    const checkbox = task.status === 'COMPLETED' ? '[x]' : '[ ]';
+    return `- ${checkbox} ${task.description} (${task.status})${summary ? `\n  ${summary}` : ''}`;
+  });
+
+  return `${session.prompt ? `${session.prompt}\n\n` : ''}## Plan
+${tasks.join('\n')}
+
+## Execution
+${steps} ReAct steps with ${toolCalls} tool calls, on session ${session.id}.`;
+}
+
+/**
+ * Turns an ingested file listing into a budgeted, workspace-relative file tree
+ */
+function summarizeFileTree(fileList: string, root: string): string[] {
+  return fileList
+    .split('\n')
+    .map((line) => line.trim())
+    .map((line) => (line.startsWith(`${root}/`) ? line.slice(root.length + 1) : line))
+    .filter((line) => line && !line.includes(' ') && !/(^|\/)(\.git|node_modules)\//.test(line))
+    .sort();
+}
+
+/**
+ * Heredoc delimiter used to pass patches to git inside a container
+ */
+const PATCH_DELIMITER = 'AGENT_PATCH_EOF';
+
+/**
+ * Task statuses after which a task is no longer run or modified
+ */
+const FINISHED_TASK_STATUSES: Task['status'][] = [
+  'COMPLETED',
+  'FAILED',
+  'OBSOLETE',
+  'BUDGET_EXCEEDED',
+  'MERGE_CONFLICT',
+  'REPLANNED',
+];
+
+/**
+ * Task statuses of a failure the failure policy has not recovered from
+ */
+const TASK_FAILURE_STATUSES: Task['status'][] = ['FAILED', 'BUDGET_EXCEEDED', 'MERGE_CONFLICT'];
+
+/**
+ * Returns the IDs of the tasks a task depends on
+ */
+function parseDependencies(task: Task): string[] {
+  return task.rawDependencies ? JSON.parse(task.rawDependencies) : [];
+}
+
+/**
+ * Returns unfinished tasks whose dependencies are all completed, obsolete or replanned, IN_PROGRESS ones first
+ * Dependencies on tasks no longer in the plan are treated as met
+ */
+function findReadyTasks(plan: Task[]): Task[] {
+  const known = new Set(plan.map((t) => t.id));
+  const met = new Set(
+    plan
+      .filter((t) => t.status === 'COMPLETED' || t.status === 'OBSOLETE' || t.status === 'REPLANNED')
+      .map((t) => t.id),
+  );
+  const ready = plan.filter(
+    (task) =>
+      (task.status === 'PENDING' || task.status === 'IN_PROGRESS') &&
+      parseDependencies(task).every((id) => met.has(id) || !known.has(id)),
+  );
+  return [...ready.filter((t) => t.status === 'IN_PROGRESS'), ...ready.filter((t) => t.status === 'PENDING')];
+}
+
+/**
+ * Builds a shell command that feeds a patch to git apply, running a fallback command when it does not apply
+ */
+function applyPatchCommand(patch: string, flags: string, onFailure?: string): string {
+  const fallback = onFailure ? ` 2>/dev/null || ${onFailure}` : '';
+  const body = patch.endsWith('\n') ? patch : `${patch}\n`;
+  return `git apply ${flags} <<'${PATCH_DELIMITER}'${fallback}\n${body}${PATCH_DELIMITER}`;
+}
+
+/**
+ * Session statuses after which a session can no longer be cancelled
+ */
+const FINISHED_STATUSES: Session['status'][] = [
+  'COMPLETED',
+  'DRY_RUN_COMPLETED',
+  'FAILED',
+  'CANCELLED',
+  'DEADLINE_EXCEEDED',
+  'BUDGET_EXCEEDED',
+];
+
+/**
+ * Why a running execution was interrupted
+ */
+type StopReason = ControlRequest | 'DEADLINE' | 'APPROVAL' | 'BUDGET';
+
+/**
+ * Usage of a session that has made no LLM calls
+ */
+const EMPTY_USAGE: UsageTotals = { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+
+/**
+ * Adds an LLM call's usage and cost to running totals
+ */
+function addUsage(totals: UsageTotals, usage: LLMUsage, costUsd: number): UsageTotals {
+  return {
+    promptTokens: totals.promptTokens + (usage.promptTokens ?? 0),
+    completionTokens: totals.completionTokens + (usage.completionTokens ?? 0),
+    totalTokens: totals.totalTokens + (usage.totalTokens ?? 0),
+    costUsd: totals.costUsd + costUsd,
+  };
+}
+
+/**
+ * Returns whether a session's usage has reached its budget
+ */
+function isSessionBudgetExhausted(session: Session): boolean {
+  if (!session.rawSessionBudget) {
+    return false;
+  }
+  const budget: SessionBudget = JSON.parse(session.rawSessionBudget);
+  const usage: UsageTotals = session.rawUsage ? JSON.parse(session.rawUsage) : EMPTY_USAGE;
+  return (
+    (budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens) ||
+    (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd)
+  );
+}
+
+/**
+ * Sums the usage recorded in each task's ReAct history
+ */
+function summarizeTaskUsage(plan: Task[]): TaskUsage[] {
+  return plan.map((task) => {
+    const history: ReactHistoryItem[] = task.rawReactHistory ? JSON.parse(task.rawReactHistory) : [];
+    return {
+      taskId: task.id,
+      tokens: history.reduce((sum, item) => sum + (item.usage?.tokens ?? 0), 0),
+      costUsd: history.reduce((sum, item) => sum + (item.usage?.costUsd ?? 0), 0),
+    };
+  });
+}
+
+/**
+ * Container a task runs in when tasks run in parallel
+ * Base task IDs are the completed tasks whose patches were applied when the container was prepared
+ */
+interface TaskWorkspace {
+  containerId: string;
+  baseTaskIds: string[];
+}
+
+/**
+ * Session and task an emitted event belongs to
+ */
+interface EventScope {
+  sessionId: string;
+  taskId?: string;
+}
+
+/**
+ * Estimates token usage from prompt and response text
+ */
+function estimateUsage(prompt: string | ChatMessage[], response: unknown): LLMUsage {
+  const promptTokens = estimateTokenCount(typeof prompt === 'string' ? prompt : JSON.stringify(prompt));
+  const completionTokens = estimateTokenCount(
+    typeof response === 'string' ? response : JSON.stringify(response ?? null),
+  );
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Abort signal and control-flag check shared by one execution run
+ */
+interface ExecutionControl {
+  signal: AbortSignal;
+  checkpoint(): Promise<void>;
+  stop(reason: StopReason): never;
+}
+
+/**
+ * Task whose step delegated a subtask, with what the nested run shares with it
+ */
+interface SubtaskParent {
+  session: Session;
+  task: Task;
+  control: ExecutionControl;
+  taskContext: string;
+}
+
+/**
+ * Reason and Act results of a step, kept while its tool calls wait for approval
+ */
+interface PendingStep {
+  reason: string;
+  action: ReactAction;
+  tokens: number;
+  costUsd?: number;
+  promptVersions?: PromptVersions;
+}
+
+/**
+ * Returns the first budget a task's history has used up, if any
+ */
+function findExhaustedBudget(reactHistory: ReactHistoryItem[], budget: TaskBudget): BudgetExhaustion | undefined {
+  const steps = reactHistory.length;
+  if (steps >= budget.maxSteps) {
+    return { budget: 'steps', limit: budget.maxSteps, used: steps };
+  }
+
+  const durationMs = reactHistory.reduce((sum, item) => sum + (item.usage?.durationMs ?? 0), 0);
+  if (budget.maxDurationMs !== undefined && durationMs >= budget.maxDurationMs) {
+    return { budget: 'time', limit: budget.maxDurationMs, used: durationMs };
+  }
+
+  const tokens = reactHistory.reduce((sum, item) => sum + (item.usage?.tokens ?? 0), 0);
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return { budget: 'tokens', limit: budget.maxTokens, used: tokens };
+  }
+
+  return undefined;
+}
+
+/**
+ * Introduces the summary of compacted history items, if any
+ */
+function summarizeOlderHistory(summary: HistorySummary | undefined): string {
+  return summary ? `Summary of steps 1-${summary.compactedSteps}:\n${summary.summary}\n` : '';
+}
+
+/**
+ * Builds the Reason prompt asking the model for the next step of a task
+ */
+function buildReasonPrompt(
+  prompts: PromptRegistry,
+  task: Task,
+  reactHistory: ReactHistoryItem[],
+  taskContext: string,
+  summary: HistorySummary | undefined,
+): RenderedPrompt {
+  const offset = summary?.compactedSteps ?? 0;
+  const steps = reactHistory
+    .slice(offset)
+    .map((item, index) => {
+      const tools = item.action.toolCalls.map((toolCall) => toolCall.name).join(', ') || 'none';
+      return `${offset + index + 1}. Reason: ${item.reason}\n   Tools: ${tools}\n   Reflection: ${item.reflection.summary}`;
+    })
+    .join('\n');
+
+  return prompts.render('reason', {
+    context: taskContext,
+    task: task.description,
+    summary: summarizeOlderHistory(summary),
+    steps: steps || 'None',
+  });
+}
+
+/**
+ * Describes why a task failed, from the last item of its history
+ */
+function describeTaskFailure(task: Task, reactHistory: ReactHistoryItem[]): string {
+  const last = reactHistory[reactHistory.length - 1];
+  if (last?.mergeConflict) {
+    return `Changes conflict with tasks ${last.mergeConflict.conflictingTaskIds.join(', ')}`;
+  }
+  if (last?.budgetExhausted) {
+    const { budget, used, limit } = last.budgetExhausted;
+    return `Ran out of its ${budget} budget (${used} of ${limit})`;
+  }
+  return last?.reflection.failure_reason || last?.reflection.summary || `Task ended as ${task.status}`;
+}
+
+/**
+ * Parses a text response as JSON, falling back to the first markdown code block; undefined when neither parses
+ */
+function parseJsonResponse(response: string): unknown {
+  try {
+    return JSON.parse(response);
+  } catch {
+    const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+    try {
+      return jsonMatch ? JSON.parse(jsonMatch[1]) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Takes the list out of a `{"<key>": [...]}` response; lists are wrapped since some providers only emit JSON objects
+ * A bare list is returned as is
+ */
+function unwrapList(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' && !Array.isArray(value) && key in value
+    ? (value as Record<string, unknown>)[key]
+    : value;
+}
+
+/**
+ * Validates a planning response, parsing it first when the provider returned text
+ */
+function validatePlan(raw: unknown): { plan: PlannedTask[] } | { error: string } {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { error: 'Response is not valid JSON' };
+    }
+  }
+  const parsed = PlanSchema.safeParse(unwrapList(value, 'tasks'));
+  return parsed.success ? { plan: parsed.data } : { error: parsed.error.message };
+}
+
+/**
+ * Builds the prompt asking the model to correct a planning response that failed validation
+ */
+function buildPlanRepairPrompt(
+  prompts: PromptRegistry,
+  planningPrompt: string,
+  response: unknown,
+  error: string,
+): RenderedPrompt {
+  const previous = typeof response === 'string' ? response : JSON.stringify(response);
+  return prompts.render('planRepair', {
+    planningPrompt,
+    response: previous.slice(0, MAX_OBSERVATION_LENGTH),
+    errors: error,
+  });
+}
+
+/**
+ * Lists a task's acceptance criteria and likely files for prompts, when planning gave any
+ */
+function describeTaskDetails(task: Task): string {
+  const criteria: string[] = task.rawAcceptanceCriteria ? JSON.parse(task.rawAcceptanceCriteria) : [];
+  const files: string[] = task.rawLikelyFiles ? JSON.parse(task.rawLikelyFiles) : [];
+  return [
+    criteria.length > 0 ? `Acceptance criteria:\n${criteria.map((c) => `- ${c}`).join('\n')}\n` : '',
+    files.length > 0 ? `Likely files: ${files.join(', ')}\n` : '',
+  ].join('');
+}
+
+/**
+ * Builds the prompt asking the model whether a task's workspace diff meets the task
+ */
+function buildCriteriaReviewPrompt(prompts: PromptRegistry, task: Task, diff: string): RenderedPrompt {
+  return prompts.render('review', {
+    task: task.description,
+    details: describeTaskDetails(task),
+    diff: diff.slice(0, MAX_REVIEWED_DIFF_LENGTH) || 'No changes',
+  });
+}
+
+/**
+ * Describes a failed verification for the model, with the output of each failed check
+ */
+function describeVerificationFailure(verification: VerificationResult): string {
+  const checks = verification.checks
+    .filter((check) => !check.passed)
+    .map((check) => `Check failed: ${check.command}\n${check.output}`);
+  const criteria = verification.criteriaMet ? [] : [`Acceptance criteria not met: ${verification.feedback}`];
+  return ['Verification failed.', ...checks, ...criteria].join('\n');
+}
+
+/**
+ * Builds the prompt asking the model to revise the remaining tasks after a task failed
+ */
+function buildReplanPrompt(prompts: PromptRegistry, plan: Task[], task: Task, failure: string): RenderedPrompt {
+  const planText = plan.map((t) => `- [${t.id}] (${t.status}) ${t.description}`).join('\n');
+
+  return prompts.render('replan', { taskId: task.id, task: task.description, failure, plan: planText });
+}
+
+/**
+ * Builds the Reflect prompt asking the model to assess the outcome of an action
+ */
+function buildReflectPrompt(
+  prompts: PromptRegistry,
+  task: Task,
+  plan: Task[],
+  reason: string,
+  action: ReactAction,
+  observation: ReactHistoryItem['observation'],
+): RenderedPrompt {
+  const actionText = action.toolCalls.length > 0 ? JSON.stringify(action.toolCalls) : action.content || 'No action';
+  const planText = plan.map((t) => `- [${t.id}] (${t.status}) ${t.description}`).join('\n');
+
+  return prompts.render('reflect', {
+    task: task.description,
+    plan: planText,
+    reason,
+    action: actionText,
+    observation: JSON.stringify(observation).slice(0, MAX_OBSERVATION_LENGTH),
+  });
+}
+
+/**
+ * Builds the prompt asking the model to fold history items into the task's running summary
+ */
+function buildCompactionPrompt(
+  prompts: PromptRegistry,
+  task: Task,
+  summary: HistorySummary | undefined,
+  items: ReactHistoryItem[],
+  offset: number,
+): RenderedPrompt {
+  const steps = items
+    .map((item, index) => {
+      const tools = item.action.toolCalls.map((t) => `${t.name}(${JSON.stringify(t.arguments ?? {})})`).join(', ');
+      const results = JSON.stringify(item.observation).slice(0, MAX_COMPACTED_OBSERVATION_LENGTH);
+      return `${offset + index + 1}. Reason: ${item.reason}
+   Tools: ${tools || 'none'}
+   Results: ${results}
+   Reflection: ${item.reflection.summary}`;
+    })
+    .join('\n');
+
+  return prompts.render('compact', {
+    task: task.description,
+    summary: summary?.summary ?? 'None',
+    range: `${offset + 1}-${offset + items.length}`,
+    steps,
+  });
+}
+
+/**
+ * Builds the Act transcript for a task from its ReAct history
+ * Each history item since the last summary becomes an assistant turn followed by one tool turn per tool call,
+ * and the current reasoning is appended as the final user turn
+ */
+function buildActTranscript(
+  prompts: PromptRegistry,
+  task: Task,
+  reactHistory: ReactHistoryItem[],
+  reason: string,
+  taskContext: string,
+  summary: HistorySummary | undefined,
+): { messages: ChatMessage[]; versions: PromptVersions } {
+  // Older items are represented by the summary to avoid token limits and 503 errors
+  const recentHistory = reactHistory.slice(summary?.compactedSteps ?? 0);
+
+  const intro = prompts.render('act', {
+    context: taskContext,
+    task: task.description,
+    summary: summarizeOlderHistory(summary),
+  });
+  const messages: ChatMessage[] = [{ role: 'user', content: intro.text }];
+
+  for (const item of recentHistory) {
+    messages.push({ role: 'assistant', content: item.action.content, toolCalls: item.action.toolCalls });
+
+    for (const toolCall of item.action.toolCalls) {
+      const toolResult = item.observation.find((r) => r.toolCallId === toolCall.id);
+      messages.push({
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+        content: JSON.stringify(toolResult?.result ?? null),
+      });
+    }
+
+    messages.push({ role: 'user', content: `Reflection: ${item.reflection.summary}` });
+  }
+
+  const step = prompts.render('actStep', { reason });
+  messages.push({ role: 'user', content: step.text });
+
+  return { messages, versions: { act: intro.version, actStep: step.version } };
+}
+
+/**
+ * Appends a plan snapshot to the version history, with the versions of the prompts that produced it
+ */
+function recordPlanVersion(
+  versions: PlanVersion[],
+  plan: Task[],
+  feedback?: string,
+  promptVersions?: PromptVersions,
+): PlanVersion[] {
+  const version = versions.length > 0 ? versions[versions.length - 1].version + 1 : 1;
+  return [...versions, { version, createdAt: new Date().toISOString(), feedback, plan, promptVersions }];
+}
+
+/**
+ * Validates a raw reflection, falling back to an inconclusive reflection when invalid
+ */
+function parseReflection(raw: unknown): Reflection {
+  const parsed = ReflectionSchema.safeParse(raw);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  return {
+    summary: `Reflection could not be validated: ${parsed.error.message}`,
+    is_task_complete: false,
+    is_task_failed: false,
+  };
+}
+
+/**
+ * Agent service interface
+ */
+export interface AgentService {
+  startPlanning(options: PlanningOptions): Promise<Task[]>;
+  refinePlan(options: RefinementOptions): Promise<Task[]>;
+  revertPlan(options: RevertOptions): Promise<Task[]>;
+  listPlanVersions(sessionId: string): Promise<PlanVersion[]>;
+  forkSession(sessionId: string, options?: ForkOptions): Promise<Session>;
+  getSessionLineage(sessionId: string): Promise<SessionLineage>;
+  confirmPlan(options: ConfirmationOptions): Promise<Task[]>;
+  executePlan(options: ExecutionOptions): Promise<ExecutionResult>;
+  resumeExecution(sessionId: string): Promise<ExecutionResult>;
+  cancelExecution(sessionId: string): Promise<Session>;
+  pauseExecution(sessionId: string): Promise<Session>;
+  approveToolCalls(options: ApprovalDecisionOptions): Promise<ExecutionResult>;
+  denyToolCalls(options: ApprovalDecisionOptions): Promise<ExecutionResult>;
+  subscribe(listener: AgentEventListener): () => void;
+}
+
+/**
+ * Dependencies for the agent service
+ */
+export interface AgentDependencies {
+  config?: ApplicationConfig;
+  llmRunner: LLMRunnerService;
+  githubService: GitHubService;
+  dockerService: DockerService;
+  databaseService: DatabaseService;
+  shellCommand?: (args: { command: string }) => Promise<unknown>;
+  webFetch?: (args: { url: string }) => Promise<unknown>;
+  googleSearch?: (args: { query: string }) => Promise<unknown>;
+  approvalRules?: ApprovalRule[];
+  compactionThresholdTokens?: number;
+  promptRegistry?: PromptRegistry;
+}
+
+/**
+ * Creates an Agent service
+ * @param deps - Dependencies for the agent service
+ * @returns An AgentService instance
+ */
+export function createAgentService(deps: AgentDependencies): AgentService {
+  const {
+    config,
+    llmRunner,
+    githubService,
+    dockerService,
+    databaseService,
+    shellCommand = async (): Promise<unknown> => {
+      throw new Error('shellCommand not provided');
+    },
+    webFetch = async (): Promise<unknown> => {
+      throw new Error('webFetch not provided');
+    },
+    googleSearch = async (): Promise<unknown> => {
+      throw new Error('googleSearch not provided');
+    },
+    approvalRules = DEFAULT_APPROVAL_RULES,
+    compactionThresholdTokens = DEFAULT_COMPACTION_THRESHOLD_TOKENS,
+    promptRegistry: prompts = createPromptRegistry(),
+  } = deps;
+
+  // Create tools service with dependencies
+  const toolsService = createLLMToolsService({
+    githubService,
+    dockerService,
+    databaseService,
+    shellCommand,
+    webFetch,
+    googleSearch,
+  });
+
+  // Abort controllers of executions running in this process, by session ID
+  const runningExecutions = new Map<string, AbortController>();
+
+  // Check if injected llmRunner already has tool support (for tests)
+  let llmRunnerWithTools: LLMRunnerService;
+  if ('chatWithTools' in llmRunner && 'executeToolCalls' in llmRunner) {
+    llmRunnerWithTools = llmRunner as LLMRunnerService;
+  } else if ('getConfig' in llmRunner) {
+    const llmConfig = (llmRunner as LLMRunnerService).getConfig();
+    llmRunnerWithTools = createLLMRunnerWithConfig({
+      ...llmConfig,
+      tools: toolsService,
+    });
+  } else {
+    throw new Error('Invalid LLM runner');
+  }
+
+  const events = createAgentEventEmitter();
+
+  // Pending usage writes by session ID, chained so concurrent tasks do not overwrite each other's totals
+  const usageWrites = new Map<string, Promise<void>>();
+
+  /**
+   * Updates a session, announcing status changes to subscribers
+   */
+  async function updateSession(sessionId: string, data: Partial<Session>): Promise<Session> {
+    const session = await databaseService.updateSession(sessionId, data);
+    if (data.status) {
+      events.emit({ type: 'session_status', sessionId, status: data.status });
+    }
+    return session;
+  }
+
+  /**
+   * Adds an LLM call's usage to the session's persisted totals
+   */
+  async function recordSessionUsage(sessionId: string, usage: LLMUsage, costUsd: number): Promise<void> {
+    const write = (usageWrites.get(sessionId) ?? Promise.resolve()).then(async () => {
+      const session = await databaseService.retrieveSession(sessionId);
+      const totals = addUsage(session?.rawUsage ? JSON.parse(session.rawUsage) : EMPTY_USAGE, usage, costUsd);
+      await databaseService.updateSession(sessionId, { rawUsage: JSON.stringify(totals) });
+    });
+    const settled = write.catch(() => undefined);
+    usageWrites.set(sessionId, settled);
+    await write.finally(() => {
+      if (usageWrites.get(sessionId) === settled) {
+        usageWrites.delete(sessionId);
+      }
+    });
+  }
+
+  /**
+   * Runs an LLM call, announcing the request and the response with its usage to subscribers
+   * Usage is estimated from the prompt and response when the provider reports none, then priced and added to the session
+   */
+  async function traceLLMCall<T>(
+    scope: EventScope,
+    phase: LLMPhase,
+    prompt: string | ChatMessage[],
+    call: () => Promise<T>,
+    reportedUsage?: (response: T) => LLMUsage | undefined,
+  ): Promise<{ response: T; usage: LLMUsage; costUsd: number }> {
+    events.emit({ type: 'llm_request', ...scope, phase, prompt });
+    const response = await call();
+    const reported = reportedUsage?.(response);
+    const usage = reported?.totalTokens !== undefined ? reported : estimateUsage(prompt, response);
+    const costUsd = estimateCost(llmRunnerWithTools.getConfig().model, usage);
+    events.emit({ type: 'llm_response', ...scope, phase, content: response, usage });
+    await recordSessionUsage(scope.sessionId, usage, costUsd);
+    return { response, usage, costUsd };
+  }
+
+  /**
+   * Executes tool calls, announcing each call and its result to subscribers
+   * delegate_subtask calls of a task are run here as subtasks of it, since the tools service does not know the task
+   * In a dry run, mutating calls are not run and get a simulated result
+   */
+  async function executeToolCalls(
+    scope: EventScope,
+    toolCalls: ToolCall[],
+    signal: AbortSignal,
+    dryRun: boolean,
+    parent?: SubtaskParent,
+  ): Promise<Array<{ toolCallId: string; result: unknown; simulated?: boolean }>> {
+    for (const toolCall of toolCalls) {
+      events.emit({ type: 'tool_call', ...scope, toolCall });
+    }
+
+    const simulated = dryRun ? toolCalls.filter(isMutatingToolCall) : [];
+    const delegated = parent ? toolCalls.filter((toolCall) => toolCall.name === 'delegate_subtask') : [];
+    const direct = toolCalls.filter((toolCall) => !delegated.includes(toolCall) && !simulated.includes(toolCall));
+    const results: Array<{ toolCallId: string; result: unknown; simulated?: boolean }> =
+      direct.length > 0 ? await llmRunnerWithTools.executeToolCalls!(direct, signal) : [];
+    for (const toolCall of simulated) {
+      results.push({ toolCallId: toolCall.id, result: simulateToolResult(toolCall), simulated: true });
+    }
+    for (const toolCall of delegated) {
+      const result = await runSubtask(parent!, toolCall).catch((error: unknown) => {
+        if (signal.aborted) {
+          throw error;
+        }
+        return { error: error instanceof Error ? error.message : String(error) };
+      });
+      results.push({ toolCallId: toolCall.id, result });
+    }
+
+    for (const { toolCallId, result, simulated: isSimulated } of results) {
+      events.emit({ type: 'tool_result', ...scope, toolCallId, result, ...(isSimulated ? { simulated: true } : {}) });
+    }
+    return toolCalls.map(
+      (toolCall) => results.find((r) => r.toolCallId === toolCall.id) ?? { toolCallId: toolCall.id, result: undefined },
+    );
+  }
+
+  /**
+   * Stores the progress of a subtask run on its Subtask row
+   */
+  async function recordSubtask(run: SubtaskRun): Promise<void> {
+    await databaseService.updateSubtask(run.id, {
+      status: run.status,
+      rawReactHistory: JSON.stringify(run.reactHistory),
+      result: run.result ?? null,
+    });
+  }
+
+  /**
+   * Runs a delegated subtask as a nested Reason / Act / Observe-Reflect loop with its own budget and tools
+   * Calls to other tools and calls that need approval are refused with an error observation
+   * The run is recorded on the delegating task after every step; the task only receives its condensed result
+   */
+  async function runSubtask(parent: SubtaskParent, toolCall: ToolCall): Promise<SubtaskResult> {
+    const parsed = DelegateSubtaskSchema.safeParse(toolCall.arguments);
+    if (!parsed.success) {
+      throw new Error(`Invalid delegate_subtask arguments: ${parsed.error.message}`);
+    }
+    const { goal, tools, maxSteps, maxTokens } = parsed.data;
+
+    const available = toolsService
+      .getToolDefinitions()
+      .map((definition) => definition.name)
+      .filter((name) => name !== 'delegate_subtask');
+    const unavailable = (tools ?? []).filter((name) => !available.includes(name));
+    if (unavailable.length > 0) {
+      throw new Error(`Tools not available to subtasks: ${unavailable.join(', ')}`);
+    }
+
+    const { session, task, control } = parent;
+    const runTools = tools ?? available;
+    const budget: TaskBudget = { maxSteps: maxSteps ?? DEFAULT_SUBTASK_BUDGET.maxSteps, maxTokens };
+    const record = await databaseService.insertSubtask(task.id, goal, {
+      rawTools: JSON.stringify(runTools),
+      rawBudget: JSON.stringify(budget),
+    });
+    const run: SubtaskRun = { id: record.id, goal, tools: runTools, budget, status: 'IN_PROGRESS', reactHistory: [] };
+
+    // The subtask reuses the task prompts with its goal in place of the task description
+    const subtask: Task = { ...task, description: goal };
+    const subtaskContext = `${parent.taskContext}This is a subtask of: ${task.description}
+Available tools: ${run.tools.join(', ')}
+
+`;
+    const scope: EventScope = { sessionId: session.id, taskId: task.id };
+    const { signal, checkpoint } = control;
+
+    try {
+      while (run.status === 'IN_PROGRESS') {
+        const startedAt = Date.now();
+
+        await checkpoint();
+        const reasonPrompt = buildReasonPrompt(prompts, subtask, run.reactHistory, subtaskContext, undefined);
+        const reasonCall = await traceLLMCall(scope, 'reason', reasonPrompt.text, () =>
+          llmRunnerWithTools.generateContent(reasonPrompt.text, signal),
+        );
+        const reason = reasonCall.response;
+
+        await checkpoint();
+        const transcript = buildActTranscript(prompts, subtask, run.reactHistory, reason, subtaskContext, undefined);
+        const actCall = await traceLLMCall(
+          scope,
+          'act',
+          transcript.messages,
+          () => llmRunnerWithTools.chatWithTools!(transcript.messages, signal),
+          (r) => r.usage,
+        );
+        const action: ReactAction = { content: actCall.response.content, toolCalls: actCall.response.toolCalls || [] };
+
+        await checkpoint();
+        const permitted = action.toolCalls.filter((t) => run.tools.includes(t.name) && !needsApproval(session, t));
+        const results = permitted.length > 0 ? await executeToolCalls(scope, permitted, signal, !!session.dryRun) : [];
+        const observation = action.toolCalls.map(
+          (t) =>
+            results.find((r) => r.toolCallId === t.id) ?? {
+              toolCallId: t.id,
+              result: {
+                error: run.tools.includes(t.name)
+                  ? `Tool ${t.name} needs approval and cannot be used by a subtask`
+                  : `Tool ${t.name} is not available to this subtask`,
+              },
+            },
+        );
+
+        // Plan modifications are left to the delegating task, so the subtask reflects without the plan
+        await checkpoint();
+        const { reflection, usage, costUsd, version } = await reflect(subtask, [], reason, action, observation, signal);
+        const historyItem: ReactHistoryItem = {
+          reason,
+          action,
+          observation,
+          reflection: { ...reflection, plan_modifications: undefined },
+          promptVersions: { reason: reasonPrompt.version, ...transcript.versions, reflect: version },
+          usage: {
+            tokens: (reasonCall.usage.totalTokens ?? 0) + (actCall.usage.totalTokens ?? 0) + (usage.totalTokens ?? 0),
+            durationMs: Date.now() - startedAt,
+            costUsd: reasonCall.costUsd + actCall.costUsd + costUsd,
+          },
+        };
+        run.reactHistory.push(historyItem);
+
+        if (reflection.is_task_complete) {
+          run.status = 'COMPLETED';
+          run.result = reflection.summary;
+        } else if (reflection.is_task_failed) {
+          run.status = 'FAILED';
+          run.result = reflection.failure_reason ?? reflection.summary;
+        } else {
+          historyItem.budgetExhausted = findExhaustedBudget(run.reactHistory, run.budget);
+          if (historyItem.budgetExhausted) {
+            run.status = 'BUDGET_EXCEEDED';
+            run.result = `Budget of ${historyItem.budgetExhausted.limit} ${historyItem.budgetExhausted.budget} used up. ${reflection.summary}`;
+          }
+        }
+        await recordSubtask(run);
+      }
+    } finally {
+      // A run stopped by a pause, cancel, deadline or error is closed, so its row does not stay IN_PROGRESS
+      if (run.status === 'IN_PROGRESS') {
+        run.status = 'FAILED';
+        run.result = signal.aborted ? `Stopped before finishing: ${String(signal.reason)}` : 'Stopped by an error';
+        await recordSubtask(run);
+      }
+    }
+
+    return {
+      subtaskId: run.id,
+      status: run.status,
+      summary: run.result ?? '',
+      steps: run.reactHistory.length,
+      tokens: run.reactHistory.reduce((sum, item) => sum + (item.usage?.tokens ?? 0), 0),
+    };
+  }
+
+  /**
+   * Installs and configures git in a container, then clones the repository into the workspace path
+   */
+  async function cloneRepository(containerId: string, repoUrl: string): Promise<void> {
+    await dockerService.executeScript({
+      containerId,
+      script:
+        'command -v git >/dev/null 2>&1 || (apt-get update -qq && apt-get install -y -qq git ca-certificates) >/dev/null 2>&1',
+    });
+    await githubService.configureGitClientInContainer(
+      containerId,
+      parseRepositoryOwner(repoUrl),
+      config?.githubToken ?? '',
+    );
+
+    const cloneResult = await dockerService.executeScript({
+      containerId,
+      script: `git clone --depth 1 ${shellQuote(repoUrl)} ${WORKSPACE_PATH} >/dev/null 2>&1 && echo "cloned"`,
+    });
+    if (!cloneResult.ok || !cloneResult.value.includes('cloned')) {
+      throw new Error(`Failed to clone ${repoUrl}: ${cloneResult.ok ? 'git clone failed' : cloneResult.error.message}`);
+    }
+  }
+
+  /**
+   * Clones the repository into a throwaway container and summarizes it for planning
+   * Includes the file tree and key manifests, each truncated to a fixed budget
+   */
+  async function gatherRepositoryContext(
+    sessionId: string,
+    repoUrl: string,
+  ): Promise<{ summary: string; agentContext?: AgentContext }> {
+    const containerResult = await dockerService.createContainer({ groupId: sessionId });
+    if (!containerResult.ok) {
+      throw new Error(`Failed to create planning container: ${containerResult.error.message}`);
+    }
+    const containerId = containerResult.value.id;
+
+    try {
+      await cloneRepository(containerId, repoUrl);
+
+      const ingestResult = await dockerService.ingestDirectory({ containerId, path: WORKSPACE_PATH });
+      if (!ingestResult.ok) {
+        throw new Error(`Failed to ingest repository: ${ingestResult.error.message}`);
+      }
+
+      const files = summarizeFileTree(ingestResult.value, WORKSPACE_PATH);
+      let fileTree = '';
+      let listed = 0;
+      for (const file of files) {
+        if (fileTree.length + file.length + 1 > MAX_FILE_TREE_LENGTH) {
+          break;
+        }
+        fileTree += `${file}\n`;
+        listed++;
+      }
+      if (listed < files.length) {
+        fileTree += `... (${files.length - listed} more files)\n`;
+      }
+
+      const manifests = KEY_MANIFESTS.filter((name) => files.includes(name));
+      let manifestText = '';
+      if (manifests.length > 0) {
+        const manifestResult = await dockerService.executeScript({
+          containerId,
+          script: manifests
+            .map((name) => `echo "=== ${name} ==="; head -c ${MAX_MANIFEST_LENGTH} ${WORKSPACE_PATH}/${name}; echo`)
+            .join('; '),
+        });
+        if (manifestResult.ok) {
+          manifestText = manifestResult.value;
+        }
+      }
+
+      let agentContext: AgentContext | undefined;
+      const contextFile = AGENT_CONTEXT_FILES.find((name) => files.includes(name));
+      if (contextFile) {
+        const contextResult = await dockerService.executeScript({
+          containerId,
+          script: `head -c ${MAX_CONTEXT_FILE_LENGTH} ${WORKSPACE_PATH}/${contextFile}`,
+        });
+        if (contextResult.ok) {
+          agentContext = parseAgentContext(contextFile, contextResult.value);
+        }
+      }
+
+      return {
+        summary: `Files:\n${fileTree}${manifestText ? `\nKey files:\n${manifestText}` : ''}`,
+        agentContext,
+      };
+    } finally {
+      await dockerService.destroyContainer(containerId);
+    }
+  }
+
+  /**
+   * Produces a validated reflection on the outcome of an action
+   */
+  async function reflect(
+    task: Task,
+    plan: Task[],
+    reason: string,
+    action: ReactAction,
+    observation: ReactHistoryItem['observation'],
+    signal: AbortSignal,
+  ): Promise<{ reflection: Reflection; usage: LLMUsage; costUsd: number; version: string }> {
+    const { text: prompt, version } = buildReflectPrompt(prompts, task, plan, reason, action, observation);
+    const scope: EventScope = { sessionId: task.sessionId, taskId: task.id };
+
+    if (llmRunnerWithTools.generateJSON) {
+      const { response, usage, costUsd } = await traceLLMCall(scope, 'reflect', prompt, () =>
+        llmRunnerWithTools.generateJSON!(prompt, REFLECTION_RESPONSE_SCHEMA, signal),
+      );
+      return { reflection: parseReflection(response), usage, costUsd, version };
+    }
+
+    const { response, usage, costUsd } = await traceLLMCall(scope, 'reflect', prompt, () =>
+      llmRunnerWithTools.generateContent(prompt, signal),
+    );
+    return { reflection: parseReflection(parseJsonResponse(response) ?? null), usage, costUsd, version };
+  }
+
+  /**
+   * Applies a refinement diff to the Task rows in place, keeping the IDs of kept and edited tasks
+   * Tasks the diff does not mention are kept after the listed ones
+   */
+  async function applyPlanDiff(sessionId: string, oldPlan: Task[], diff: PlanDiffOperation[]): Promise<Task[]> {
+    const remaining = new Map(oldPlan.map((t) => [t.id, t]));
+    const deleted: Task[] = [];
+    const sequence: Array<{ task?: Task; description: string }> = [];
+
+    // Validate every reference before touching the database
+    for (const operation of diff) {
+      if (operation.op === 'insert') {
+        sequence.push({ description: operation.description });
+        continue;
+      }
+
+      const task = remaining.get(operation.taskId);
+      if (!task) {
+        throw new Error(`Refinement references unknown or repeated task ${operation.taskId}`);
+      }
+      remaining.delete(operation.taskId);
+
+      if (operation.op === 'delete') {
+        deleted.push(task);
+      } else {
+        sequence.push({ task, description: operation.op === 'edit' ? operation.description : task.description });
+      }
+    }
+    sequence.push(...Array.from(remaining.values(), (task) => ({ task, description: task.description })));
+
+    for (const task of deleted) {
+      await databaseService.deleteTask(task.id);
+    }
+
+    const newPlan: Task[] = [];
+    for (const [order, entry] of sequence.entries()) {
+      if (!entry.task) {
+        newPlan.push(await databaseService.insertTask(sessionId, entry.description, order));
+      } else if (entry.task.order !== order || entry.task.description !== entry.description) {
+        newPlan.push(await databaseService.updateTask(entry.task.id, { description: entry.description, order }));
+      } else {
+        newPlan.push(entry.task);
+      }
+    }
+
+    return newPlan;
+  }
+
+  /**
+   * Applies plan modifications to the Task rows and the in-memory plan, then persists Session.rawPlan
+   * Modifications that reference unknown or finished tasks are recorded as not applied
+   */
+  async function applyPlanModifications(
+    session: Session,
+    plan: Task[],
+    modifications: PlanModification[],
+  ): Promise<AppliedPlanModification[]> {
+    const applied: AppliedPlanModification[] = [];
+
+    for (const modification of modifications) {
+      if (modification.type === 'add') {
+        const after = modification.afterTaskId ? plan.find((t) => t.id === modification.afterTaskId) : undefined;
+        if (modification.afterTaskId && !after) {
+          applied.push({ modification, applied: false, error: `Task ${modification.afterTaskId} not found` });
+          continue;
+        }
+
+        let order: number | undefined;
+        if (after) {
+          // Shift later tasks down to make room for the new one
+          order = after.order + 1;
+          for (const t of plan.filter((t) => t.order >= order!)) {
+            await databaseService.updateTask(t.id, { order: t.order + 1 });
+            t.order += 1;
+          }
+        }
+
+        const newTask = await databaseService.insertTask(session.id, modification.description, order);
+        plan.push(newTask);
+        plan.sort((a, b) => a.order - b.order);
+        applied.push({ modification, applied: true, taskId: newTask.id });
+        continue;
+      }
+
+      const target = plan.find((t) => t.id === modification.taskId);
+      if (!target) {
+        applied.push({ modification, applied: false, error: `Task ${modification.taskId} not found` });
+        continue;
+      }
+      if (FINISHED_TASK_STATUSES.includes(target.status)) {
+        applied.push({ modification, applied: false, taskId: target.id, error: `Task is already ${target.status}` });
+        continue;
+      }
+
+      if (modification.type === 'edit') {
+        await databaseService.updateTask(target.id, { description: modification.description });
+        target.description = modification.description;
+      } else {
+        await databaseService.updateTask(target.id, { status: 'OBSOLETE' });
+        target.status = 'OBSOLETE';
+      }
+      applied.push({ modification, applied: true, taskId: target.id });
+    }
+
+    await updateSession(session.id, { rawPlan: JSON.stringify(plan) });
+    return applied;
+  }
+
+  /**
+   * Returns whether a tool call is held for approval; calls a dry run only simulates are not
+   */
+  function needsApproval(session: Session, toolCall: ToolCall): boolean {
+    return requiresApproval(approvalRules, toolCall) && !(session.dryRun && isMutatingToolCall(toolCall));
+  }
+
+  /**
+   * Executes a step's tool calls, feeding denied ones back to the model as error observations
+   * Undecided gated calls become approval requests; the step is kept on the task and the run stops until they are decided
+   */
+  async function executeGatedToolCalls(
+    session: Session,
+    task: Task,
+    step: PendingStep,
+    control: ExecutionControl,
+    taskContext: string,
+  ): Promise<Array<{ toolCallId: string; result: unknown }>> {
+    const scope: EventScope = { sessionId: session.id, taskId: task.id };
+    const parent: SubtaskParent = { session, task, control, taskContext };
+    const { toolCalls } = step.action;
+    const gated = new Set(toolCalls.filter((toolCall) => needsApproval(session, toolCall)).map((t) => t.id));
+    if (gated.size === 0) {
+      return executeToolCalls(scope, toolCalls, control.signal, !!session.dryRun, parent);
+    }
+
+    const current = await databaseService.retrieveSession(session.id);
+    const requests: ApprovalRequest[] = current?.rawApprovalRequests ? JSON.parse(current.rawApprovalRequests) : [];
+    const decisions = new Map(
+      requests.filter((r) => r.taskId === task.id && r.decision).map((r) => [r.toolCall.id, r] as const),
+    );
+
+    const undecided = toolCalls.filter((toolCall) => gated.has(toolCall.id) && !decisions.has(toolCall.id));
+    if (undecided.length > 0) {
+      await databaseService.updateTask(task.id, { rawPendingStep: JSON.stringify(step) });
+      task.rawPendingStep = JSON.stringify(step);
+      await databaseService.updateSession(session.id, {
+        rawApprovalRequests: JSON.stringify([
+          ...requests.filter((r) => r.taskId !== task.id || decisions.has(r.toolCall.id)),
+          ...undecided.map((toolCall): ApprovalRequest => ({ taskId: task.id, toolCall })),
+        ]),
+      });
+      events.emit({ type: 'approval_requested', sessionId: session.id, taskId: task.id, toolCalls: undecided });
+      control.stop('APPROVAL');
+    }
+
+    const allowed = toolCalls.filter((toolCall) => decisions.get(toolCall.id)?.decision !== 'DENIED');
+    const results =
+      allowed.length > 0 ? await executeToolCalls(scope, allowed, control.signal, !!session.dryRun, parent) : [];
+
+    await databaseService.updateSession(session.id, {
+      rawApprovalRequests: JSON.stringify(requests.filter((r) => r.taskId !== task.id)),
+    });
+    await databaseService.updateTask(task.id, { rawPendingStep: null });
+    task.rawPendingStep = null;
+
+    return toolCalls.map((toolCall) => {
+      const decision = decisions.get(toolCall.id);
+      if (decision?.decision === 'DENIED') {
+        return {
+          toolCallId: toolCall.id,
+          result: { error: `Tool call denied by user${decision.note ? `: ${decision.note}` : ''}` },
+        };
+      }
+      return results.find((r) => r.toolCallId === toolCall.id) ?? { toolCallId: toolCall.id, result: undefined };
+    });
+  }
+
+  /**
+   * Runs a check command in the workspace of a container, returning whether it passed with the end of its output
+   */
+  async function runWorkspaceCheck(containerId: string, command: string): Promise<VerificationCheck> {
+    const checkResult = await dockerService.executeScript({
+      containerId,
+      script: `cd ${WORKSPACE_PATH}
+if (${command}) > /tmp/verification.log 2>&1; then echo "check passed"; else echo "check failed"; fi
+tail -c ${MAX_CHECK_OUTPUT_LENGTH} /tmp/verification.log`,
+    });
+    if (!checkResult.ok) {
+      throw new Error(`Failed to run check ${command}: ${checkResult.error.message}`);
+    }
+    const [marker, ...output] = checkResult.value.split('\n');
+    return { command, passed: marker.trim() === 'check passed', output: output.join('\n').trim() };
+  }
+
+  /**
+   * Runs the repository's declared test commands in the task's workspace container
+   */
+  async function runTestCommands(
+    containerId: string,
+    commands: string[],
+    signal: AbortSignal,
+  ): Promise<TestCommandResult[]> {
+    const results: TestCommandResult[] = [];
+    for (const command of commands) {
+      signal.throwIfAborted();
+      results.push(await runWorkspaceCheck(containerId, command));
+    }
+    return results;
+  }
+
+  /**
+   * Returns the verification commands: the configured ones, else the build and test commands of the repository
+   * context file, else those detected from the repository's manifests
+   */
+  async function resolveVerificationCommands(
+    containerId: string,
+    policy: VerificationPolicy,
+    agentContext: AgentContext | undefined,
+  ): Promise<string[]> {
+    if (policy.commands && policy.commands.length > 0) {
+      return policy.commands;
+    }
+    if (agentContext && agentContext.buildCommands.length + agentContext.testCommands.length > 0) {
+      return [...agentContext.buildCommands, ...agentContext.testCommands];
+    }
+
+    const detectResult = await dockerService.executeScript({
+      containerId,
+      script: [
+        `cd ${WORKSPACE_PATH}`,
+        ...DETECTED_CHECKS.map(
+          ({ file, pattern, command }) =>
+            `if [ -f ${file} ]${pattern ? ` && grep -q '${pattern}' ${file}` : ''}; then echo "check:${command}"; fi`,
+        ),
+      ].join('\n'),
+    });
+    if (!detectResult.ok) {
+      throw new Error(`Failed to detect verification checks: ${detectResult.error.message}`);
+    }
+    return [...detectResult.value.matchAll(/^check:(.+)$/gm)].map((match) => match[1].trim());
+  }
+
+  /**
+   * Records the workspace state a task starts from, including uncommitted changes of earlier tasks, as a ref
+   * An existing ref is kept, so a resumed or retried task is still reviewed against the state it first started from
+   */
+  async function recordTaskBase(containerId: string, taskId: string): Promise<void> {
+    const ref = `${TASK_BASE_REF}/${taskId}`;
+    const baseResult = await dockerService.executeScript({
+      containerId,
+      script: [
+        'set -e',
+        `cd ${WORKSPACE_PATH}`,
+        `if ! git rev-parse -q --verify ${ref} >/dev/null; then`,
+        '  export GIT_INDEX_FILE=/tmp/agent-base.index',
+        '  rm -f "$GIT_INDEX_FILE"',
+        '  git add -A',
+        `  git update-ref ${ref} "$(git commit-tree "$(git write-tree)" -p HEAD -m 'Task base')"`,
+        'fi',
+        'echo "recorded"',
+      ].join('\n'),
+    });
+    if (!baseResult.ok || !baseResult.value.includes('recorded')) {
+      throw new Error(
+        `Failed to record the task's base state: ${baseResult.ok ? baseResult.value : baseResult.error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Restores the session workspace to the state a failed task started from, dropping the edits of its attempt
+   * The session branch is left where it is, so only the working tree and the untracked files change
+   */
+  async function resetToTaskBase(containerId: string, taskId: string): Promise<void> {
+    const ref = `${TASK_BASE_REF}/${taskId}`;
+    const resetResult = await dockerService.executeScript({
+      containerId,
+      script: [
+        'set -e',
+        `cd ${WORKSPACE_PATH}`,
+        `git read-tree -u --reset ${ref}`,
+        'git clean -fdq',
+        'git reset -q',
+        'echo "reset"',
+      ].join('\n'),
+    });
+    if (!resetResult.ok || !resetResult.value.includes('reset')) {
+      throw new Error(
+        `Failed to reset the workspace for task ${taskId}: ${resetResult.ok ? resetResult.value : resetResult.error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Verifies a task that reported completion: runs the checks in its workspace container,
+   * then has the LLM review the workspace diff against the task
+   */
+  async function verifyTask(
+    task: Task,
+    containerId: string,
+    policy: VerificationPolicy,
+    agentContext: AgentContext | undefined,
+    signal: AbortSignal,
+  ): Promise<{ verification: VerificationResult; tokens: number; costUsd: number; version: string }> {
+    const checks: VerificationCheck[] = [];
+    for (const command of await resolveVerificationCommands(containerId, policy, agentContext)) {
+      signal.throwIfAborted();
+      checks.push(await runWorkspaceCheck(containerId, command));
+    }
+
+    signal.throwIfAborted();
+    const diffResult = await dockerService.executeScript({
+      containerId,
+      // Against the task's base, since tasks sharing the session workspace do not commit their changes
+      script: `cd ${WORKSPACE_PATH} && git add -N . && git diff ${taskBaseRevision(task.id)}`,
+    });
+    if (!diffResult.ok) {
+      throw new Error(`Failed to collect the workspace diff: ${diffResult.error.message}`);
+    }
+
+    const { text: prompt, version } = buildCriteriaReviewPrompt(prompts, task, diffResult.value);
+    const { response, usage, costUsd } = await traceLLMCall(
+      { sessionId: task.sessionId, taskId: task.id },
+      'verify',
+      prompt,
+      async () =>
+        llmRunnerWithTools.generateJSON
+          ? llmRunnerWithTools.generateJSON(prompt, CRITERIA_REVIEW_RESPONSE_SCHEMA, signal)
+          : llmRunnerWithTools.generateContent(prompt, signal),
+    );
+    let review = CriteriaReviewSchema.safeParse(response);
+    if (!review.success && typeof response === 'string') {
+      const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/) ?? response.match(/\{[\s\S]*\}/);
+      try {
+        review = CriteriaReviewSchema.safeParse(JSON.parse(jsonMatch ? (jsonMatch[1] ?? jsonMatch[0]) : response));
+      } catch {
+        // Left as the failed validation of the raw response
+      }
+    }
+    const criteriaMet = review.success && review.data.criteria_met;
+    const feedback = review.success ? review.data.feedback : `Review could not be validated: ${review.error.message}`;
+
+    return {
+      verification: { passed: criteriaMet && checks.every((c) => c.passed), checks, criteriaMet, feedback },
+      tokens: usage.totalTokens ?? 0,
+      costUsd,
+      version,
+    };
+  }
+
+  /**
+   * Folds a task's older steps into its summary with the LLM once the history replayed since the last summary
+   * exceeds the token threshold, keeping the last MAX_HISTORY_ITEMS steps verbatim
+   * The summary is persisted on the task, so resumed executions reuse it
+   */
+  async function compactHistory(
+    task: Task,
+    reactHistory: ReactHistoryItem[],
+    summary: HistorySummary | undefined,
+    signal: AbortSignal,
+  ): Promise<{ summary: HistorySummary | undefined; tokens: number; costUsd: number; version?: string }> {
+    const offset = summary?.compactedSteps ?? 0;
+    const end = reactHistory.length - MAX_HISTORY_ITEMS;
+    if (end <= offset) {
+      return { summary, tokens: 0, costUsd: 0 };
+    }
+
+    const replayed = JSON.stringify(reactHistory.slice(offset));
+    const replayedTokens = llmRunnerWithTools.countTokens
+      ? await llmRunnerWithTools.countTokens(replayed)
+      : estimateTokenCount(replayed);
+    if (replayedTokens <= compactionThresholdTokens) {
+      return { summary, tokens: 0, costUsd: 0 };
+    }
+
+    const { text: prompt, version } = buildCompactionPrompt(
+      prompts,
+      task,
+      summary,
+      reactHistory.slice(offset, end),
+      offset,
+    );
+    const { response, usage, costUsd } = await traceLLMCall(
+      { sessionId: task.sessionId, taskId: task.id },
+      'compact',
+      prompt,
+      () => llmRunnerWithTools.generateContent(prompt, signal),
+    );
+
+    const compacted: HistorySummary = { summary: response.trim(), compactedSteps: end };
+    await databaseService.updateTask(task.id, { rawHistorySummary: JSON.stringify(compacted) });
+    task.rawHistorySummary = JSON.stringify(compacted);
+    return { summary: compacted, tokens: usage.totalTokens ?? 0, costUsd, version };
+  }
+
+  /**
+   * Executes a task with a Reason / Act / Observe-Reflect loop
+   * The task's budget is checked after every step against the usage recorded in its history
+   */
+  async function executeTaskWithReact(
+    session: Session,
+    task: Task,
+    plan: Task[],
+    control: ExecutionControl,
+    containerId: string | null | undefined,
+  ): Promise<{ status: Task['status']; reactHistory: ReactHistoryItem[] }> {
+    const reactHistory: ReactHistoryItem[] = task.rawReactHistory ? JSON.parse(task.rawReactHistory) : [];
+    let summary: HistorySummary | undefined = task.rawHistorySummary ? JSON.parse(task.rawHistorySummary) : undefined;
+    const agentContext: AgentContext | undefined = session.rawAgentContext
+      ? JSON.parse(session.rawAgentContext)
+      : undefined;
+
+    // Context shared by the Reason and Act prompts
+    let taskContext = agentContext ? `${formatAgentContext(agentContext)}\n\n` : '';
+    if (containerId) {
+      taskContext += `Workspace container ID: ${containerId}\n`;
+      if (session.repoUrl) {
+        taskContext += `The repository is checked out at ${WORKSPACE_PATH} with git configured. Work in this container; do not create another.\n`;
+      }
+      taskContext += '\n';
+    }
+    taskContext += describeTaskDetails(task);
+    const previousAttempts: string[] = task.rawPreviousAttempts ? JSON.parse(task.rawPreviousAttempts) : [];
+    if (previousAttempts.length > 0) {
+      taskContext += `Previous attempts at this task failed:\n${previousAttempts.map((a) => `- ${a}`).join('\n')}\n\n`;
+    }
+
+    const budget: TaskBudget = session.rawTaskBudget
+      ? { ...DEFAULT_TASK_BUDGET, ...JSON.parse(session.rawTaskBudget) }
+      : DEFAULT_TASK_BUDGET;
+    // A dry run leaves the workspace unchanged, so there is nothing to verify
+    const verificationPolicy: VerificationPolicy | undefined =
+      session.rawVerificationPolicy && containerId && session.repoUrl && !session.dryRun
+        ? { ...DEFAULT_VERIFICATION_POLICY, ...JSON.parse(session.rawVerificationPolicy) }
+        : undefined;
+
+    const scope: EventScope = { sessionId: session.id, taskId: task.id };
+    if (containerId && session.repoUrl && !session.dryRun) {
+      await recordTaskBase(containerId, task.id);
+    }
+
+    // The time budget aborts in-flight LLM and tool calls through the task's signal, as the session deadline does
+    const usedMs = reactHistory.reduce((sum, item) => sum + (item.usage?.durationMs ?? 0), 0);
+    const remainingMs = budget.maxDurationMs !== undefined ? Math.max(0, budget.maxDurationMs - usedMs) : undefined;
+    const timeBudget = new AbortController();
+    const timeBudgetTimer =
+      remainingMs !== undefined && remainingMs <= MAX_TIMER_DELAY_MS
+        ? setTimeout(() => timeBudget.abort('TIME_BUDGET'), remainingMs)
+        : undefined;
+    const signal = AbortSignal.any([control.signal, timeBudget.signal]);
+    const taskControl: ExecutionControl = {
+      signal,
+      /**
+       * Stops at the session's checkpoint, then once the task's time budget is used up
+       */
+      async checkpoint(): Promise<void> {
+        await control.checkpoint();
+        signal.throwIfAborted();
+      },
+      stop: control.stop,
+    };
+    const { checkpoint } = taskControl;
+    let startedAt = Date.now();
+
+    try {
+      while (true) {
+        startedAt = Date.now();
+
+        // A step held for approval continues at Observe with its stored Reason and Act results
+        let step: PendingStep;
+        if (task.rawPendingStep) {
+          step = JSON.parse(task.rawPendingStep);
+        } else {
+          await checkpoint();
+          const compaction = await compactHistory(task, reactHistory, summary, signal);
+          summary = compaction.summary;
+
+          // Reason: decide the next step
+          await checkpoint();
+          const reasonPrompt = buildReasonPrompt(prompts, task, reactHistory, taskContext, summary);
+          const reasonCall = await traceLLMCall(scope, 'reason', reasonPrompt.text, () =>
+            llmRunnerWithTools.generateContent(reasonPrompt.text, signal),
+          );
+
+          const reason = reasonCall.response;
+
+          // Act: replay the history as a multi-turn transcript so the model sees its tool results
+          await checkpoint();
+          const transcript = buildActTranscript(prompts, task, reactHistory, reason, taskContext, summary);
+          const actCall = await traceLLMCall(
+            scope,
+            'act',
+            transcript.messages,
+            () => llmRunnerWithTools.chatWithTools!(transcript.messages, signal),
+            (r) => r.usage,
+          );
+          const action: ReactAction = {
+            content: actCall.response.content,
+            toolCalls: actCall.response.toolCalls || [],
+          };
+          step = {
+            reason,
+            action,
+            tokens: compaction.tokens + (reasonCall.usage.totalTokens ?? 0) + (actCall.usage.totalTokens ?? 0),
+            costUsd: compaction.costUsd + reasonCall.costUsd + actCall.costUsd,
+            promptVersions: {
+              ...(compaction.version ? { compact: compaction.version } : {}),
+              reason: reasonPrompt.version,
+              ...transcript.versions,
+            },
+          };
+        }
+        const { reason, action } = step;
+
+        // Observe: execute the requested tool calls once the gated ones are decided
+        await checkpoint();
+        const observation =
+          action.toolCalls.length > 0 ? await executeGatedToolCalls(session, task, step, taskControl, taskContext) : [];
+
+        // Reflect: assess the outcome with a validated reflection
+        await checkpoint();
+        const {
+          reflection,
+          usage: reflectUsage,
+          costUsd: reflectCostUsd,
+          version: reflectVersion,
+        } = await reflect(task, plan, reason, action, observation, signal);
+        let tokens = step.tokens + (reflectUsage.totalTokens ?? 0);
+        let costUsd = (step.costUsd ?? 0) + reflectCostUsd;
+
+        const historyItem: ReactHistoryItem = {
+          reason,
+          action,
+          observation,
+          reflection,
+          promptVersions: { ...step.promptVersions, reflect: reflectVersion },
+        };
+
+        // Verify a claimed completion with the repository's own test commands in its workspace,
+        // unless verification runs them
+        if (
+          reflection.is_task_complete &&
+          !verificationPolicy &&
+          !session.dryRun &&
+          containerId &&
+          session.repoUrl &&
+          agentContext &&
+          agentContext.testCommands.length > 0
+        ) {
+          await checkpoint();
+          historyItem.testResults = await runTestCommands(containerId, agentContext.testCommands, signal);
+          const failed = historyItem.testResults.filter((r) => !r.passed);
+          if (failed.length > 0) {
+            historyItem.reflection = {
+              ...reflection,
+              summary: `${reflection.summary}\nTest commands failed: ${failed.map((r) => r.command).join('; ')}`,
+              is_task_complete: false,
+            };
+          }
+        }
+
+        // Verification sends a failed task back to work with the failure as its reflection, until retries run out
+        if (reflection.is_task_complete && verificationPolicy) {
+          await checkpoint();
+          const verified = await verifyTask(task, containerId!, verificationPolicy, agentContext, signal);
+          historyItem.verification = verified.verification;
+          historyItem.promptVersions = { ...historyItem.promptVersions, review: verified.version };
+          tokens += verified.tokens;
+          costUsd += verified.costUsd;
+          if (!verified.verification.passed) {
+            const failure = describeVerificationFailure(verified.verification);
+            const retries = reactHistory.filter((item) => item.verification && !item.verification.passed).length;
+            historyItem.reflection = {
+              ...reflection,
+              summary: `${reflection.summary}\n${failure}`,
+              is_task_complete: false,
+              is_task_failed: retries >= verificationPolicy.maxRetries,
+              failure_reason: retries >= verificationPolicy.maxRetries ? failure : reflection.failure_reason,
+            };
+          }
+        }
+
+        // A step that repeats a cycle of earlier steps first gets a corrective hint, then fails the task
+        const open = !historyItem.reflection.is_task_complete && !historyItem.reflection.is_task_failed;
+        const loop = open ? detectLoop([...reactHistory, historyItem]) : undefined;
+        if (loop) {
+          historyItem.loopDetected = loop;
+          const description = describeLoop(loop);
+          historyItem.reflection = {
+            ...historyItem.reflection,
+            summary: `${historyItem.reflection.summary}\n${description}`,
+            is_task_failed: loop.action === 'fail',
+            failure_reason: loop.action === 'fail' ? description : historyItem.reflection.failure_reason,
+          };
+        }
+
+        if (reflection.plan_modifications && reflection.plan_modifications.length > 0) {
+          historyItem.planModifications = await applyPlanModifications(session, plan, reflection.plan_modifications);
+          events.emit({
+            type: 'plan_modified',
+            sessionId: session.id,
+            taskId: task.id,
+            modifications: historyItem.planModifications,
+          });
+        }
+
+        historyItem.usage = { tokens, durationMs: Date.now() - startedAt, costUsd };
+        reactHistory.push(historyItem);
+
+        // Budgets only end a task that is still open after this step
+        const finished =
+          task.status === 'OBSOLETE' ||
+          historyItem.reflection.is_task_complete ||
+          historyItem.reflection.is_task_failed;
+        const exhausted = finished ? undefined : findExhaustedBudget(reactHistory, budget);
+        if (exhausted) {
+          historyItem.budgetExhausted = exhausted;
+        }
+        await databaseService.updateTask(task.id, { rawReactHistory: JSON.stringify(reactHistory) });
+
+        // The reflection may have marked the current task as no longer needed
+        if (task.status === 'OBSOLETE') {
+          return { status: 'OBSOLETE', reactHistory };
+        }
+
+        if (historyItem.reflection.is_task_complete) {
+          return { status: 'COMPLETED', reactHistory };
+        }
+
+        if (historyItem.reflection.is_task_failed) {
+          return { status: 'FAILED', reactHistory };
+        }
+
+        if (exhausted) {
+          return { status: 'BUDGET_EXCEEDED', reactHistory };
+        }
+      }
+    } catch (error) {
+      if (control.signal.aborted || !timeBudget.signal.aborted) {
+        throw error;
+      }
+
+      // The step cut short by the time budget is recorded without its results
+      const historyItem: ReactHistoryItem = {
+        reason: '',
+        action: { content: '', toolCalls: [] },
+        observation: [],
+        reflection: { summary: 'Stopped while the step was running', is_task_complete: false, is_task_failed: false },
+        usage: { tokens: 0, durationMs: Date.now() - startedAt },
+      };
+      reactHistory.push(historyItem);
+      const used = reactHistory.reduce((sum, item) => sum + (item.usage?.durationMs ?? 0), 0);
+      historyItem.budgetExhausted = { budget: 'time', limit: budget.maxDurationMs!, used };
+      await databaseService.updateTask(task.id, { rawReactHistory: JSON.stringify(reactHistory) });
+      return { status: 'BUDGET_EXCEEDED', reactHistory };
+    } finally {
+      clearTimeout(timeBudgetTimer);
+    }
+  }
+
+  /**
+   * Creates a task's container in the session's group, with the repository on a task branch
+   * Patches of completed tasks are applied and committed first, so the task builds on them
+   * Returns undefined when the group's container limit is reached
+   */
+  async function prepareTaskWorkspace(session: Session, plan: Task[], task: Task): Promise<TaskWorkspace | undefined> {
+    const createResult = await dockerService.createContainer({
+      groupId: session.id,
+      ...(session.workspaceImage ? { image: session.workspaceImage } : {}),
+    });
+    if (!createResult.ok) {
+      if (createResult.error.type === 'ContainerLimitReached') {
+        return undefined;
+      }
+      throw new Error(`Failed to create task container: ${createResult.error.message}`);
+    }
+
+    const containerId = createResult.value.id;
+    if (!session.repoUrl) {
+      return { containerId, baseTaskIds: [] };
+    }
+
+    try {
+      if (!session.workspaceImage) {
+        await cloneRepository(containerId, session.repoUrl);
+      }
+
+      const base = plan.filter((t) => t.status === 'COMPLETED' && t.patch);
+      const prepareResult = await dockerService.executeScript({
+        containerId,
+        script: [
+          'set -e',
+          `cd ${WORKSPACE_PATH}`,
+          `git checkout -q -b agent/${task.id}`,
+          ...(session.workspaceImage ? [RESET_TO_CLONE_COMMAND] : []),
+          ...base.map((t) => applyPatchCommand(t.patch!, '--whitespace=nowarn')),
+          'git add -A',
+          "git commit -q --allow-empty -m 'Apply completed tasks'",
+          'echo "prepared"',
+        ].join('\n'),
+      });
+      if (!prepareResult.ok || !prepareResult.value.includes('prepared')) {
+        throw new Error(
+          `Failed to prepare task container: ${prepareResult.ok ? prepareResult.value : prepareResult.error.message}`,
+        );
+      }
+
+      return { containerId, baseTaskIds: base.map((t) => t.id) };
+    } catch (error) {
+      await dockerService.destroyContainer(containerId);
+      throw error;
+    }
+  }
+
+  /**
+   * Collects the changes a task made in the session workspace as a patch, against the state it started from
+   */
+  async function collectTaskPatch(containerId: string, taskId: string): Promise<string> {
+    const diffResult = await dockerService.executeScript({
+      containerId,
+      script: [
+        `cd ${WORKSPACE_PATH}`,
+        'export GIT_INDEX_FILE=/tmp/agent-patch.index',
+        'rm -f "$GIT_INDEX_FILE"',
+        'git add -A',
+        `git diff --cached --binary ${taskBaseRevision(taskId)}`,
+      ].join('\n'),
+    });
+    if (!diffResult.ok) {
+      throw new Error(`Failed to collect task changes: ${diffResult.error.message}`);
+    }
+    return diffResult.value;
+  }
+
+  /**
+   * Collects a completed task's changes as a patch and checks them against tasks completed while it ran
+   */
+  async function integrateTaskChanges(
+    plan: Task[],
+    task: Task,
+    workspace: TaskWorkspace,
+  ): Promise<{ patch: string; conflict?: MergeConflict }> {
+    const { containerId } = workspace;
+    const diffResult = await dockerService.executeScript({
+      containerId,
+      // Against the task's base, so commits the task made in its container are part of the patch
+      script: `cd ${WORKSPACE_PATH} && git add -A && git diff --cached --binary ${taskBaseRevision(task.id)}`,
+    });
+    if (!diffResult.ok) {
+      throw new Error(`Failed to collect task changes: ${diffResult.error.message}`);
+    }
+
+    const newer = plan.filter(
+      (t) => t.id !== task.id && t.status === 'COMPLETED' && t.patch && !workspace.baseTaskIds.includes(t.id),
+    );
+    if (newer.length === 0) {
+      return { patch: diffResult.value };
+    }
+
+    const checkResult = await dockerService.executeScript({
+      containerId,
+      script: [
+        `cd ${WORKSPACE_PATH}`,
+        "git commit -q --allow-empty -m 'Task changes'",
+        ...newer.map((t) => applyPatchCommand(t.patch!, '--check', `echo "conflict:${t.id}"`)),
+      ].join('\n'),
+    });
+    if (!checkResult.ok) {
+      throw new Error(`Failed to check task changes for conflicts: ${checkResult.error.message}`);
+    }
+
+    const conflictingTaskIds = [...checkResult.value.matchAll(/conflict:(\S+)/g)].map((match) => match[1]);
+    return {
+      patch: diffResult.value,
+      conflict: conflictingTaskIds.length > 0 ? { taskId: task.id, conflictingTaskIds } : undefined,
+    };
+  }
+
+  /**
+   * Creates the session's workspace container, with the repository cloned on the session branch
+   * Patches of tasks completed in their own containers are applied, so a recreated workspace catches up with them
+   */
+  async function provisionWorkspace(session: Session, plan: Task[]): Promise<Session> {
+    const createResult = await dockerService.createContainer({
+      groupId: session.id,
+      ...(session.workspaceImage ? { image: session.workspaceImage } : {}),
+    });
+    if (!createResult.ok) {
+      throw new Error(`Failed to create session workspace: ${createResult.error.message}`);
+    }
+
+    const containerId = createResult.value.id;
+    if (!session.repoUrl) {
+      return updateSession(session.id, { containerId });
+    }
+
+    const branch = session.branch ?? `agent/session-${session.id}`;
+    try {
+      // A forked workspace snapshot already holds the clone, reset before the completed tasks' patches are applied
+      if (!session.workspaceImage) {
+        await cloneRepository(containerId, session.repoUrl);
+      }
+
+      const prepareResult = await dockerService.executeScript({
+        containerId,
+        script: [
+          'set -e',
+          `cd ${WORKSPACE_PATH}`,
+          `git checkout -q -b ${shellQuote(branch)}`,
+          ...(session.workspaceImage ? [RESET_TO_CLONE_COMMAND] : []),
+          ...plan
+            .filter((t) => t.status === 'COMPLETED' && t.patch)
+            .map((t) => applyPatchCommand(t.patch!, '--whitespace=nowarn')),
+          'echo "prepared"',
+        ].join('\n'),
+      });
+      if (!prepareResult.ok || !prepareResult.value.includes('prepared')) {
+        throw new Error(
+          `Failed to prepare session workspace: ${prepareResult.ok ? prepareResult.value : prepareResult.error.message}`,
+        );
+      }
+    } catch (error) {
+      await dockerService.destroyContainer(containerId);
+      throw error;
+    }
+
+    return updateSession(session.id, { containerId, branch });
+  }
+
+  /**
+   * Applies a task's changes, made in its own container, to the session workspace
+   */
+  async function applyToSessionWorkspace(containerId: string, patch: string): Promise<void> {
+    const applyResult = await dockerService.executeScript({
+      containerId,
+      script: [
+        'set -e',
+        `cd ${WORKSPACE_PATH}`,
+        applyPatchCommand(patch, '--whitespace=nowarn'),
+        'echo "applied"',
+      ].join('\n'),
+    });
+    if (!applyResult.ok || !applyResult.value.includes('applied')) {
+      throw new Error(
+        `Failed to apply task changes to the session workspace: ${applyResult.ok ? applyResult.value : applyResult.error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Destroys the session's containers once it has ended, unless its retention setting keeps the workspace
+   */
+  async function releaseWorkspace(session: Session): Promise<Session> {
+    const retention = (session.workspaceRetention ?? 'destroy') as WorkspaceRetention;
+    const completed = session.status === 'COMPLETED' || session.status === 'DRY_RUN_COMPLETED';
+    if (retention === 'keep' || (retention === 'keep-on-failure' && !completed)) {
+      return session;
+    }
+
+    await releaseContainers(session);
+    return updateSession(session.id, { containerId: null });
+  }
+
+  /**
+   * Commits the session workspace on the session branch, pushes it and opens a pull request against the default branch
+   * Returns the pull request URL, or undefined when the repository is not on GitHub or was left unchanged
+   */
+  async function deliverChanges(session: Session, plan: Task[]): Promise<string | undefined> {
+    const repository = session.repoUrl ? parseRepository(session.repoUrl) : undefined;
+    if (!repository || !session.containerId || !session.branch) {
+      return undefined;
+    }
+
+    const title = buildPullRequestTitle(session);
+    const pushResult = await dockerService.executeScript({
+      containerId: session.containerId,
+      script: [
+        'set -e',
+        `cd ${WORKSPACE_PATH}`,
+        'git add -A',
+        `git diff --cached --quiet || git commit -q -m ${shellQuote(title)}`,
+        'test "$(git rev-list --count origin/HEAD..HEAD)" -gt 0 || exit 0',
+        `git push -q origin ${shellQuote(session.branch)} 2>&1`,
+        'echo "pushed"',
+        'git rev-parse --abbrev-ref origin/HEAD',
+      ].join('\n'),
+    });
+    if (!pushResult.ok) {
+      throw new Error(`Failed to push the session branch: ${pushResult.error.message}`);
+    }
+    if (!pushResult.value.includes('pushed')) {
+      // Without output the branch has no commits beyond the default branch
+      if (!pushResult.value.trim()) {
+        return undefined;
+      }
+      throw new Error(`Failed to push the session branch: ${pushResult.value}`);
+    }
+
+    const base = pushResult.value.match(/^origin\/(\S+)$/m)?.[1] ?? 'main';
+    const pullRequest = await githubService.createPullRequest(
+      repository.owner,
+      repository.repo,
+      title,
+      session.branch,
+      base,
+      buildPullRequestBody(session, plan),
+    );
+    return pullRequest.html_url;
+  }
+
+  /**
+   * Runs a task to its final status and records it, releasing its own container afterwards
+   * A task whose changes conflict with tasks integrated while it ran ends as MERGE_CONFLICT
+   */
+  async function runTask(
+    session: Session,
+    task: Task,
+    plan: Task[],
+    control: ExecutionControl,
+    workspace?: TaskWorkspace,
+  ): Promise<{ reactHistory: ReactHistoryItem[]; conflict?: MergeConflict }> {
+    try {
+      const containerId = workspace ? workspace.containerId : session.containerId;
+      const taskResult = await executeTaskWithReact(session, task, plan, control, containerId);
+      const { reactHistory } = taskResult;
+
+      let status = taskResult.status;
+      let patch: string | undefined;
+      let conflict: MergeConflict | undefined;
+      if (workspace && session.repoUrl && status === 'COMPLETED') {
+        ({ patch, conflict } = await integrateTaskChanges(plan, task, workspace));
+        if (conflict) {
+          status = 'MERGE_CONFLICT';
+          reactHistory[reactHistory.length - 1].mergeConflict = conflict;
+        }
+      } else if (session.containerId && session.repoUrl && !session.dryRun && status === 'COMPLETED') {
+        // Kept so a fork or a recreated workspace can apply the changes without re-running the task
+        patch = await collectTaskPatch(session.containerId, task.id);
+      }
+
+      if (workspace && patch && !conflict && session.containerId) {
+        await applyToSessionWorkspace(session.containerId, patch);
+      }
+
+      await databaseService.updateTask(task.id, {
+        status,
+        rawReactHistory: JSON.stringify(reactHistory),
+        ...(patch !== undefined && !conflict ? { patch } : {}),
+      });
+      task.status = status; // Update local copy
+      task.rawReactHistory = JSON.stringify(reactHistory);
+      if (patch !== undefined && !conflict) {
+        task.patch = patch;
+      }
+      events.emit({ type: 'task_finished', sessionId: session.id, taskId: task.id, status });
+
+      return { reactHistory, conflict };
+    } finally {
+      if (workspace) {
+        await releaseTaskWorkspace(task, workspace, control.signal);
+      }
+    }
+  }
+
+  /**
+   * Destroys a task's container once it stops, unless the task was paused or held for approval mid-run
+   * The container of such a task is kept on the task row, so it resumes with the changes it made so far
+   */
+  async function releaseTaskWorkspace(task: Task, workspace: TaskWorkspace, signal: AbortSignal): Promise<void> {
+    const reason = signal.aborted ? (signal.reason as StopReason) : undefined;
+    if (task.status === 'IN_PROGRESS' && (reason === 'PAUSE' || reason === 'APPROVAL')) {
+      task.rawWorkspace = JSON.stringify(workspace);
+      await databaseService.updateTask(task.id, { rawWorkspace: task.rawWorkspace });
+      return;
+    }
+
+    await dockerService.destroyContainer(workspace.containerId);
+    if (task.rawWorkspace) {
+      task.rawWorkspace = null;
+      await databaseService.updateTask(task.id, { rawWorkspace: null });
+    }
+  }
+
+  /**
+   * Re-attaches to the container kept for a stopped task; undefined when it no longer exists
+   */
+  async function reattachTaskWorkspace(session: Session, task: Task): Promise<TaskWorkspace | undefined> {
+    const workspace: TaskWorkspace = JSON.parse(task.rawWorkspace!);
+    const attachResult = await dockerService.attachContainer(workspace.containerId, session.id);
+    return attachResult.ok ? workspace : undefined;
+  }
+
+  /**
+   * Asks the model for plan modifications that route around a failed task; returns undefined when the answer is invalid
+   */
+  async function requestReplan(
+    session: Session,
+    plan: Task[],
+    task: Task,
+    failure: string,
+    signal: AbortSignal,
+  ): Promise<PlanModification[] | undefined> {
+    const { text: prompt } = buildReplanPrompt(prompts, plan, task, failure);
+    const scope: EventScope = { sessionId: session.id, taskId: task.id };
+
+    let raw: unknown;
+    if (llmRunnerWithTools.generateJSON) {
+      ({ response: raw } = await traceLLMCall(scope, 'replan', prompt, () =>
+        llmRunnerWithTools.generateJSON!(prompt, undefined, signal),
+      ));
+    } else {
+      const { response } = await traceLLMCall(scope, 'replan', prompt, () =>
+        llmRunnerWithTools.generateContent(prompt, signal),
+      );
+      raw = parseJsonResponse(response) ?? null;
+    }
+
+    const parsed = ReplanSchema.safeParse(unwrapList(raw, 'modifications'));
+    return parsed.success ? parsed.data : undefined;
+  }
+
+  /**
+   * Applies the session's failure policy to a task that just failed
+   * Returns whether the failure was recovered from: a retried task goes back to PENDING with the failure recorded,
+   * a replanned one becomes REPLANNED once the model's modifications are applied
+   */
+  async function recoverFromFailure(
+    session: Session,
+    plan: Task[],
+    task: Task,
+    reactHistory: ReactHistoryItem[],
+    signal: AbortSignal,
+  ): Promise<boolean> {
+    const policy: FailurePolicy = session.rawFailurePolicy
+      ? { ...DEFAULT_FAILURE_POLICY, ...JSON.parse(session.rawFailurePolicy) }
+      : DEFAULT_FAILURE_POLICY;
+    const failure = describeTaskFailure(task, reactHistory);
+    // A task run in the session workspace leaves its edits there; tasks in their own containers leave none behind
+    const sharesWorkspace =
+      (session.maxParallelTasks ?? 1) <= 1 && session.containerId && session.repoUrl && !session.dryRun;
+
+    if (policy.strategy === 'retry') {
+      const attempts: string[] = task.rawPreviousAttempts ? JSON.parse(task.rawPreviousAttempts) : [];
+      if (attempts.length >= policy.maxRetries) {
+        return false;
+      }
+      if (sharesWorkspace) {
+        await resetToTaskBase(session.containerId!, task.id);
+      }
+
+      const retry = {
+        status: 'PENDING',
+        rawReactHistory: null,
+        rawHistorySummary: null,
+        rawPreviousAttempts: JSON.stringify([...attempts, failure]),
+      } satisfies Partial<Task>;
+      await databaseService.updateTask(task.id, retry);
+      Object.assign(task, retry); // Update local copy
+      return true;
+    }
+
+    if (policy.strategy === 'replan') {
+      if (plan.filter((t) => t.status === 'REPLANNED').length >= policy.maxRetries) {
+        return false;
+      }
+
+      const modifications = await requestReplan(session, plan, task, failure, signal);
+      if (!modifications) {
+        return false;
+      }
+      if (sharesWorkspace) {
+        await resetToTaskBase(session.containerId!, task.id);
+      }
+
+      await databaseService.updateTask(task.id, { status: 'REPLANNED' });
+      task.status = 'REPLANNED'; // Update local copy
+      const applied = await applyPlanModifications(session, plan, modifications);
+
+      // A REPLANNED dependency counts as met, so dependents are moved onto the tasks added in its place
+      const replacements = applied.filter((a) => a.applied && a.modification.type === 'add').map((a) => a.taskId!);
+      const dependents = plan.filter((t) => parseDependencies(t).includes(task.id));
+      for (const dependent of dependents) {
+        const dependencies = [
+          ...new Set(parseDependencies(dependent).flatMap((id) => (id === task.id ? replacements : [id]))),
+        ];
+        dependent.rawDependencies = dependencies.length > 0 ? JSON.stringify(dependencies) : null;
+        await databaseService.updateTask(dependent.id, { rawDependencies: dependent.rawDependencies });
+      }
+      if (dependents.length > 0) {
+        await updateSession(session.id, { rawPlan: JSON.stringify(plan) });
+      }
+      events.emit({ type: 'plan_modified', sessionId: session.id, taskId: task.id, modifications: applied });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Runs ready tasks until none are left or the session stops executing
+   * A task is ready once its dependencies are completed or obsolete; one left IN_PROGRESS by an interrupted run goes first
+   * With maxParallelTasks above 1, ready tasks run concurrently, each in its own container, up to the group's limit
+   * A failure the failure policy does not recover from stops new tasks from starting and ends the session as FAILED
+   */
+  async function runExecutionLoop(session: Session, plan: Task[]): Promise<ExecutionResult> {
+    const controller = new AbortController();
+    runningExecutions.set(session.id, controller);
+
+    // Aborts in-flight LLM and tool calls once the deadline passes
+    const deadline = session.deadline ? new Date(session.deadline) : undefined;
+    const deadlineTimer =
+      deadline && deadline.getTime() - Date.now() <= MAX_TIMER_DELAY_MS
+        ? setTimeout(() => controller.abort('DEADLINE'), deadline.getTime() - Date.now())
+        : undefined;
+
+    const control: ExecutionControl = {
+      signal: controller.signal,
+      /**
+       * Picks up the deadline and control requests persisted by other processes, then stops if aborted
+       */
+      async checkpoint(): Promise<void> {
+        if (!controller.signal.aborted && deadline && new Date() > deadline) {
+          controller.abort('DEADLINE');
+        }
+        if (!controller.signal.aborted) {
+          const current = await databaseService.retrieveSession(session.id);
+          if (current?.controlRequest) {
+            controller.abort(current.controlRequest);
+          } else if (current && isSessionBudgetExhausted(current)) {
+            controller.abort('BUDGET');
+          }
+        }
+        controller.signal.throwIfAborted();
+      },
+      /**
+       * Stops the run for a reason found by a task, such as a tool call awaiting approval
+       */
+      stop(reason: StopReason): never {
+        controller.abort(reason);
+        throw controller.signal.reason;
+      },
+    };
+
+    const log: ReactHistoryItem[] = [];
+    const mergeConflicts: MergeConflict[] = [];
+    const maxParallelTasks = session.maxParallelTasks ?? 1;
+    const running = new Map<string, Promise<void>>();
+    let taskError: unknown;
+
+    try {
+      while (session.status === 'EXECUTING') {
+        await control.checkpoint();
+
+        const ready = plan.some((task) => TASK_FAILURE_STATUSES.includes(task.status))
+          ? []
+          : findReadyTasks(plan).filter((task) => !running.has(task.id));
+        for (const task of ready.slice(0, maxParallelTasks - running.size)) {
+          let workspace: TaskWorkspace | undefined;
+          if (maxParallelTasks > 1) {
+            workspace = task.rawWorkspace ? await reattachTaskWorkspace(session, task) : undefined;
+            workspace ??= await prepareTaskWorkspace(session, plan, task);
+            if (!workspace) {
+              if (running.size === 0) {
+                throw new Error('Container limit reached before any task could start');
+              }
+              // Wait for a running task to release its container
+              break;
+            }
+          }
+
+          await databaseService.updateTask(task.id, { status: 'IN_PROGRESS' });
+          task.status = 'IN_PROGRESS'; // Update local copy
+          events.emit({ type: 'task_started', sessionId: session.id, taskId: task.id, description: task.description });
+
+          const settled = runTask(session, task, plan, control, workspace)
+            .then(async ({ reactHistory, conflict }) => {
+              log.push(...reactHistory);
+              if (conflict) {
+                mergeConflicts.push(conflict);
+              }
+              if (TASK_FAILURE_STATUSES.includes(task.status)) {
+                await recoverFromFailure(session, plan, task, reactHistory, control.signal);
+              }
+            })
+            .catch((error: unknown) => {
+              taskError ??= error;
+            })
+            .finally(() => running.delete(task.id));
+          running.set(task.id, settled);
+        }
+
+        if (running.size === 0) {
+          // Tasks still open at this point wait on dependencies that can no longer complete
+          const blocked = plan.some((task) => task.status === 'PENDING' || task.status === 'IN_PROGRESS');
+          const failed = plan.some((task) => TASK_FAILURE_STATUSES.includes(task.status));
+          // A dry run ends in its own status, so it is never mistaken for delivered work
+          const completed = session.dryRun ? 'DRY_RUN_COMPLETED' : 'COMPLETED';
+          session = await updateSession(session.id, { status: blocked || failed ? 'FAILED' : completed });
+          break;
+        }
 
-  // Create tools service with dependencies
-  const toolsService = createLLMToolsService({
-    githubService,
-    dockerService,
-    databaseService,
-    shellCommand,
-    webFetch,
-    googleSearch,
-  });
+        await Promise.race(running.values());
+        if (taskError) {
+          throw taskError;
+        }
+      }
+    } catch (error) {
+      const stopped = controller.signal.aborted;
+      if (!stopped) {
+        // Stop the other running tasks before reporting the failure
+        controller.abort(error);
+      }
+      await Promise.allSettled(running.values());
+      if (!stopped) {
+        throw error;
+      }
+      session = await stopExecution(session, controller.signal.reason as StopReason, plan);
+    } finally {
+      clearTimeout(deadlineTimer);
+      runningExecutions.delete(session.id);
+    }
 
-  // Check if injected llmRunner already has tool support (for tests)
-  let llmRunnerWithTools: LLMRunnerService;
-  if ('generateWithTools' in llmRunner && 'executeToolCalls' in llmRunner) {
-    llmRunnerWithTools = llmRunner as LLMRunnerService;
-  } else if ('getConfig' in llmRunner) {
-    const llmConfig = (llmRunner as LLMRunnerService).getConfig();
-    llmRunnerWithTools = createLLMRunnerWithConfig({
-      ...llmConfig,
-      tools: toolsService,
-    });
-  } else {
-    throw new Error('Invalid LLM runner');
+    let prUrl: string | undefined;
+    if (session.status === 'COMPLETED') {
+      try {
+        prUrl = await deliverChanges(session, plan);
+      } catch (error) {
+        // Undelivered work fails the session, so keep-on-failure retention keeps the workspace
+        session = await releaseWorkspace(await updateSession(session.id, { status: 'FAILED' }));
+        throw error;
+      }
+      if (prUrl) {
+        session = await updateSession(session.id, { prUrl });
+      }
+    }
+
+    // Paused sessions and sessions awaiting approval keep their workspace to resume in
+    if (FINISHED_STATUSES.includes(session.status) && session.status !== 'CANCELLED') {
+      session = await releaseWorkspace(session);
+    }
+
+    return {
+      status: session.status,
+      log,
+      mergeConflicts,
+      prUrl,
+      usage: session.rawUsage ? JSON.parse(session.rawUsage) : EMPTY_USAGE,
+      taskUsage: summarizeTaskUsage(plan),
+    };
   }
 
   /**
-   * Executes a task with native tool calling
+   * Applies a cancel or pause request, a passed deadline or a used-up session budget to an interrupted run
+   * Paused tasks stay IN_PROGRESS so they resume from their history; cancelled and budget-stopped ones go back to PENDING
    */
-  async function executeTaskWithReact(
-    session: Session,
-    task: Task,
-  ): Promise<{ status: Task['status']; reactHistory: ReactHistoryItem[] }> {
-    let reactHistory: ReactHistoryItem[] = task.rawReactHistory ? JSON.parse(task.rawReactHistory) : [];
-
-    // Limit history to prevent prompt size explosion and 503 errors
-    const MAX_HISTORY_ITEMS = 5;
-    
-    while (true) {
-      // Truncate history for prompt to avoid token limits
-      const recentHistory = reactHistory.slice(-MAX_HISTORY_ITEMS);
-      
-      // Create a summary of older history if needed
-      const historySummary = reactHistory.length > MAX_HISTORY_ITEMS 
-        ? `[Previous ${reactHistory.length - MAX_HISTORY_ITEMS} actions completed]\n`
-        : '';
-      
-      // Create concise prompt to reduce token usage
-      const prompt = `Task: ${task.description}
-${historySummary}Recent Actions: ${recentHistory.length > 0 ? recentHistory.map(h => h.content || 'Tool call').join('; ') : 'None'}
-Use tools to complete task. Say "TASK_COMPLETE" when done.`;
-
-      // Single LLM call with tool support
-      const response = await llmRunnerWithTools.generateWithTools!(prompt);
-
-      let observation: unknown = null;
-      let toolResults: Array<{ toolCallId: string; result: unknown }> = [];
-
-      // If tool calls were made, execute them
-      if (response.toolCalls && response.toolCalls.length > 0) {
-        toolResults = await llmRunnerWithTools.executeToolCalls!(response.toolCalls);
-        observation = toolResults.map((r) => r.result);
-      }
-
-      // Update history
-      const historyItem: ReactHistoryItem = {
-        toolCalls: response.toolCalls,
-        toolResults,
-        content: response.content,
-        observation,
-      };
-      reactHistory.push(historyItem);
-      await databaseService.updateTask(task.id, { rawReactHistory: JSON.stringify(reactHistory) });
+  async function stopExecution(session: Session, reason: StopReason, plan: Task[]): Promise<Session> {
+    if (reason === 'DEADLINE') {
+      return updateSession(session.id, { status: 'DEADLINE_EXCEEDED' });
+    }
+
+    if (reason === 'PAUSE') {
+      return updateSession(session.id, { status: 'PAUSED', controlRequest: null });
+    }
+
+    if (reason === 'APPROVAL') {
+      return updateSession(session.id, { status: 'AWAITING_APPROVAL' });
+    }
+
+    for (const task of plan.filter((t) => t.status === 'IN_PROGRESS')) {
+      await databaseService.updateTask(task.id, { status: 'PENDING' });
+      task.status = 'PENDING';
+    }
+
+    // The workspace outlives a used-up budget according to the session's retention setting
+    if (reason === 'BUDGET') {
+      return updateSession(session.id, { status: 'BUDGET_EXCEEDED' });
+    }
 
-      // Check for completion signal in response content
-      if (response.content?.includes('TASK_COMPLETE')) {
-        return { status: 'COMPLETED', reactHistory };
+    await releaseContainers(session);
+    return updateSession(session.id, { status: 'CANCELLED', controlRequest: null, containerId: null });
+  }
+
+  /**
+   * Destroys every container in the session's group, then the workspace snapshot a fork's containers started from
+   * The persisted workspace and task containers are attached first, since another process may have created them
+   */
+  async function releaseContainers(session: Session): Promise<void> {
+    const stopped = (await databaseService.listTasks(session.id)).filter((t) => t.rawWorkspace);
+    const persisted = [
+      session.containerId,
+      ...stopped.map((t) => (JSON.parse(t.rawWorkspace!) as TaskWorkspace).containerId),
+    ];
+    for (const containerId of persisted) {
+      if (containerId) {
+        await dockerService.attachContainer(containerId, session.id);
       }
+    }
 
-      // Safety check - prevent infinite loops
-      if (reactHistory.length > 50) {
-        return { status: 'FAILED', reactHistory };
+    const listResult = await dockerService.listContainers(session.id);
+    if (listResult.ok) {
+      for (const container of listResult.value) {
+        await dockerService.destroyContainer(container.id);
       }
     }
+    for (const task of stopped) {
+      await databaseService.updateTask(task.id, { rawWorkspace: null });
+    }
+    if (session.workspaceImage) {
+      await dockerService.removeSnapshot(session.workspaceImage);
+    }
+  }
+
+  /**
+   * Continues an interrupted execution from the persisted task rows
+   */
+  async function continueExecution(session: Session): Promise<ExecutionResult> {
+    // Task rows are authoritative: they carry the statuses and ReAct history persisted before the interruption
+    const plan = await databaseService.listTasks(session.id);
+    session = session.containerId ? await reattachWorkspace(session, plan) : await provisionWorkspace(session, plan);
+    return runExecutionLoop(session, plan);
+  }
+
+  /**
+   * Records a decision on pending approval requests and continues the execution once none are left undecided
+   */
+  async function decideApproval(
+    options: ApprovalDecisionOptions,
+    decision: NonNullable<ApprovalRequest['decision']>,
+  ): Promise<ExecutionResult> {
+    let session = await databaseService.retrieveSession(options.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    if (session.status !== 'AWAITING_APPROVAL') {
+      throw new Error('Session is not awaiting approval');
+    }
+
+    const requests: ApprovalRequest[] = session.rawApprovalRequests ? JSON.parse(session.rawApprovalRequests) : [];
+    const targets = requests.filter(
+      (r) => !r.decision && (options.toolCallId === undefined || r.toolCall.id === options.toolCallId),
+    );
+    if (targets.length === 0) {
+      throw new Error(
+        options.toolCallId
+          ? `No pending approval request for tool call ${options.toolCallId}`
+          : 'No pending approval requests',
+      );
+    }
+
+    for (const request of targets) {
+      request.decision = decision;
+      request.note = options.note;
+    }
+    session = await databaseService.updateSession(session.id, { rawApprovalRequests: JSON.stringify(requests) });
+
+    if (requests.some((r) => !r.decision)) {
+      return {
+        status: session.status,
+        log: [],
+        mergeConflicts: [],
+        usage: session.rawUsage ? JSON.parse(session.rawUsage) : EMPTY_USAGE,
+        taskUsage: summarizeTaskUsage(await databaseService.listTasks(session.id)),
+      };
+    }
+
+    session = await updateSession(session.id, { status: 'EXECUTING' });
+    return continueExecution(session);
+  }
+
+  /**
+   * Re-attaches to the session's container, provisioning a new workspace when it no longer exists
+   */
+  async function reattachWorkspace(session: Session, plan: Task[]): Promise<Session> {
+    const attachResult = await dockerService.attachContainer(session.containerId!, session.id);
+    if (attachResult.ok) {
+      return session;
+    }
+
+    return provisionWorkspace(session, plan);
   }
 
   return {
@@ -189,50 +3000,74 @@ Use tools to complete task. Say "TASK_COMPLETE" when done.`;
       const session = await databaseService.createSession({
         status: 'PLANNING',
         deadline: options.deadline || null,
+        repoUrl: options.repoUrl,
+        prompt: options.prompt,
       });
+      events.emit({ type: 'session_status', sessionId: session.id, status: session.status });
 
-      // TODO: Create a container and get the source files from it.
-      const _allSourceFiles_ = 'No container created yet';
-
-      // Keep prompt concise to avoid token limits and reduce 503 errors
-      const planningPrompt = `Generate a plan for: ${options.prompt}
-
-Repository: ${options.repoUrl}
-
-Output JSON array of tasks:
-[{"description": "specific actionable task"}]
+      let repositoryContext: Awaited<ReturnType<typeof gatherRepositoryContext>>;
+      try {
+        repositoryContext = await gatherRepositoryContext(session.id, options.repoUrl);
+      } catch (error) {
+        await updateSession(session.id, { status: 'FAILED' });
+        throw error;
+      }
 
-Keep it concise.`;
+      const { agentContext } = repositoryContext;
+      if (agentContext) {
+        await updateSession(session.id, { rawAgentContext: JSON.stringify(agentContext) });
+      }
 
-      // Use generateJSON if available, otherwise fall back to generateContent with parsing
-      let planTasks: { description: string }[];
+      // Keep prompt concise to avoid token limits and reduce 503 errors
+      const planningPrompt = prompts.render('plan', {
+        request: options.prompt,
+        repository: options.repoUrl,
+        repositoryContext: repositoryContext.summary,
+        agentContext: agentContext ? `${formatAgentContext(agentContext)}\n\n` : '',
+      });
+      const promptVersions: PromptVersions = { plan: planningPrompt.version };
 
-      if (llmRunner.generateJSON) {
-        planTasks = (await llmRunner.generateJSON(planningPrompt)) as { description: string }[];
-      } else {
-        const response = await llmRunner.generateContent(planningPrompt);
-        // Try to parse response, handling markdown-wrapped JSON
-        try {
-          planTasks = JSON.parse(response);
-        } catch {
-          // Fallback: try to extract JSON from markdown code blocks
-          const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-          if (jsonMatch) {
-            planTasks = JSON.parse(jsonMatch[1]);
-          } else {
-            throw new Error('Failed to parse planning response as JSON');
-          }
+      // Generate the plan against the plan schema, asking once for a repair when the response fails validation
+      let prompt = planningPrompt.text;
+      let planTasks: PlannedTask[] | undefined;
+      for (let attempt = 0; !planTasks; attempt++) {
+        const { response } = await traceLLMCall({ sessionId: session.id }, 'plan', prompt, async () =>
+          llmRunner.generateJSON
+            ? llmRunner.generateJSON(prompt, PLAN_RESPONSE_SCHEMA)
+            : llmRunner.generateContent(prompt),
+        );
+        const validation = validatePlan(response);
+        if ('plan' in validation) {
+          planTasks = validation.plan;
+        } else if (attempt < MAX_PLAN_REPAIR_ATTEMPTS) {
+          const repairPrompt = buildPlanRepairPrompt(prompts, planningPrompt.text, response, validation.error);
+          prompt = repairPrompt.text;
+          promptVersions.planRepair = repairPrompt.version;
+        } else {
+          await updateSession(session.id, { status: 'FAILED' });
+          throw new Error(`Planning response did not match the plan schema: ${validation.error}`);
         }
       }
 
       const plan: Task[] = [];
-      for (const taskData of planTasks) {
-        const task = await databaseService.insertTask(session.id, taskData.description);
+      for (const [index, taskData] of planTasks.entries()) {
+        const inserted = await databaseService.insertTask(session.id, taskData.description);
+
+        // Only earlier tasks are valid dependencies, which keeps the graph acyclic
+        const dependencies = taskData.dependsOn.filter((i) => i >= 0 && i < index).map((i) => plan[i].id);
+        const task = await databaseService.updateTask(inserted.id, {
+          title: taskData.title ?? null,
+          rawAcceptanceCriteria: JSON.stringify(taskData.acceptanceCriteria),
+          rawLikelyFiles: JSON.stringify(taskData.files),
+          effort: taskData.effort ?? null,
+          rawDependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+        });
         plan.push(task);
       }
 
-      await databaseService.updateSession(session.id, {
+      await updateSession(session.id, {
         rawPlan: JSON.stringify(plan),
+        rawPlanHistory: JSON.stringify(recordPlanVersion([], plan, undefined, promptVersions)),
         status: 'AWAITING_CONFIRMATION',
       });
 
@@ -248,46 +3083,65 @@ Keep it concise.`;
         throw new Error('Session not found');
       }
 
-      const oldPlan = session.rawPlan ? JSON.parse(session.rawPlan) : [];
+      if (session.status !== 'AWAITING_CONFIRMATION') {
+        throw new Error('Session is not awaiting confirmation');
+      }
+
+      const oldPlan: Task[] = session.rawPlan ? JSON.parse(session.rawPlan) : [];
+      const history: RefinementTurn[] = session.rawRefinementHistory ? JSON.parse(session.rawRefinementHistory) : [];
+      let versions: PlanVersion[] = session.rawPlanHistory ? JSON.parse(session.rawPlanHistory) : [];
+      if (versions.length === 0) {
+        versions = recordPlanVersion(versions, oldPlan);
+      }
 
       // Keep refinement prompt concise to avoid token limits
-      const taskDescriptions = oldPlan.map((t: Task) => t.description).join(', ');
-      const refinementPrompt = `Current tasks: ${taskDescriptions}
-Feedback: ${options.refinementPrompt}
-
-Output revised JSON array:
-[{"description": "task"}]`;
+      const taskList = oldPlan.map((t) => `[${t.id}] ${t.description}`).join('\n');
+      const conversation = history
+        .slice(-MAX_REFINEMENT_TURNS)
+        .map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+        .join('\n');
+      const { text: refinementPrompt, version: refinementVersion } = prompts.render('refine', {
+        conversation: conversation ? `Conversation so far:\n${conversation}\n` : '',
+        tasks: taskList,
+        feedback: options.refinementPrompt,
+      });
 
       // Use generateJSON if available, otherwise fall back to generateContent with parsing
-      let newPlanTasks: { description: string }[];
+      let rawDiff: unknown;
 
       if (llmRunner.generateJSON) {
-        newPlanTasks = (await llmRunner.generateJSON(refinementPrompt)) as { description: string }[];
+        ({ response: rawDiff } = await traceLLMCall({ sessionId: session.id }, 'refine', refinementPrompt, () =>
+          llmRunner.generateJSON!(refinementPrompt),
+        ));
       } else {
-        const response = await llmRunner.generateContent(refinementPrompt);
+        const { response } = await traceLLMCall({ sessionId: session.id }, 'refine', refinementPrompt, () =>
+          llmRunner.generateContent(refinementPrompt),
+        );
         // Try to parse response, handling markdown-wrapped JSON
-        try {
-          newPlanTasks = JSON.parse(response);
-        } catch {
-          // Fallback: try to extract JSON from markdown code blocks
-          const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-          if (jsonMatch) {
-            newPlanTasks = JSON.parse(jsonMatch[1]);
-          } else {
-            throw new Error('Failed to parse refinement response as JSON');
-          }
+        rawDiff = parseJsonResponse(response);
+        if (rawDiff === undefined) {
+          throw new Error('Failed to parse refinement response as JSON');
         }
       }
 
-      // TODO: This should be a more sophisticated update, not just a replacement.
-      const newPlan: Task[] = [];
-      for (const taskData of newPlanTasks) {
-        const task = await databaseService.insertTask(session.id, taskData.description);
-        newPlan.push(task);
+      const diff = PlanDiffSchema.safeParse(unwrapList(rawDiff, 'operations'));
+      if (!diff.success) {
+        throw new Error(`Invalid refinement diff: ${diff.error.message}`);
       }
 
-      await databaseService.updateSession(session.id, {
+      const newPlan = await applyPlanDiff(session.id, oldPlan, diff.data);
+
+      history.push(
+        { role: 'user', content: options.refinementPrompt },
+        { role: 'assistant', content: `Revised tasks: ${newPlan.map((t) => t.description).join(', ')}` },
+      );
+
+      await updateSession(session.id, {
         rawPlan: JSON.stringify(newPlan),
+        rawRefinementHistory: JSON.stringify(history),
+        rawPlanHistory: JSON.stringify(
+          recordPlanVersion(versions, newPlan, options.refinementPrompt, { refine: refinementVersion }),
+        ),
       });
 
       return newPlan;
@@ -296,8 +3150,8 @@ Output revised JSON array:
     /**
      *
      */
-    async executePlan(options: ExecutionOptions): Promise<ExecutionResult> {
-      let session = await databaseService.retrieveSession(options.sessionId);
+    async revertPlan(options: RevertOptions): Promise<Task[]> {
+      const session = await databaseService.retrieveSession(options.sessionId);
       if (!session) {
         throw new Error('Session not found');
       }
@@ -306,36 +3160,360 @@ Output revised JSON array:
         throw new Error('Session is not awaiting confirmation');
       }
 
-      session = await databaseService.updateSession(session.id, { status: 'EXECUTING' });
+      const versions: PlanVersion[] = session.rawPlanHistory ? JSON.parse(session.rawPlanHistory) : [];
+      const target = versions.find((v) => v.version === options.version);
+      if (!target) {
+        throw new Error(`Plan version ${options.version} not found`);
+      }
 
-      const plan: Task[] = session.rawPlan ? JSON.parse(session.rawPlan) : [];
-      const log: ReactHistoryItem[] = [];
+      // Express the revert as a diff so surviving tasks keep their IDs; deleted tasks are recreated
+      const oldPlan: Task[] = session.rawPlan ? JSON.parse(session.rawPlan) : [];
+      const currentIds = new Set(oldPlan.map((t) => t.id));
+      const targetIds = new Set(target.plan.map((t) => t.id));
+      const diff: PlanDiffOperation[] = [
+        ...oldPlan.filter((t) => !targetIds.has(t.id)).map((t): PlanDiffOperation => ({ op: 'delete', taskId: t.id })),
+        ...target.plan.map(
+          (t): PlanDiffOperation =>
+            currentIds.has(t.id)
+              ? { op: 'edit', taskId: t.id, description: t.description }
+              : { op: 'insert', description: t.description },
+        ),
+      ];
 
-      while (session.status === 'EXECUTING') {
-        if (session.deadline && new Date() > new Date(session.deadline)) {
-          session = await databaseService.updateSession(session.id, { status: 'DEADLINE_EXCEEDED' });
-          break;
+      const diffPlan = await applyPlanDiff(session.id, oldPlan, diff);
+
+      // The diff restores descriptions only; restore the rest of each task from the snapshot, with recreated IDs
+      const revertedIds = new Map(target.plan.map((task, index) => [task.id, diffPlan[index].id]));
+      const newPlan: Task[] = [];
+      for (const [index, task] of target.plan.entries()) {
+        const dependencies = parseDependencies(task)
+          .filter((id) => revertedIds.has(id))
+          .map((id) => revertedIds.get(id)!);
+        newPlan.push(
+          await databaseService.updateTask(diffPlan[index].id, {
+            title: task.title ?? null,
+            rawAcceptanceCriteria: task.rawAcceptanceCriteria ?? null,
+            rawLikelyFiles: task.rawLikelyFiles ?? null,
+            effort: task.effort ?? null,
+            rawDependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+          }),
+        );
+      }
+
+      await updateSession(session.id, {
+        rawPlan: JSON.stringify(newPlan),
+        rawPlanHistory: JSON.stringify(recordPlanVersion(versions, newPlan, `Reverted to version ${options.version}`)),
+      });
+
+      return newPlan;
+    },
+
+    /**
+     *
+     */
+    async listPlanVersions(sessionId: string): Promise<PlanVersion[]> {
+      const session = await databaseService.retrieveSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      return session.rawPlanHistory ? JSON.parse(session.rawPlanHistory) : [];
+    },
+
+    /**
+     *
+     */
+    async forkSession(sessionId: string, options: ForkOptions = {}): Promise<Session> {
+      const parent = await databaseService.retrieveSession(sessionId);
+      if (!parent) {
+        throw new Error('Session not found');
+      }
+
+      const tasks = await databaseService.listTasks(parent.id);
+      if (tasks.length === 0) {
+        throw new Error('Session has no plan to fork');
+      }
+
+      const forkIndex = options.fromTaskId ? tasks.findIndex((t) => t.id === options.fromTaskId) : tasks.length;
+      if (forkIndex === -1) {
+        throw new Error(`Task ${options.fromTaskId} is not part of session ${parent.id}`);
+      }
+
+      // Work completed before the fork point reaches the fork as the patches of those tasks
+      const unpatched = tasks.slice(0, forkIndex).find((task) => task.status === 'COMPLETED' && task.patch === null);
+      if (parent.repoUrl && !parent.dryRun && unpatched) {
+        throw new Error(`Task ${unpatched.id} has no recorded changes to fork from`);
+      }
+
+      let workspaceImage: string | null = null;
+      if (options.snapshotWorkspace) {
+        if (!parent.containerId) {
+          throw new Error('Session has no workspace to snapshot');
+        }
+        // The workspace may belong to a container this process has not created
+        const attachResult = await dockerService.attachContainer(parent.containerId, parent.id);
+        if (!attachResult.ok) {
+          throw new Error(`Failed to attach session workspace: ${attachResult.error.message}`);
+        }
+        const snapshotResult = await dockerService.snapshotContainer(parent.containerId, parent.id);
+        if (!snapshotResult.ok) {
+          throw new Error(`Failed to snapshot session workspace: ${snapshotResult.error.message}`);
+        }
+        workspaceImage = snapshotResult.value;
+      }
+
+      const fork = await databaseService.createSession({
+        deadline: parent.deadline,
+        repoUrl: parent.repoUrl,
+        prompt: parent.prompt,
+        rawAgentContext: parent.rawAgentContext,
+        rawRefinementHistory: parent.rawRefinementHistory,
+        parentSessionId: parent.id,
+        forkedFromTaskId: options.fromTaskId ?? null,
+        workspaceImage,
+      });
+
+      const inserted: Task[] = [];
+      for (const task of tasks) {
+        inserted.push(await databaseService.insertTask(fork.id, task.description, task.order));
+      }
+      const forkIds = new Map(tasks.map((task, index) => [task.id, inserted[index].id]));
+
+      const plan: Task[] = [];
+      for (const [index, task] of tasks.entries()) {
+        const dependencies = parseDependencies(task)
+          .filter((id) => forkIds.has(id))
+          .map((id) => forkIds.get(id)!);
+        const restarted = index >= forkIndex;
+        plan.push(
+          await databaseService.updateTask(inserted[index].id, {
+            title: task.title,
+            rawAcceptanceCriteria: task.rawAcceptanceCriteria,
+            rawLikelyFiles: task.rawLikelyFiles,
+            effort: task.effort,
+            rawDependencies: dependencies.length > 0 ? JSON.stringify(dependencies) : null,
+            // Obsolete tasks stay obsolete, since the reflection that retired them may precede the fork point
+            ...(restarted
+              ? { status: task.status === 'OBSOLETE' ? 'OBSOLETE' : 'PENDING' }
+              : {
+                  status: task.status,
+                  rawReactHistory: task.rawReactHistory,
+                  rawHistorySummary: task.rawHistorySummary,
+                  rawPreviousAttempts: task.rawPreviousAttempts,
+                  patch: task.patch,
+                }),
+          }),
+        );
+        if (!restarted) {
+          for (const subtask of await databaseService.listSubtasks(task.id)) {
+            await databaseService.insertSubtask(inserted[index].id, subtask.goal, {
+              status: subtask.status,
+              rawTools: subtask.rawTools,
+              rawBudget: subtask.rawBudget,
+              rawReactHistory: subtask.rawReactHistory,
+              result: subtask.result,
+            });
+          }
         }
+      }
+
+      // A fork of a confirmed plan can be executed right away; an unconfirmed one can still be refined
+      const confirmed = Boolean(parent.confirmedPlan);
+      return updateSession(fork.id, {
+        status: confirmed ? 'CONFIRMED' : 'AWAITING_CONFIRMATION',
+        rawPlan: JSON.stringify(plan),
+        rawPlanHistory: JSON.stringify(recordPlanVersion([], plan, `Forked from session ${parent.id}`)),
+        confirmedPlan: confirmed ? JSON.stringify(plan) : null,
+        confirmedAt: confirmed ? new Date() : null,
+      });
+    },
 
-        const pendingTasks = plan.filter((task) => task.status === 'PENDING');
+    /**
+     *
+     */
+    async getSessionLineage(sessionId: string): Promise<SessionLineage> {
+      let root = await databaseService.retrieveSession(sessionId);
+      if (!root) {
+        throw new Error('Session not found');
+      }
 
-        if (pendingTasks.length === 0) {
-          session = await databaseService.updateSession(session.id, { status: 'COMPLETED' });
+      const visited = new Set([root.id]);
+      while (root.parentSessionId && !visited.has(root.parentSessionId)) {
+        const parent = await databaseService.retrieveSession(root.parentSessionId);
+        if (!parent) {
           break;
         }
+        visited.add(parent.id);
+        root = parent;
+      }
+
+      /**
+       * Builds the lineage below a session
+       */
+      async function collectForks(session: Session): Promise<SessionLineage> {
+        const forks = await databaseService.listChildSessions(session.id);
+        return { session, forks: await Promise.all(forks.map(collectForks)) };
+      }
+
+      return collectForks(root);
+    },
+
+    /**
+     *
+     */
+    async confirmPlan(options: ConfirmationOptions): Promise<Task[]> {
+      const session = await databaseService.retrieveSession(options.sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      if (session.status !== 'AWAITING_CONFIRMATION') {
+        throw new Error('Session is not awaiting confirmation');
+      }
+
+      const plan: Task[] = session.rawPlan ? JSON.parse(session.rawPlan) : [];
+      if (plan.length === 0) {
+        throw new Error('Cannot confirm an empty plan');
+      }
+
+      // Lock the plan: execution runs from this snapshot, not from later edits to rawPlan
+      await updateSession(session.id, {
+        status: 'CONFIRMED',
+        confirmedPlan: JSON.stringify(plan),
+        confirmedAt: new Date(),
+      });
+
+      return plan;
+    },
+
+    /**
+     *
+     */
+    async executePlan(options: ExecutionOptions): Promise<ExecutionResult> {
+      let session = await databaseService.retrieveSession(options.sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      if (session.status !== 'CONFIRMED' || !session.confirmedPlan) {
+        throw new Error('Plan has not been confirmed');
+      }
+
+      session = await updateSession(session.id, {
+        status: 'EXECUTING',
+        rawTaskBudget: JSON.stringify({ ...DEFAULT_TASK_BUDGET, ...options.taskBudget }),
+        maxParallelTasks: options.maxParallelTasks ?? 1,
+        rawFailurePolicy: JSON.stringify({ ...DEFAULT_FAILURE_POLICY, ...options.failurePolicy }),
+        workspaceRetention: options.workspaceRetention ?? 'destroy',
+        rawSessionBudget: options.sessionBudget ? JSON.stringify(options.sessionBudget) : null,
+        rawVerificationPolicy: options.verification
+          ? JSON.stringify({ ...DEFAULT_VERIFICATION_POLICY, ...options.verification })
+          : null,
+        dryRun: options.dryRun ?? false,
+      });
+
+      const plan: Task[] = JSON.parse(session.confirmedPlan!);
+      try {
+        session = await provisionWorkspace(session, plan);
+      } catch (error) {
+        await updateSession(session.id, { status: 'FAILED' });
+        throw error;
+      }
+
+      return runExecutionLoop(session, plan);
+    },
+
+    /**
+     *
+     */
+    async resumeExecution(sessionId: string): Promise<ExecutionResult> {
+      let session = await databaseService.retrieveSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      if (session.status === 'PAUSED') {
+        session = await updateSession(session.id, { status: 'EXECUTING', controlRequest: null });
+      } else if (session.status !== 'EXECUTING') {
+        throw new Error('Session is not executing or paused');
+      }
+
+      return continueExecution(session);
+    },
+
+    /**
+     *
+     */
+    async approveToolCalls(options: ApprovalDecisionOptions): Promise<ExecutionResult> {
+      return decideApproval(options, 'APPROVED');
+    },
+
+    /**
+     *
+     */
+    async denyToolCalls(options: ApprovalDecisionOptions): Promise<ExecutionResult> {
+      return decideApproval(options, 'DENIED');
+    },
+
+    /**
+     *
+     */
+    async cancelExecution(sessionId: string): Promise<Session> {
+      const session = await databaseService.retrieveSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      if (FINISHED_STATUSES.includes(session.status)) {
+        throw new Error('Session has already finished');
+      }
+
+      // A run in this process stops at its next checkpoint and finishes the cancel itself
+      const running = runningExecutions.get(session.id);
+      if (session.status === 'EXECUTING' && running) {
+        const updated = await updateSession(session.id, { controlRequest: 'CANCEL' });
+        running.abort('CANCEL');
+        return updated;
+      }
+
+      if (session.status === 'EXECUTING') {
+        // No run here holds the session, which a crashed process may have left EXECUTING
+        // The request stays recorded, so a run still alive in another process stops at its next checkpoint
+        await updateSession(session.id, { controlRequest: 'CANCEL' });
+        for (const task of await databaseService.listTasks(session.id)) {
+          if (task.status === 'IN_PROGRESS') {
+            await databaseService.updateTask(task.id, { status: 'PENDING' });
+          }
+        }
+      }
 
-        const currentTask = pendingTasks[0];
-        await databaseService.updateTask(currentTask.id, { status: 'IN_PROGRESS' });
-        currentTask.status = 'IN_PROGRESS'; // Update local copy
+      await releaseContainers(session);
+      return updateSession(session.id, { status: 'CANCELLED', containerId: null, rawApprovalRequests: null });
+    },
+
+    /**
+     *
+     */
+    subscribe(listener: AgentEventListener): () => void {
+      return events.subscribe(listener);
+    },
 
-        const taskResult = await executeTaskWithReact(session, currentTask);
-        log.push(...taskResult.reactHistory);
+    /**
+     *
+     */
+    async pauseExecution(sessionId: string): Promise<Session> {
+      const session = await databaseService.retrieveSession(sessionId);
+      if (!session) {
+        throw new Error('Session not found');
+      }
 
-        await databaseService.updateTask(currentTask.id, { status: taskResult.status });
-        currentTask.status = taskResult.status; // Update local copy
+      if (session.status !== 'EXECUTING') {
+        throw new Error('Session is not executing');
       }
 
-      return { status: session.status, log };
+      const updated = await updateSession(session.id, { controlRequest: 'PAUSE' });
+      runningExecutions.get(session.id)?.abort('PAUSE');
+      return updated;
     },
   };
 }
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { detectLoop, describeLoop, fingerprintStep } from './loop-detection.js';
+import type { ReactHistoryItem } from './index.js';
+
+/**
+ * Builds a step calling a script with the given result
+ */
+function step(script: string, output: string, id = 'call_1'): ReactHistoryItem {
+  return {
+    reason: 'Run the script',
+    action: {
+      content: '',
+      toolCalls: [{ id, name: 'dockerManager.executeScript', arguments: { containerId: 'c1', script } }],
+    },
+    observation: [{ toolCallId: id, result: { ok: true, value: output } }],
+    reflection: { summary: 'No progress', is_task_complete: false, is_task_failed: false },
+  };
+}
+
+describe('Loop detection', () => {
+  it('should fingerprint steps by their calls and results, not their call IDs or key order', () => {
+    const reordered = step('ls', 'a.txt', 'call_9');
+    reordered.action.toolCalls[0].arguments = { script: 'ls', containerId: 'c1' };
+
+    expect(fingerprintStep(step('ls', 'a.txt'))).toBe(fingerprintStep(reordered));
+    expect(fingerprintStep(step('ls', 'a.txt'))).not.toBe(fingerprintStep(step('ls', 'b.txt')));
+  });
+
+  it('should detect a call repeated with the same result', () => {
+    expect(detectLoop([step('ls', 'a.txt'), step('ls', 'a.txt')])).toBeUndefined();
+
+    const loop = detectLoop([step('cat x', 'x'), step('ls', 'a.txt'), step('ls', 'a.txt'), step('ls', 'a.txt')]);
+
+    expect(loop).toMatchObject({
+      pattern: 'repetition',
+      period: 1,
+      repetitions: 3,
+      tools: ['dockerManager.executeScript'],
+      action: 'hint',
+    });
+    expect(describeLoop(loop!)).toContain('The last 3 steps repeated the same dockerManager.executeScript calls');
+  });
+
+  it('should detect steps oscillating between two calls', () => {
+    const history = [1, 2, 3].flatMap(() => [step('git stash', 'saved'), step('git stash pop', 'restored')]);
+
+    expect(detectLoop(history)).toMatchObject({ pattern: 'oscillation', period: 2, repetitions: 3 });
+  });
+
+  it('should fail once the loop continues after its hint', () => {
+    const history = [step('ls', 'a.txt'), step('ls', 'a.txt'), step('ls', 'a.txt')];
+    history[2].loopDetected = detectLoop(history);
+
+    const loop = detectLoop([...history, step('ls', 'a.txt')]);
+
+    expect(loop?.action).toBe('fail');
+    expect(describeLoop(loop!)).toMatch(/^LOOP_DETECTED: /);
+  });
+
+  it('should not report steps whose results change', () => {
+    expect(detectLoop([step('ls', '1'), step('ls', '2'), step('ls', '3'), step('ls', '4')])).toBeUndefined();
+  });
+});
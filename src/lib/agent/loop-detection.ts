@@ -0,0 +1,110 @@
+/**
+ * Detection of ReAct steps that repeat the same tool calls and observations
+ */
+
+import { createHash } from 'node:crypto';
+import type { ReactHistoryItem } from './index.js';
+
+/**
+ * Repeating pattern found at the end of a task's history, recorded on the step that completed it
+ * The first detection of a cycle hints the model; detecting the same cycle again fails the task
+ */
+export interface LoopDetection {
+  pattern: 'repetition' | 'oscillation';
+  period: number;
+  repetitions: number;
+  cycle: string[];
+  tools: string[];
+  action: 'hint' | 'fail';
+}
+
+/**
+ * Consecutive repetitions of a cycle that count as a loop
+ */
+export const LOOP_REPETITION_THRESHOLD = 3;
+
+/**
+ * Longest cycle, in steps, that is looked for; period 1 is a repetition, longer ones oscillate
+ */
+export const MAX_LOOP_PERIOD = 3;
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal arguments always serialize the same
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+/**
+ * Fingerprints a step by its tool calls and their results, ignoring call IDs; a step without tool calls by its content
+ */
+export function fingerprintStep(item: Pick<ReactHistoryItem, 'action' | 'observation'>): string {
+  const calls = item.action.toolCalls.map((toolCall) => ({
+    name: toolCall.name,
+    arguments: toolCall.arguments,
+    result: item.observation.find((o) => o.toolCallId === toolCall.id)?.result,
+  }));
+  const content = calls.length > 0 ? calls : item.action.content;
+  return createHash('sha256').update(canonicalJson(content)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Finds the shortest cycle of steps repeated at least LOOP_REPETITION_THRESHOLD times at the end of the history
+ * The returned detection hints the model, unless an earlier step already hinted about the same cycle
+ */
+export function detectLoop(history: ReactHistoryItem[]): LoopDetection | undefined {
+  const fingerprints = history.map(fingerprintStep);
+
+  for (let period = 1; period <= MAX_LOOP_PERIOD; period++) {
+    const cycle = fingerprints.slice(-period);
+    if (cycle.length < period || (period > 1 && new Set(cycle).size === 1)) {
+      continue;
+    }
+
+    let repetitions = 0;
+    while (
+      (repetitions + 1) * period <= fingerprints.length &&
+      fingerprints
+        .slice(fingerprints.length - (repetitions + 1) * period, fingerprints.length - repetitions * period)
+        .every((fingerprint, index) => fingerprint === cycle[index])
+    ) {
+      repetitions++;
+    }
+    if (repetitions < LOOP_REPETITION_THRESHOLD) {
+      continue;
+    }
+
+    const key = [...cycle].sort().join();
+    const hinted = history.some((item) => item.loopDetected && [...item.loopDetected.cycle].sort().join() === key);
+    return {
+      pattern: period === 1 ? 'repetition' : 'oscillation',
+      period,
+      repetitions,
+      cycle,
+      tools: [...new Set(history.slice(-period).flatMap((item) => item.action.toolCalls.map((t) => t.name)))],
+      action: hinted ? 'fail' : 'hint',
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Describes a detected loop for the model: a corrective hint, or the failure reason once the hint went unheeded
+ */
+export function describeLoop(loop: LoopDetection): string {
+  const calls =
+    loop.tools.length > 0 ? `the same ${loop.tools.join(', ')} calls with the same results` : 'the same step';
+  const what =
+    loop.pattern === 'repetition'
+      ? `The last ${loop.repetitions} steps repeated ${calls}.`
+      : `The last ${loop.period * loop.repetitions} steps alternated between ${loop.period} steps, ${loop.repetitions} times, with ${calls}.`;
+  if (loop.action === 'fail') {
+    return `LOOP_DETECTED: ${what} The loop continued after a corrective hint.`;
+  }
+  return `Loop detected: ${what} Repeating them will not make progress. Try a different approach, or report the task as failed if it cannot be done.`;
+}
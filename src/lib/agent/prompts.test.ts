@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createPromptRegistry, loadPromptOverrides, parsePromptOverride, DEFAULT_PROMPT_TEMPLATES } from './prompts.js';
+
+describe('Prompt registry', () => {
+  const directories: string[] = [];
+
+  afterEach(() => {
+    for (const directory of directories.splice(0)) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Creates a temporary override directory holding the given files
+   */
+  function createOverrideDirectory(files: Record<string, string>): string {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+    directories.push(directory);
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(directory, name), content);
+    }
+    return directory;
+  }
+
+  it('should render a built-in template with its variables and version', () => {
+    const prompts = createPromptRegistry();
+
+    const rendered = prompts.render('actStep', { reason: 'Read the README' });
+
+    expect(rendered.text).toBe('Next step: Read the README\nCarry out this step using the available tools.');
+    expect(rendered.version).toBe(DEFAULT_PROMPT_TEMPLATES.actStep.version);
+  });
+
+  it('should render an override in place of the built-in template', () => {
+    const prompts = createPromptRegistry({ actStep: { version: '2', text: 'Do this: {{reason}}' } });
+
+    expect(prompts.render('actStep', { reason: 'run the tests' })).toEqual({
+      text: 'Do this: run the tests',
+      version: '2',
+    });
+    expect(prompts.get('reason')).toEqual(DEFAULT_PROMPT_TEMPLATES.reason);
+  });
+
+  it('should reject an override using unknown variables', () => {
+    expect(() => createPromptRegistry({ actStep: { version: '2', text: '{{reason}} {{goal}} {{goal}}' } })).toThrow(
+      'Prompt template actStep uses unknown variables: goal',
+    );
+  });
+
+  it('should version an override by its front matter or a hash of its text', () => {
+    expect(parsePromptOverride('---\nversion: 3-terse\n---\nTask: {{task}}\n')).toEqual({
+      version: '3-terse',
+      text: 'Task: {{task}}',
+    });
+
+    const hashed = parsePromptOverride('Task: {{task}}\n');
+    expect(hashed.text).toBe('Task: {{task}}');
+    expect(hashed.version).toMatch(/^sha-[0-9a-f]{8}$/);
+    expect(parsePromptOverride('Task: {{task}}').version).toBe(hashed.version);
+  });
+
+  it('should load overrides with later directories taking precedence', () => {
+    const user = createOverrideDirectory({
+      'reason.md': '---\nversion: user\n---\nUser reason {{task}}',
+      'act.md': '---\nversion: user\n---\nUser act {{task}}',
+    });
+    const repository = createOverrideDirectory({
+      'reason.md': '---\nversion: repo\n---\nRepository reason {{task}}',
+      'unknown.md': 'Not a template',
+      'notes.txt': 'Ignored',
+    });
+
+    const overrides = loadPromptOverrides([user, path.join(user, 'missing'), repository]);
+
+    expect(overrides.templates).toEqual({
+      reason: { version: 'repo', text: 'Repository reason {{task}}' },
+      act: { version: 'user', text: 'User act {{task}}' },
+    });
+    expect(overrides.warnings).toEqual([expect.stringContaining('no template is named unknown')]);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Named, versioned prompt templates with typed variables
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+/**
+ * Variables of each template, substituted for {{name}} placeholders
+ */
+export interface PromptVariables {
+  plan: { request: string; repository: string; repositoryContext: string; agentContext: string };
+  planRepair: { planningPrompt: string; response: string; errors: string };
+  refine: { conversation: string; tasks: string; feedback: string };
+  reason: { context: string; task: string; summary: string; steps: string };
+  act: { context: string; task: string; summary: string };
+  actStep: { reason: string };
+  reflect: { task: string; plan: string; reason: string; action: string; observation: string };
+  replan: { taskId: string; task: string; failure: string; plan: string };
+  compact: { task: string; summary: string; range: string; steps: string };
+  review: { task: string; details: string; diff: string };
+}
+
+/**
+ * Name of a prompt template
+ */
+export type PromptName = keyof PromptVariables;
+
+/**
+ * Template text and the version that identifies it in recorded steps
+ */
+export interface PromptTemplate {
+  version: string;
+  text: string;
+}
+
+/**
+ * Versions of the templates that produced a recorded step, by template name
+ */
+export type PromptVersions = Partial<Record<PromptName, string>>;
+
+/**
+ * Rendered prompt with the version of the template it came from
+ */
+export interface RenderedPrompt {
+  text: string;
+  version: string;
+}
+
+/**
+ * Overrides loaded from override directories, with the files that were skipped and why
+ */
+export interface PromptOverrides {
+  templates: Partial<Record<PromptName, PromptTemplate>>;
+  warnings: string[];
+}
+
+/**
+ * Registry rendering prompts from the built-in templates and their overrides
+ */
+export interface PromptRegistry {
+  get(name: PromptName): PromptTemplate;
+  render<N extends PromptName>(name: N, variables: PromptVariables[N]): RenderedPrompt;
+}
+
+/**
+ * Variable names of each template, used to check overrides
+ */
+const PROMPT_VARIABLE_NAMES: { [N in PromptName]: Array<keyof PromptVariables[N]> } = {
+  plan: ['request', 'repository', 'repositoryContext', 'agentContext'],
+  planRepair: ['planningPrompt', 'response', 'errors'],
+  refine: ['conversation', 'tasks', 'feedback'],
+  reason: ['context', 'task', 'summary', 'steps'],
+  act: ['context', 'task', 'summary'],
+  actStep: ['reason'],
+  reflect: ['task', 'plan', 'reason', 'action', 'observation'],
+  replan: ['taskId', 'task', 'failure', 'plan'],
+  compact: ['task', 'summary', 'range', 'steps'],
+  review: ['task', 'details', 'diff'],
+};
+
+/**
+ * Built-in templates
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptName, PromptTemplate> = {
+  plan: {
+    version: '2',
+    text: `Generate a plan for: {{request}}
+
+Repository: {{repository}}
+{{repositoryContext}}
+{{agentContext}}Output a JSON object with the list of tasks:
+{"tasks": [{"title": "short title", "description": "specific actionable task", "acceptanceCriteria": ["observable condition that shows the task is done"], "files": ["path/likely/to/change"], "dependsOn": [0], "effort": "small"}]}
+dependsOn lists the 0-based indexes of earlier tasks this task needs; omit it for tasks that can start right away.
+effort is small, medium or large.
+
+Refer to the repository's real files and commands. Keep it concise.`,
+  },
+  planRepair: {
+    version: '2',
+    text: `{{planningPrompt}}
+
+Your previous response did not match the required format:
+{{response}}
+Validation errors:
+{{errors}}
+
+Reply with the corrected JSON object only.`,
+  },
+  refine: {
+    version: '2',
+    text: `{{conversation}}Current tasks:
+{{tasks}}
+Feedback: {{feedback}}
+
+Output a JSON object with the list of operations describing the revised plan, in the new task order:
+{"operations": [{"op": "keep", "taskId": "id"}, {"op": "edit", "taskId": "id", "description": "revised task"}, {"op": "insert", "description": "new task"}, {"op": "delete", "taskId": "id"}]}`,
+  },
+  reason: {
+    version: '1',
+    text: `{{context}}Task: {{task}}
+{{summary}}Previous steps:
+{{steps}}
+
+Decide the single next step towards completing the task. Reply with brief reasoning only, do not call tools.`,
+  },
+  act: {
+    version: '1',
+    text: `{{context}}Task: {{task}}
+{{summary}}Use tools to carry out each step.`,
+  },
+  actStep: {
+    version: '1',
+    text: `Next step: {{reason}}
+Carry out this step using the available tools.`,
+  },
+  reflect: {
+    version: '1',
+    text: `Task: {{task}}
+Plan:
+{{plan}}
+Reasoning: {{reason}}
+Action: {{action}}
+Observation: {{observation}}
+
+Reflect on the observation. Output JSON:
+{"summary": "what happened and what it means for the task", "is_task_complete": false, "is_task_failed": false, "failure_reason": "only when failed", "plan_modifications": []}
+
+Set is_task_complete only if the observations show the task goal is achieved.
+Set is_task_failed only for persistent errors that cannot be recovered from.
+Only if the observation shows the plan must change, list plan_modifications:
+{"type": "add", "description": "new task", "afterTaskId": "optional task id", "reason": "why"}
+{"type": "edit", "taskId": "task id", "description": "revised task", "reason": "why"}
+{"type": "obsolete", "taskId": "task id", "reason": "why"}`,
+  },
+  replan: {
+    version: '2',
+    text: `Task [{{taskId}}] failed: {{task}}
+Failure: {{failure}}
+Plan:
+{{plan}}
+
+Revise the remaining tasks so the goal is reached without the failed task. Output a JSON object with the list of plan modifications:
+{"modifications": [...]}
+Each modification is one of:
+{"type": "add", "description": "new task", "afterTaskId": "optional task id", "reason": "why"}
+{"type": "edit", "taskId": "task id", "description": "revised task", "reason": "why"}
+{"type": "obsolete", "taskId": "task id", "reason": "why"}
+Output {"modifications": []} if the remaining tasks still reach the goal.`,
+  },
+  compact: {
+    version: '1',
+    text: `Task: {{task}}
+Summary so far:
+{{summary}}
+Steps {{range}}:
+{{steps}}
+
+Update the summary so it replaces these steps. Keep every fact needed to continue the task: file paths, commands and their outcomes, errors, decisions and what remains to do. Reply with the summary only.`,
+  },
+  review: {
+    version: '1',
+    text: `Task: {{task}}
+{{details}}Workspace diff:
+{{diff}}
+
+Review whether the diff meets the acceptance criteria of the task. Output JSON:
+{"criteria_met": true, "feedback": "what is missing or wrong, or why the diff meets the task"}`,
+  },
+};
+
+/**
+ * Directory, relative to the user's home or the working directory, holding template overrides
+ */
+export const PROMPT_OVERRIDE_DIRECTORY = path.join('.builder-6', 'prompts');
+
+/**
+ * Placeholder syntax of template text
+ */
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Returns the override directories in order of precedence: the user-level one, then the one in the working directory
+ * Overrides are read where the CLI runs, not from the repository a session works on
+ */
+export function defaultPromptDirectories(cwd: string = process.cwd()): string[] {
+  return [path.join(os.homedir(), PROMPT_OVERRIDE_DIRECTORY), path.join(cwd, PROMPT_OVERRIDE_DIRECTORY)];
+}
+
+/**
+ * Parses an override file: optional front matter giving its version, then the template text
+ * Without a version, the override is versioned by a hash of its text
+ */
+export function parsePromptOverride(content: string): PromptTemplate {
+  const frontMatter = content.match(/^---\n([\s\S]*?)\n---\n?/);
+  const text = (frontMatter ? content.slice(frontMatter[0].length) : content).replace(/\n+$/, '');
+  const version = frontMatter?.[1].match(/^version:\s*(.+)$/m)?.[1].trim();
+  return { version: version ?? `sha-${createHash('sha256').update(text).digest('hex').slice(0, 8)}`, text };
+}
+
+/**
+ * Loads overrides from `<template name>.md` files; later directories take precedence and missing ones are skipped
+ * Files that do not name a template are ignored and listed in the warnings
+ */
+export function loadPromptOverrides(directories: string[]): PromptOverrides {
+  const overrides: PromptOverrides = { templates: {}, warnings: [] };
+  for (const directory of directories) {
+    if (!fs.existsSync(directory)) {
+      continue;
+    }
+    for (const file of fs.readdirSync(directory).filter((f) => f.endsWith('.md'))) {
+      const name = path.basename(file, '.md');
+      if (!(name in DEFAULT_PROMPT_TEMPLATES)) {
+        overrides.warnings.push(`Ignoring prompt override ${path.join(directory, file)}: no template is named ${name}`);
+        continue;
+      }
+      overrides.templates[name as PromptName] = parsePromptOverride(
+        fs.readFileSync(path.join(directory, file), 'utf8'),
+      );
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Creates a registry from the built-in templates, replaced by any overrides
+ * Throws when an override uses a placeholder its template has no variable for
+ */
+export function createPromptRegistry(overrides: Partial<Record<PromptName, PromptTemplate>> = {}): PromptRegistry {
+  const templates: Record<PromptName, PromptTemplate> = { ...DEFAULT_PROMPT_TEMPLATES, ...overrides };
+
+  for (const [name, template] of Object.entries(overrides) as Array<[PromptName, PromptTemplate]>) {
+    const known: string[] = PROMPT_VARIABLE_NAMES[name];
+    const unknown = [...template.text.matchAll(PLACEHOLDER_PATTERN)]
+      .map((match) => match[1])
+      .filter((variable) => !known.includes(variable));
+    if (unknown.length > 0) {
+      throw new Error(`Prompt template ${name} uses unknown variables: ${[...new Set(unknown)].join(', ')}`);
+    }
+  }
+
+  return {
+    /**
+     *
+     */
+    get(name: PromptName): PromptTemplate {
+      return templates[name];
+    },
+
+    /**
+     *
+     */
+    render<N extends PromptName>(name: N, variables: PromptVariables[N]): RenderedPrompt {
+      const template = templates[name];
+      const values = variables as Record<string, string>;
+      return {
+        text: template.text.replace(PLACEHOLDER_PATTERN, (_match, variable: string) => values[variable]),
+        version: template.version,
+      };
+    },
+  };
+}
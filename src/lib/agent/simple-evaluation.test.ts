@@ -66,6 +66,7 @@ describe('Agent Simple Evaluation', () => {
       shellCommand,
       webFetch,
       googleSearch,
+      approvalRules: [],
     });
 
     // Step 2: Planning Phase
@@ -106,7 +107,10 @@ describe('Agent Simple Evaluation', () => {
 
     // Queue responses for each task
     llmRunner.setToolCallResponses(toolCalls);
-    llmRunner.setResponses(['TASK_COMPLETE', 'TASK_COMPLETE', 'TASK_COMPLETE', 'TASK_COMPLETE', 'TASK_COMPLETE']);
+    const completeReflection = JSON.stringify({ summary: 'Done', is_task_complete: true, is_task_failed: false });
+    llmRunner.setResponses(toolCalls.flatMap((toolCall) => [`Run ${toolCall.name}`, completeReflection]));
+
+    await agentService.confirmPlan({ sessionId: plan[0].sessionId });
 
     const result = await agentService.executePlan({
       sessionId: plan[0].sessionId,
@@ -121,8 +125,8 @@ describe('Agent Simple Evaluation', () => {
     // Count tool usage
     const toolUsage: Record<string, number> = {};
     result.log.forEach((item) => {
-      if (item.toolCalls) {
-        item.toolCalls.forEach((toolCall) => {
+      if (item.action.toolCalls) {
+        item.action.toolCalls.forEach((toolCall) => {
           const tool = toolCall.name;
           toolUsage[tool] = (toolUsage[tool] || 0) + 1;
         });
@@ -185,6 +189,7 @@ describe('Agent Simple Evaluation', () => {
       shellCommand,
       webFetch,
       googleSearch,
+      approvalRules: [],
     });
 
     // Create a simple plan
@@ -203,9 +208,13 @@ describe('Agent Simple Evaluation', () => {
     };
 
     llmRunner.setToolCallResponses([toolCall]);
-    llmRunner.setResponses(['TASK_COMPLETE']);
+    llmRunner.setResponses([
+      'Run the failing command',
+      JSON.stringify({ summary: 'Command failed but is not required', is_task_complete: true, is_task_failed: false }),
+    ]);
 
     // Execute plan with failing tool
+    await agentService.confirmPlan({ sessionId: plan[0].sessionId });
     const result = await agentService.executePlan({ sessionId: plan[0].sessionId });
 
     // Check that error was handled gracefully
@@ -214,15 +223,11 @@ describe('Agent Simple Evaluation', () => {
     expect(result.log.length).toBeGreaterThan(0);
 
     // Verify error was captured in the log
-    const hasError = result.log.some(
-      (item) =>
-        item.observation &&
-        typeof item.observation === 'object' &&
-        Array.isArray(item.observation) &&
-        item.observation.some((obs: unknown) => {
-          const o = obs as { error?: unknown };
-          return o.error !== undefined;
-        }),
+    const hasError = result.log.some((item) =>
+      item.observation.some((obs) => {
+        const o = obs.result as { error?: unknown };
+        return o.error !== undefined;
+      }),
     );
     expect(hasError).toBe(true);
 
@@ -28,6 +28,17 @@ describe('Database Service E2E', () => {
     expect(session).toBeNull();
   });
 
+  it('should list the sessions forked from a session', async () => {
+    const parent = await databaseService.createSession();
+    const first = await databaseService.createSession({ parentSessionId: parent.id });
+    const second = await databaseService.createSession({ parentSessionId: parent.id, forkedFromTaskId: 'task-1' });
+    await databaseService.createSession({ parentSessionId: first.id });
+
+    const children = await databaseService.listChildSessions(parent.id);
+    expect(children.map((s) => s.id)).toEqual([first.id, second.id]);
+    expect(children[1].forkedFromTaskId).toBe('task-1');
+  });
+
   it('should insert tasks and maintain order', async () => {
     const session = await databaseService.createSession();
 
@@ -74,6 +85,40 @@ describe('Database Service E2E', () => {
     expect(result).toBeNull();
   });
 
+  it('should delete a task and remove it from the session plan', async () => {
+    const session = await databaseService.createSession();
+    const first = await databaseService.insertTask(session.id, 'Keep me');
+    const second = await databaseService.insertTask(session.id, 'Delete me');
+
+    await databaseService.deleteTask(second.id);
+
+    const tasks = await databaseService.listTasks(session.id);
+    expect(tasks.map((t) => t.id)).toEqual([first.id]);
+    const retrieved = await databaseService.retrieveSession(session.id);
+    expect(JSON.parse(retrieved!.rawPlan!).map((t: { id: string }) => t.id)).toEqual([first.id]);
+    await expect(databaseService.deleteTask(second.id)).rejects.toThrow(`Task ${second.id} not found`);
+  });
+
+  it('should record the subtasks of a task as child rows', async () => {
+    const session = await databaseService.createSession();
+    const task = await databaseService.insertTask(session.id, 'Delegating task');
+    const other = await databaseService.insertTask(session.id, 'Other task');
+
+    const subtask = await databaseService.insertSubtask(task.id, 'Find the config', { rawTools: '["web_fetch"]' });
+    await databaseService.insertSubtask(other.id, 'Unrelated goal');
+    expect(subtask).toMatchObject({ taskId: task.id, goal: 'Find the config', status: 'IN_PROGRESS' });
+
+    await databaseService.updateSubtask(subtask.id, { status: 'COMPLETED', result: 'Found it' });
+
+    const subtasks = await databaseService.listSubtasks(task.id);
+    expect(subtasks).toHaveLength(1);
+    expect(subtasks[0]).toMatchObject({ status: 'COMPLETED', result: 'Found it', rawTools: '["web_fetch"]' });
+
+    await databaseService.deleteTask(task.id);
+    expect(await databaseService.listSubtasks(task.id)).toEqual([]);
+    await expect(databaseService.insertSubtask('missing-task', 'Goal')).rejects.toThrow('Task missing-task not found');
+  });
+
   it('should handle session status updates', async () => {
     const session = await databaseService.createSession();
     expect(session.status).toBe('OPEN');
@@ -13,8 +13,23 @@ export type SessionStatus =
   | 'COMPLETED'
   | 'FAILED'
   | 'AWAITING_CONFIRMATION'
-  | 'DEADLINE_EXCEEDED';
-export type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+  | 'CONFIRMED'
+  | 'DEADLINE_EXCEEDED'
+  | 'CANCELLED'
+  | 'PAUSED'
+  | 'AWAITING_APPROVAL'
+  | 'BUDGET_EXCEEDED'
+  | 'DRY_RUN_COMPLETED';
+export type TaskStatus =
+  | 'PENDING'
+  | 'IN_PROGRESS'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'OBSOLETE'
+  | 'BUDGET_EXCEEDED'
+  | 'MERGE_CONFLICT'
+  | 'REPLANNED';
+export type TaskEffort = 'small' | 'medium' | 'large';
 
 export interface Session {
   id: string;
@@ -22,6 +37,29 @@ export interface Session {
   createdAt: Date;
   deadline?: Date | null;
   rawPlan?: string | null;
+  confirmedPlan?: string | null;
+  confirmedAt?: Date | null;
+  rawRefinementHistory?: string | null;
+  rawPlanHistory?: string | null;
+  rawAgentContext?: string | null;
+  containerId?: string | null;
+  controlRequest?: string | null;
+  rawTaskBudget?: string | null;
+  repoUrl?: string | null;
+  maxParallelTasks?: number | null;
+  rawApprovalRequests?: string | null;
+  rawFailurePolicy?: string | null;
+  branch?: string | null;
+  workspaceRetention?: string | null;
+  prompt?: string | null;
+  prUrl?: string | null;
+  rawUsage?: string | null;
+  rawSessionBudget?: string | null;
+  rawVerificationPolicy?: string | null;
+  parentSessionId?: string | null;
+  forkedFromTaskId?: string | null;
+  workspaceImage?: string | null;
+  dryRun?: boolean | null;
 }
 
 export interface Task {
@@ -33,6 +71,29 @@ export interface Task {
   createdAt: Date;
   updatedAt: Date;
   rawReactHistory?: string | null;
+  rawDependencies?: string | null;
+  patch?: string | null;
+  rawPendingStep?: string | null;
+  rawPreviousAttempts?: string | null;
+  rawHistorySummary?: string | null;
+  title?: string | null;
+  rawAcceptanceCriteria?: string | null;
+  rawLikelyFiles?: string | null;
+  effort?: TaskEffort | null;
+  rawWorkspace?: string | null;
+}
+
+export interface Subtask {
+  id: string;
+  taskId: string;
+  goal: string;
+  status: TaskStatus;
+  rawTools?: string | null;
+  rawBudget?: string | null;
+  rawReactHistory?: string | null;
+  result?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
@@ -41,11 +102,16 @@ export interface Task {
 export interface DatabaseService {
   createSession(initialData?: Partial<Session>): Promise<Session>;
   retrieveSession(sessionId: string): Promise<Session | null>;
+  listChildSessions(sessionId: string): Promise<Session[]>;
   updateSession(sessionId: string, data: Partial<Session>): Promise<Session>;
   listTasks(sessionId: string): Promise<Task[]>;
   insertTask(sessionId: string, description: string, order?: number): Promise<Task>;
   updateTask(taskId: string, data: Partial<Task>): Promise<Task>;
   updateTaskStatus(taskId: string, newStatus: TaskStatus): Promise<Task | null>;
+  deleteTask(taskId: string): Promise<void>;
+  listSubtasks(taskId: string): Promise<Subtask[]>;
+  insertSubtask(taskId: string, goal: string, data?: Partial<Subtask>): Promise<Subtask>;
+  updateSubtask(subtaskId: string, data: Partial<Subtask>): Promise<Subtask>;
 }
 
 /**
@@ -66,7 +132,7 @@ export function createDatabaseService(config: ApplicationConfig): DatabaseServic
      *
      */
     async createSession(initialData?: Partial<Session>): Promise<Session> {
-      const data: Prisma.SessionCreateInput = {
+      const data: Prisma.SessionUncheckedCreateInput = {
         status: 'OPEN',
         ...initialData,
       };
@@ -86,6 +152,21 @@ export function createDatabaseService(config: ApplicationConfig): DatabaseServic
       return session as Session | null;
     },
 
+    /**
+     *
+     */
+    async listChildSessions(sessionId: string): Promise<Session[]> {
+      const sessions = await prisma.session.findMany({
+        where: {
+          parentSessionId: sessionId,
+        },
+        orderBy: {
+          createdAt: 'asc',
+        },
+      });
+      return sessions as Session[];
+    },
+
     /**
      *
      */
@@ -195,6 +276,60 @@ export function createDatabaseService(config: ApplicationConfig): DatabaseServic
         return null;
       }
     },
+
+    /**
+     *
+     */
+    async deleteTask(taskId: string): Promise<void> {
+      await prisma.task.delete({
+        where: {
+          id: taskId,
+        },
+      });
+    },
+
+    /**
+     *
+     */
+    async listSubtasks(taskId: string): Promise<Subtask[]> {
+      const subtasks = await prisma.subtask.findMany({
+        where: {
+          taskId: taskId,
+        },
+        orderBy: {
+          createdAt: 'asc',
+        },
+      });
+      return subtasks as Subtask[];
+    },
+
+    /**
+     *
+     */
+    async insertSubtask(taskId: string, goal: string, data?: Partial<Subtask>): Promise<Subtask> {
+      const subtask = await prisma.subtask.create({
+        data: {
+          status: 'IN_PROGRESS',
+          ...data,
+          taskId,
+          goal,
+        },
+      });
+      return subtask as Subtask;
+    },
+
+    /**
+     *
+     */
+    async updateSubtask(subtaskId: string, data: Partial<Subtask>): Promise<Subtask> {
+      const subtask = await prisma.subtask.update({
+        where: {
+          id: subtaskId,
+        },
+        data,
+      });
+      return subtask as Subtask;
+    },
   };
 }
 
@@ -204,6 +339,7 @@ export function createDatabaseService(config: ApplicationConfig): DatabaseServic
 export interface TestDatabaseConfig {
   sessions?: Session[];
   tasks?: Task[];
+  subtasks?: Subtask[];
   autoGenerateIds?: boolean;
   simulateConstraints?: boolean;
 }
@@ -216,6 +352,7 @@ export interface TestDatabaseHelpers {
   addTask(task: Task): void;
   getAllSessions(): Session[];
   getAllTasks(): Task[];
+  getAllSubtasks(): Subtask[];
   reset(): void;
 }
 
@@ -225,10 +362,11 @@ export interface TestDatabaseHelpers {
  * @returns A DatabaseService with test helpers
  */
 export function createTestDatabaseService(config: TestDatabaseConfig = {}): DatabaseService & TestDatabaseHelpers {
-  const { sessions = [], tasks = [], autoGenerateIds = true, simulateConstraints = false } = config;
+  const { sessions = [], tasks = [], subtasks = [], autoGenerateIds = true, simulateConstraints = false } = config;
 
   const sessionStore = new Map(sessions.map((s) => [s.id, s]));
   const taskStore = new Map(tasks.map((t) => [t.id, t]));
+  const subtaskStore = new Map(subtasks.map((s) => [s.id, s]));
   let idCounter = 1000;
 
   /**
@@ -249,6 +387,29 @@ export function createTestDatabaseService(config: TestDatabaseConfig = {}): Data
         createdAt: new Date(),
         deadline: initialData?.deadline || null,
         rawPlan: initialData?.rawPlan || null,
+        confirmedPlan: initialData?.confirmedPlan || null,
+        confirmedAt: initialData?.confirmedAt || null,
+        rawRefinementHistory: initialData?.rawRefinementHistory || null,
+        rawPlanHistory: initialData?.rawPlanHistory || null,
+        rawAgentContext: initialData?.rawAgentContext || null,
+        containerId: initialData?.containerId || null,
+        controlRequest: initialData?.controlRequest || null,
+        rawTaskBudget: initialData?.rawTaskBudget || null,
+        repoUrl: initialData?.repoUrl || null,
+        maxParallelTasks: initialData?.maxParallelTasks || null,
+        rawApprovalRequests: initialData?.rawApprovalRequests || null,
+        rawFailurePolicy: initialData?.rawFailurePolicy || null,
+        branch: initialData?.branch || null,
+        workspaceRetention: initialData?.workspaceRetention || null,
+        prompt: initialData?.prompt || null,
+        prUrl: initialData?.prUrl || null,
+        rawUsage: initialData?.rawUsage || null,
+        rawSessionBudget: initialData?.rawSessionBudget || null,
+        rawVerificationPolicy: initialData?.rawVerificationPolicy || null,
+        parentSessionId: initialData?.parentSessionId || null,
+        forkedFromTaskId: initialData?.forkedFromTaskId || null,
+        workspaceImage: initialData?.workspaceImage || null,
+        dryRun: initialData?.dryRun || null,
       };
 
       if (simulateConstraints && sessionStore.has(session.id)) {
@@ -266,6 +427,15 @@ export function createTestDatabaseService(config: TestDatabaseConfig = {}): Data
       return sessionStore.get(sessionId) || null;
     },
 
+    /**
+     *
+     */
+    async listChildSessions(sessionId: string): Promise<Session[]> {
+      return Array.from(sessionStore.values())
+        .filter((s) => s.parentSessionId === sessionId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+
     /**
      *
      */
@@ -307,6 +477,16 @@ export function createTestDatabaseService(config: TestDatabaseConfig = {}): Data
         createdAt: new Date(),
         updatedAt: new Date(),
         rawReactHistory: null,
+        rawDependencies: null,
+        patch: null,
+        rawPendingStep: null,
+        rawPreviousAttempts: null,
+        rawHistorySummary: null,
+        title: null,
+        rawAcceptanceCriteria: null,
+        rawLikelyFiles: null,
+        effort: null,
+        rawWorkspace: null,
       };
 
       taskStore.set(task.id, task);
@@ -374,6 +554,78 @@ export function createTestDatabaseService(config: TestDatabaseConfig = {}): Data
       return updated;
     },
 
+    /**
+     *
+     */
+    async deleteTask(taskId: string): Promise<void> {
+      const task = taskStore.get(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      taskStore.delete(taskId);
+      for (const subtask of subtaskStore.values()) {
+        if (subtask.taskId === taskId) {
+          subtaskStore.delete(subtask.id);
+        }
+      }
+
+      // Remove from session's rawPlan if it exists
+      const session = sessionStore.get(task.sessionId);
+      if (session && session.rawPlan) {
+        const plan = JSON.parse(session.rawPlan);
+        session.rawPlan = JSON.stringify(plan.filter((t: Task) => t.id !== taskId));
+      }
+    },
+
+    /**
+     *
+     */
+    async listSubtasks(taskId: string): Promise<Subtask[]> {
+      return Array.from(subtaskStore.values())
+        .filter((s) => s.taskId === taskId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    },
+
+    /**
+     *
+     */
+    async insertSubtask(taskId: string, goal: string, data?: Partial<Subtask>): Promise<Subtask> {
+      if (!taskStore.has(taskId)) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      const subtask: Subtask = {
+        id: generateId('subtask'),
+        taskId,
+        goal,
+        status: data?.status || 'IN_PROGRESS',
+        rawTools: data?.rawTools || null,
+        rawBudget: data?.rawBudget || null,
+        rawReactHistory: data?.rawReactHistory || null,
+        result: data?.result || null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      subtaskStore.set(subtask.id, subtask);
+      return subtask;
+    },
+
+    /**
+     *
+     */
+    async updateSubtask(subtaskId: string, data: Partial<Subtask>): Promise<Subtask> {
+      const subtask = subtaskStore.get(subtaskId);
+      if (!subtask) {
+        throw new Error(`Subtask ${subtaskId} not found`);
+      }
+
+      const updated = { ...subtask, ...data, updatedAt: new Date() };
+      subtaskStore.set(subtaskId, updated);
+      return updated;
+    },
+
     // Test helpers
     /**
      *
@@ -403,14 +655,23 @@ export function createTestDatabaseService(config: TestDatabaseConfig = {}): Data
       return Array.from(taskStore.values());
     },
 
+    /**
+     *
+     */
+    getAllSubtasks(): Subtask[] {
+      return Array.from(subtaskStore.values());
+    },
+
     /**
      *
      */
     reset(): void {
       sessionStore.clear();
       taskStore.clear();
+      subtaskStore.clear();
       sessions.forEach((s) => sessionStore.set(s.id, s));
       tasks.forEach((t) => taskStore.set(t.id, t));
+      subtasks.forEach((s) => subtaskStore.set(s.id, s));
       idCounter = 1000;
     },
   };
@@ -125,7 +125,30 @@ exports.Prisma.SessionScalarFieldEnum = {
   status: 'status',
   createdAt: 'createdAt',
   deadline: 'deadline',
-  rawPlan: 'rawPlan'
+  rawPlan: 'rawPlan',
+  confirmedPlan: 'confirmedPlan',
+  confirmedAt: 'confirmedAt',
+  rawRefinementHistory: 'rawRefinementHistory',
+  rawPlanHistory: 'rawPlanHistory',
+  rawAgentContext: 'rawAgentContext',
+  containerId: 'containerId',
+  controlRequest: 'controlRequest',
+  rawTaskBudget: 'rawTaskBudget',
+  repoUrl: 'repoUrl',
+  maxParallelTasks: 'maxParallelTasks',
+  rawApprovalRequests: 'rawApprovalRequests',
+  rawFailurePolicy: 'rawFailurePolicy',
+  branch: 'branch',
+  workspaceRetention: 'workspaceRetention',
+  prompt: 'prompt',
+  prUrl: 'prUrl',
+  rawUsage: 'rawUsage',
+  rawSessionBudget: 'rawSessionBudget',
+  rawVerificationPolicy: 'rawVerificationPolicy',
+  parentSessionId: 'parentSessionId',
+  forkedFromTaskId: 'forkedFromTaskId',
+  workspaceImage: 'workspaceImage',
+  dryRun: 'dryRun'
 };
 
 exports.Prisma.TaskScalarFieldEnum = {
@@ -136,7 +159,30 @@ exports.Prisma.TaskScalarFieldEnum = {
   status: 'status',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  rawReactHistory: 'rawReactHistory'
+  rawReactHistory: 'rawReactHistory',
+  rawDependencies: 'rawDependencies',
+  patch: 'patch',
+  rawPendingStep: 'rawPendingStep',
+  rawPreviousAttempts: 'rawPreviousAttempts',
+  rawHistorySummary: 'rawHistorySummary',
+  title: 'title',
+  rawAcceptanceCriteria: 'rawAcceptanceCriteria',
+  rawLikelyFiles: 'rawLikelyFiles',
+  effort: 'effort',
+  rawWorkspace: 'rawWorkspace'
+};
+
+exports.Prisma.SubtaskScalarFieldEnum = {
+  id: 'id',
+  taskId: 'taskId',
+  goal: 'goal',
+  status: 'status',
+  rawTools: 'rawTools',
+  rawBudget: 'rawBudget',
+  rawReactHistory: 'rawReactHistory',
+  result: 'result',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
 };
 
 exports.Prisma.SortOrder = {
@@ -160,19 +206,30 @@ exports.SessionStatus = exports.$Enums.SessionStatus = {
   COMPLETED: 'COMPLETED',
   FAILED: 'FAILED',
   AWAITING_CONFIRMATION: 'AWAITING_CONFIRMATION',
-  DEADLINE_EXCEEDED: 'DEADLINE_EXCEEDED'
+  CONFIRMED: 'CONFIRMED',
+  DEADLINE_EXCEEDED: 'DEADLINE_EXCEEDED',
+  CANCELLED: 'CANCELLED',
+  PAUSED: 'PAUSED',
+  AWAITING_APPROVAL: 'AWAITING_APPROVAL',
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+  DRY_RUN_COMPLETED: 'DRY_RUN_COMPLETED'
 };
 
 exports.TaskStatus = exports.$Enums.TaskStatus = {
   PENDING: 'PENDING',
   IN_PROGRESS: 'IN_PROGRESS',
   COMPLETED: 'COMPLETED',
-  FAILED: 'FAILED'
+  FAILED: 'FAILED',
+  OBSOLETE: 'OBSOLETE',
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+  MERGE_CONFLICT: 'MERGE_CONFLICT',
+  REPLANNED: 'REPLANNED'
 };
 
 exports.Prisma.ModelName = {
   Session: 'Session',
-  Task: 'Task'
+  Task: 'Task',
+  Subtask: 'Subtask'
 };
 
 /**
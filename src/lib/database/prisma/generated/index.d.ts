@@ -21,6 +21,11 @@ export type Session = $Result.DefaultSelection<Prisma.$SessionPayload>;
  *
  */
 export type Task = $Result.DefaultSelection<Prisma.$TaskPayload>;
+/**
+ * Model Subtask
+ *
+ */
+export type Subtask = $Result.DefaultSelection<Prisma.$SubtaskPayload>;
 
 /**
  * Enums
@@ -33,7 +38,13 @@ export namespace $Enums {
     COMPLETED: 'COMPLETED';
     FAILED: 'FAILED';
     AWAITING_CONFIRMATION: 'AWAITING_CONFIRMATION';
+    CONFIRMED: 'CONFIRMED';
     DEADLINE_EXCEEDED: 'DEADLINE_EXCEEDED';
+    CANCELLED: 'CANCELLED';
+    PAUSED: 'PAUSED';
+    AWAITING_APPROVAL: 'AWAITING_APPROVAL';
+    BUDGET_EXCEEDED: 'BUDGET_EXCEEDED';
+    DRY_RUN_COMPLETED: 'DRY_RUN_COMPLETED';
   };
 
   export type SessionStatus = (typeof SessionStatus)[keyof typeof SessionStatus];
@@ -43,6 +54,10 @@ export namespace $Enums {
     IN_PROGRESS: 'IN_PROGRESS';
     COMPLETED: 'COMPLETED';
     FAILED: 'FAILED';
+    OBSOLETE: 'OBSOLETE';
+    BUDGET_EXCEEDED: 'BUDGET_EXCEEDED';
+    MERGE_CONFLICT: 'MERGE_CONFLICT';
+    REPLANNED: 'REPLANNED';
   };
 
   export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus];
@@ -219,6 +234,16 @@ export class PrismaClient<
    * ```
    */
   get task(): Prisma.TaskDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.subtask`: Exposes CRUD operations for the **Subtask** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Subtasks
+   * const subtasks = await prisma.subtask.findMany()
+   * ```
+   */
+  get subtask(): Prisma.SubtaskDelegate<ExtArgs, ClientOptions>;
 }
 
 export namespace Prisma {
@@ -637,6 +662,7 @@ export namespace Prisma {
   export const ModelName: {
     Session: 'Session';
     Task: 'Task';
+    Subtask: 'Subtask';
   };
 
   export type ModelName = (typeof ModelName)[keyof typeof ModelName];
@@ -658,7 +684,7 @@ export namespace Prisma {
       omit: GlobalOmitOptions;
     };
     meta: {
-      modelProps: 'session' | 'task';
+      modelProps: 'session' | 'task' | 'subtask';
       txIsolationLevel: Prisma.TransactionIsolationLevel;
     };
     model: {
@@ -810,6 +836,80 @@ export namespace Prisma {
           };
         };
       };
+      Subtask: {
+        payload: Prisma.$SubtaskPayload<ExtArgs>;
+        fields: Prisma.SubtaskFieldRefs;
+        operations: {
+          findUnique: {
+            args: Prisma.SubtaskFindUniqueArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload> | null;
+          };
+          findUniqueOrThrow: {
+            args: Prisma.SubtaskFindUniqueOrThrowArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>;
+          };
+          findFirst: {
+            args: Prisma.SubtaskFindFirstArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload> | null;
+          };
+          findFirstOrThrow: {
+            args: Prisma.SubtaskFindFirstOrThrowArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>;
+          };
+          findMany: {
+            args: Prisma.SubtaskFindManyArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>[];
+          };
+          create: {
+            args: Prisma.SubtaskCreateArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>;
+          };
+          createMany: {
+            args: Prisma.SubtaskCreateManyArgs<ExtArgs>;
+            result: BatchPayload;
+          };
+          createManyAndReturn: {
+            args: Prisma.SubtaskCreateManyAndReturnArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>[];
+          };
+          delete: {
+            args: Prisma.SubtaskDeleteArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>;
+          };
+          update: {
+            args: Prisma.SubtaskUpdateArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>;
+          };
+          deleteMany: {
+            args: Prisma.SubtaskDeleteManyArgs<ExtArgs>;
+            result: BatchPayload;
+          };
+          updateMany: {
+            args: Prisma.SubtaskUpdateManyArgs<ExtArgs>;
+            result: BatchPayload;
+          };
+          updateManyAndReturn: {
+            args: Prisma.SubtaskUpdateManyAndReturnArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>[];
+          };
+          upsert: {
+            args: Prisma.SubtaskUpsertArgs<ExtArgs>;
+            result: $Utils.PayloadToResult<Prisma.$SubtaskPayload>;
+          };
+          aggregate: {
+            args: Prisma.SubtaskAggregateArgs<ExtArgs>;
+            result: $Utils.Optional<AggregateSubtask>;
+          };
+          groupBy: {
+            args: Prisma.SubtaskGroupByArgs<ExtArgs>;
+            result: $Utils.Optional<SubtaskGroupByOutputType>[];
+          };
+          count: {
+            args: Prisma.SubtaskCountArgs<ExtArgs>;
+            result: $Utils.Optional<SubtaskCountAggregateOutputType> | number;
+          };
+        };
+      };
     };
   } & {
     other: {
@@ -904,6 +1004,7 @@ export namespace Prisma {
   export type GlobalOmitConfig = {
     session?: SessionOmit;
     task?: TaskOmit;
+    subtask?: SubtaskOmit;
   };
 
   /* Types for Logging */
@@ -997,10 +1098,12 @@ export namespace Prisma {
    */
 
   export type SessionCountOutputType = {
+    forks: number;
     tasks: number;
   };
 
   export type SessionCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    forks?: boolean | SessionCountOutputTypeCountForksArgs;
     tasks?: boolean | SessionCountOutputTypeCountTasksArgs;
   };
 
@@ -1015,6 +1118,14 @@ export namespace Prisma {
     select?: SessionCountOutputTypeSelect<ExtArgs> | null;
   };
 
+  /**
+   * SessionCountOutputType without action
+   */
+  export type SessionCountOutputTypeCountForksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    {
+      where?: SessionWhereInput;
+    };
+
   /**
    * SessionCountOutputType without action
    */
@@ -1023,6 +1134,37 @@ export namespace Prisma {
       where?: TaskWhereInput;
     };
 
+  /**
+   * Count Type TaskCountOutputType
+   */
+
+  export type TaskCountOutputType = {
+    subtasks: number;
+  };
+
+  export type TaskCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    subtasks?: boolean | TaskCountOutputTypeCountSubtasksArgs;
+  };
+
+  // Custom InputTypes
+  /**
+   * TaskCountOutputType without action
+   */
+  export type TaskCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TaskCountOutputType
+     */
+    select?: TaskCountOutputTypeSelect<ExtArgs> | null;
+  };
+
+  /**
+   * TaskCountOutputType without action
+   */
+  export type TaskCountOutputTypeCountSubtasksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    {
+      where?: SubtaskWhereInput;
+    };
+
   /**
    * Models
    */
@@ -1033,16 +1175,49 @@ export namespace Prisma {
 
   export type AggregateSession = {
     _count: SessionCountAggregateOutputType | null;
+    _avg: SessionAvgAggregateOutputType | null;
+    _sum: SessionSumAggregateOutputType | null;
     _min: SessionMinAggregateOutputType | null;
     _max: SessionMaxAggregateOutputType | null;
   };
 
+  export type SessionAvgAggregateOutputType = {
+    maxParallelTasks: number | null;
+  };
+
+  export type SessionSumAggregateOutputType = {
+    maxParallelTasks: number | null;
+  };
+
   export type SessionMinAggregateOutputType = {
     id: string | null;
     status: $Enums.SessionStatus | null;
     createdAt: Date | null;
     deadline: Date | null;
     rawPlan: string | null;
+    confirmedPlan: string | null;
+    confirmedAt: Date | null;
+    rawRefinementHistory: string | null;
+    rawPlanHistory: string | null;
+    rawAgentContext: string | null;
+    containerId: string | null;
+    controlRequest: string | null;
+    rawTaskBudget: string | null;
+    repoUrl: string | null;
+    maxParallelTasks: number | null;
+    rawApprovalRequests: string | null;
+    rawFailurePolicy: string | null;
+    branch: string | null;
+    workspaceRetention: string | null;
+    prompt: string | null;
+    prUrl: string | null;
+    rawUsage: string | null;
+    rawSessionBudget: string | null;
+    rawVerificationPolicy: string | null;
+    parentSessionId: string | null;
+    forkedFromTaskId: string | null;
+    workspaceImage: string | null;
+    dryRun: boolean | null;
   };
 
   export type SessionMaxAggregateOutputType = {
@@ -1051,6 +1226,29 @@ export namespace Prisma {
     createdAt: Date | null;
     deadline: Date | null;
     rawPlan: string | null;
+    confirmedPlan: string | null;
+    confirmedAt: Date | null;
+    rawRefinementHistory: string | null;
+    rawPlanHistory: string | null;
+    rawAgentContext: string | null;
+    containerId: string | null;
+    controlRequest: string | null;
+    rawTaskBudget: string | null;
+    repoUrl: string | null;
+    maxParallelTasks: number | null;
+    rawApprovalRequests: string | null;
+    rawFailurePolicy: string | null;
+    branch: string | null;
+    workspaceRetention: string | null;
+    prompt: string | null;
+    prUrl: string | null;
+    rawUsage: string | null;
+    rawSessionBudget: string | null;
+    rawVerificationPolicy: string | null;
+    parentSessionId: string | null;
+    forkedFromTaskId: string | null;
+    workspaceImage: string | null;
+    dryRun: boolean | null;
   };
 
   export type SessionCountAggregateOutputType = {
@@ -1059,15 +1257,69 @@ export namespace Prisma {
     createdAt: number;
     deadline: number;
     rawPlan: number;
+    confirmedPlan: number;
+    confirmedAt: number;
+    rawRefinementHistory: number;
+    rawPlanHistory: number;
+    rawAgentContext: number;
+    containerId: number;
+    controlRequest: number;
+    rawTaskBudget: number;
+    repoUrl: number;
+    maxParallelTasks: number;
+    rawApprovalRequests: number;
+    rawFailurePolicy: number;
+    branch: number;
+    workspaceRetention: number;
+    prompt: number;
+    prUrl: number;
+    rawUsage: number;
+    rawSessionBudget: number;
+    rawVerificationPolicy: number;
+    parentSessionId: number;
+    forkedFromTaskId: number;
+    workspaceImage: number;
+    dryRun: number;
     _all: number;
   };
 
+  export type SessionAvgAggregateInputType = {
+    maxParallelTasks?: true;
+  };
+
+  export type SessionSumAggregateInputType = {
+    maxParallelTasks?: true;
+  };
+
   export type SessionMinAggregateInputType = {
     id?: true;
     status?: true;
     createdAt?: true;
     deadline?: true;
     rawPlan?: true;
+    confirmedPlan?: true;
+    confirmedAt?: true;
+    rawRefinementHistory?: true;
+    rawPlanHistory?: true;
+    rawAgentContext?: true;
+    containerId?: true;
+    controlRequest?: true;
+    rawTaskBudget?: true;
+    repoUrl?: true;
+    maxParallelTasks?: true;
+    rawApprovalRequests?: true;
+    rawFailurePolicy?: true;
+    branch?: true;
+    workspaceRetention?: true;
+    prompt?: true;
+    prUrl?: true;
+    rawUsage?: true;
+    rawSessionBudget?: true;
+    rawVerificationPolicy?: true;
+    parentSessionId?: true;
+    forkedFromTaskId?: true;
+    workspaceImage?: true;
+    dryRun?: true;
   };
 
   export type SessionMaxAggregateInputType = {
@@ -1076,6 +1328,29 @@ export namespace Prisma {
     createdAt?: true;
     deadline?: true;
     rawPlan?: true;
+    confirmedPlan?: true;
+    confirmedAt?: true;
+    rawRefinementHistory?: true;
+    rawPlanHistory?: true;
+    rawAgentContext?: true;
+    containerId?: true;
+    controlRequest?: true;
+    rawTaskBudget?: true;
+    repoUrl?: true;
+    maxParallelTasks?: true;
+    rawApprovalRequests?: true;
+    rawFailurePolicy?: true;
+    branch?: true;
+    workspaceRetention?: true;
+    prompt?: true;
+    prUrl?: true;
+    rawUsage?: true;
+    rawSessionBudget?: true;
+    rawVerificationPolicy?: true;
+    parentSessionId?: true;
+    forkedFromTaskId?: true;
+    workspaceImage?: true;
+    dryRun?: true;
   };
 
   export type SessionCountAggregateInputType = {
@@ -1084,6 +1359,29 @@ export namespace Prisma {
     createdAt?: true;
     deadline?: true;
     rawPlan?: true;
+    confirmedPlan?: true;
+    confirmedAt?: true;
+    rawRefinementHistory?: true;
+    rawPlanHistory?: true;
+    rawAgentContext?: true;
+    containerId?: true;
+    controlRequest?: true;
+    rawTaskBudget?: true;
+    repoUrl?: true;
+    maxParallelTasks?: true;
+    rawApprovalRequests?: true;
+    rawFailurePolicy?: true;
+    branch?: true;
+    workspaceRetention?: true;
+    prompt?: true;
+    prUrl?: true;
+    rawUsage?: true;
+    rawSessionBudget?: true;
+    rawVerificationPolicy?: true;
+    parentSessionId?: true;
+    forkedFromTaskId?: true;
+    workspaceImage?: true;
+    dryRun?: true;
     _all?: true;
   };
 
@@ -1122,6 +1420,18 @@ export namespace Prisma {
      * Count returned Sessions
      **/
     _count?: true | SessionCountAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to average
+     **/
+    _avg?: SessionAvgAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to sum
+     **/
+    _sum?: SessionSumAggregateInputType;
     /**
      * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
      *
@@ -1152,6 +1462,8 @@ export namespace Prisma {
     take?: number;
     skip?: number;
     _count?: SessionCountAggregateInputType | true;
+    _avg?: SessionAvgAggregateInputType;
+    _sum?: SessionSumAggregateInputType;
     _min?: SessionMinAggregateInputType;
     _max?: SessionMaxAggregateInputType;
   };
@@ -1162,7 +1474,32 @@ export namespace Prisma {
     createdAt: Date;
     deadline: Date | null;
     rawPlan: string | null;
+    confirmedPlan: string | null;
+    confirmedAt: Date | null;
+    rawRefinementHistory: string | null;
+    rawPlanHistory: string | null;
+    rawAgentContext: string | null;
+    containerId: string | null;
+    controlRequest: string | null;
+    rawTaskBudget: string | null;
+    repoUrl: string | null;
+    maxParallelTasks: number | null;
+    rawApprovalRequests: string | null;
+    rawFailurePolicy: string | null;
+    branch: string | null;
+    workspaceRetention: string | null;
+    prompt: string | null;
+    prUrl: string | null;
+    rawUsage: string | null;
+    rawSessionBudget: string | null;
+    rawVerificationPolicy: string | null;
+    parentSessionId: string | null;
+    forkedFromTaskId: string | null;
+    workspaceImage: string | null;
+    dryRun: boolean | null;
     _count: SessionCountAggregateOutputType | null;
+    _avg: SessionAvgAggregateOutputType | null;
+    _sum: SessionSumAggregateOutputType | null;
     _min: SessionMinAggregateOutputType | null;
     _max: SessionMaxAggregateOutputType | null;
   };
@@ -1186,6 +1523,31 @@ export namespace Prisma {
       createdAt?: boolean;
       deadline?: boolean;
       rawPlan?: boolean;
+      confirmedPlan?: boolean;
+      confirmedAt?: boolean;
+      rawRefinementHistory?: boolean;
+      rawPlanHistory?: boolean;
+      rawAgentContext?: boolean;
+      containerId?: boolean;
+      controlRequest?: boolean;
+      rawTaskBudget?: boolean;
+      repoUrl?: boolean;
+      maxParallelTasks?: boolean;
+      rawApprovalRequests?: boolean;
+      rawFailurePolicy?: boolean;
+      branch?: boolean;
+      workspaceRetention?: boolean;
+      prompt?: boolean;
+      prUrl?: boolean;
+      rawUsage?: boolean;
+      rawSessionBudget?: boolean;
+      rawVerificationPolicy?: boolean;
+      parentSessionId?: boolean;
+      forkedFromTaskId?: boolean;
+      workspaceImage?: boolean;
+      dryRun?: boolean;
+      parentSession?: boolean | Session$parentSessionArgs<ExtArgs>;
+      forks?: boolean | Session$forksArgs<ExtArgs>;
       tasks?: boolean | Session$tasksArgs<ExtArgs>;
       _count?: boolean | SessionCountOutputTypeDefaultArgs<ExtArgs>;
     },
@@ -1200,6 +1562,30 @@ export namespace Prisma {
         createdAt?: boolean;
         deadline?: boolean;
         rawPlan?: boolean;
+        confirmedPlan?: boolean;
+        confirmedAt?: boolean;
+        rawRefinementHistory?: boolean;
+        rawPlanHistory?: boolean;
+        rawAgentContext?: boolean;
+        containerId?: boolean;
+        controlRequest?: boolean;
+        rawTaskBudget?: boolean;
+        repoUrl?: boolean;
+        maxParallelTasks?: boolean;
+        rawApprovalRequests?: boolean;
+        rawFailurePolicy?: boolean;
+        branch?: boolean;
+        workspaceRetention?: boolean;
+        prompt?: boolean;
+        prUrl?: boolean;
+        rawUsage?: boolean;
+        rawSessionBudget?: boolean;
+        rawVerificationPolicy?: boolean;
+        parentSessionId?: boolean;
+        forkedFromTaskId?: boolean;
+        workspaceImage?: boolean;
+        dryRun?: boolean;
+        parentSession?: boolean | Session$parentSessionArgs<ExtArgs>;
       },
       ExtArgs['result']['session']
     >;
@@ -1212,6 +1598,30 @@ export namespace Prisma {
         createdAt?: boolean;
         deadline?: boolean;
         rawPlan?: boolean;
+        confirmedPlan?: boolean;
+        confirmedAt?: boolean;
+        rawRefinementHistory?: boolean;
+        rawPlanHistory?: boolean;
+        rawAgentContext?: boolean;
+        containerId?: boolean;
+        controlRequest?: boolean;
+        rawTaskBudget?: boolean;
+        repoUrl?: boolean;
+        maxParallelTasks?: boolean;
+        rawApprovalRequests?: boolean;
+        rawFailurePolicy?: boolean;
+        branch?: boolean;
+        workspaceRetention?: boolean;
+        prompt?: boolean;
+        prUrl?: boolean;
+        rawUsage?: boolean;
+        rawSessionBudget?: boolean;
+        rawVerificationPolicy?: boolean;
+        parentSessionId?: boolean;
+        forkedFromTaskId?: boolean;
+        workspaceImage?: boolean;
+        dryRun?: boolean;
+        parentSession?: boolean | Session$parentSessionArgs<ExtArgs>;
       },
       ExtArgs['result']['session']
     >;
@@ -1222,24 +1632,80 @@ export namespace Prisma {
     createdAt?: boolean;
     deadline?: boolean;
     rawPlan?: boolean;
+    confirmedPlan?: boolean;
+    confirmedAt?: boolean;
+    rawRefinementHistory?: boolean;
+    rawPlanHistory?: boolean;
+    rawAgentContext?: boolean;
+    containerId?: boolean;
+    controlRequest?: boolean;
+    rawTaskBudget?: boolean;
+    repoUrl?: boolean;
+    maxParallelTasks?: boolean;
+    rawApprovalRequests?: boolean;
+    rawFailurePolicy?: boolean;
+    branch?: boolean;
+    workspaceRetention?: boolean;
+    prompt?: boolean;
+    prUrl?: boolean;
+    rawUsage?: boolean;
+    rawSessionBudget?: boolean;
+    rawVerificationPolicy?: boolean;
+    parentSessionId?: boolean;
+    forkedFromTaskId?: boolean;
+    workspaceImage?: boolean;
+    dryRun?: boolean;
   };
 
   export type SessionOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<
-    'id' | 'status' | 'createdAt' | 'deadline' | 'rawPlan',
+    | 'id'
+    | 'status'
+    | 'createdAt'
+    | 'deadline'
+    | 'rawPlan'
+    | 'confirmedPlan'
+    | 'confirmedAt'
+    | 'rawRefinementHistory'
+    | 'rawPlanHistory'
+    | 'rawAgentContext'
+    | 'containerId'
+    | 'controlRequest'
+    | 'rawTaskBudget'
+    | 'repoUrl'
+    | 'maxParallelTasks'
+    | 'rawApprovalRequests'
+    | 'rawFailurePolicy'
+    | 'branch'
+    | 'workspaceRetention'
+    | 'prompt'
+    | 'prUrl'
+    | 'rawUsage'
+    | 'rawSessionBudget'
+    | 'rawVerificationPolicy'
+    | 'parentSessionId'
+    | 'forkedFromTaskId'
+    | 'workspaceImage'
+    | 'dryRun',
     ExtArgs['result']['session']
   >;
   export type SessionInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    parentSession?: boolean | Session$parentSessionArgs<ExtArgs>;
+    forks?: boolean | Session$forksArgs<ExtArgs>;
     tasks?: boolean | Session$tasksArgs<ExtArgs>;
     _count?: boolean | SessionCountOutputTypeDefaultArgs<ExtArgs>;
   };
-  export type SessionIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    {};
-  export type SessionIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
-    {};
+  export type SessionIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    parentSession?: boolean | Session$parentSessionArgs<ExtArgs>;
+  };
+  export type SessionIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    parentSession?: boolean | Session$parentSessionArgs<ExtArgs>;
+  };
 
   export type $SessionPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     name: 'Session';
     objects: {
+      parentSession: Prisma.$SessionPayload<ExtArgs> | null;
+      forks: Prisma.$SessionPayload<ExtArgs>[];
       tasks: Prisma.$TaskPayload<ExtArgs>[];
     };
     scalars: $Extensions.GetPayloadResult<
@@ -1249,6 +1715,29 @@ export namespace Prisma {
         createdAt: Date;
         deadline: Date | null;
         rawPlan: string | null;
+        confirmedPlan: string | null;
+        confirmedAt: Date | null;
+        rawRefinementHistory: string | null;
+        rawPlanHistory: string | null;
+        rawAgentContext: string | null;
+        containerId: string | null;
+        controlRequest: string | null;
+        rawTaskBudget: string | null;
+        repoUrl: string | null;
+        maxParallelTasks: number | null;
+        rawApprovalRequests: string | null;
+        rawFailurePolicy: string | null;
+        branch: string | null;
+        workspaceRetention: string | null;
+        prompt: string | null;
+        prUrl: string | null;
+        rawUsage: string | null;
+        rawSessionBudget: string | null;
+        rawVerificationPolicy: string | null;
+        parentSessionId: string | null;
+        forkedFromTaskId: string | null;
+        workspaceImage: string | null;
+        dryRun: boolean | null;
       },
       ExtArgs['result']['session']
     >;
@@ -1725,6 +2214,19 @@ export namespace Prisma {
     GlobalOmitOptions = {},
   > extends Prisma.PrismaPromise<T> {
     readonly [Symbol.toStringTag]: 'PrismaPromise';
+    parentSession<T extends Session$parentSessionArgs<ExtArgs> = {}>(
+      args?: Subset<T, Session$parentSessionArgs<ExtArgs>>,
+    ): Prisma__SessionClient<
+      $Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions> | null,
+      null,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+    forks<T extends Session$forksArgs<ExtArgs> = {}>(
+      args?: Subset<T, Session$forksArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<
+      $Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions> | Null
+    >;
     tasks<T extends Session$tasksArgs<ExtArgs> = {}>(
       args?: Subset<T, Session$tasksArgs<ExtArgs>>,
     ): Prisma.PrismaPromise<$Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions> | Null>;
@@ -1764,6 +2266,29 @@ export namespace Prisma {
     readonly createdAt: FieldRef<'Session', 'DateTime'>;
     readonly deadline: FieldRef<'Session', 'DateTime'>;
     readonly rawPlan: FieldRef<'Session', 'String'>;
+    readonly confirmedPlan: FieldRef<'Session', 'String'>;
+    readonly confirmedAt: FieldRef<'Session', 'DateTime'>;
+    readonly rawRefinementHistory: FieldRef<'Session', 'String'>;
+    readonly rawPlanHistory: FieldRef<'Session', 'String'>;
+    readonly rawAgentContext: FieldRef<'Session', 'String'>;
+    readonly containerId: FieldRef<'Session', 'String'>;
+    readonly controlRequest: FieldRef<'Session', 'String'>;
+    readonly rawTaskBudget: FieldRef<'Session', 'String'>;
+    readonly repoUrl: FieldRef<'Session', 'String'>;
+    readonly maxParallelTasks: FieldRef<'Session', 'Int'>;
+    readonly rawApprovalRequests: FieldRef<'Session', 'String'>;
+    readonly rawFailurePolicy: FieldRef<'Session', 'String'>;
+    readonly branch: FieldRef<'Session', 'String'>;
+    readonly workspaceRetention: FieldRef<'Session', 'String'>;
+    readonly prompt: FieldRef<'Session', 'String'>;
+    readonly prUrl: FieldRef<'Session', 'String'>;
+    readonly rawUsage: FieldRef<'Session', 'String'>;
+    readonly rawSessionBudget: FieldRef<'Session', 'String'>;
+    readonly rawVerificationPolicy: FieldRef<'Session', 'String'>;
+    readonly parentSessionId: FieldRef<'Session', 'String'>;
+    readonly forkedFromTaskId: FieldRef<'Session', 'String'>;
+    readonly workspaceImage: FieldRef<'Session', 'String'>;
+    readonly dryRun: FieldRef<'Session', 'Boolean'>;
   }
 
   // Custom InputTypes
@@ -2012,6 +2537,10 @@ export namespace Prisma {
      */
     data: SessionCreateManyInput | SessionCreateManyInput[];
     skipDuplicates?: boolean;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SessionIncludeCreateManyAndReturn<ExtArgs> | null;
   };
 
   /**
@@ -2082,6 +2611,10 @@ export namespace Prisma {
      * Limit how many Sessions to update.
      */
     limit?: number;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SessionIncludeUpdateManyAndReturn<ExtArgs> | null;
   };
 
   /**
@@ -2150,6 +2683,49 @@ export namespace Prisma {
     limit?: number;
   };
 
+  /**
+   * Session.parentSession
+   */
+  export type Session$parentSessionArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Session
+     */
+    select?: SessionSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Session
+     */
+    omit?: SessionOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SessionInclude<ExtArgs> | null;
+    where?: SessionWhereInput;
+  };
+
+  /**
+   * Session.forks
+   */
+  export type Session$forksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Session
+     */
+    select?: SessionSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Session
+     */
+    omit?: SessionOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SessionInclude<ExtArgs> | null;
+    where?: SessionWhereInput;
+    orderBy?: SessionOrderByWithRelationInput | SessionOrderByWithRelationInput[];
+    cursor?: SessionWhereUniqueInput;
+    take?: number;
+    skip?: number;
+    distinct?: SessionScalarFieldEnum | SessionScalarFieldEnum[];
+  };
+
   /**
    * Session.tasks
    */
@@ -2221,6 +2797,16 @@ export namespace Prisma {
     createdAt: Date | null;
     updatedAt: Date | null;
     rawReactHistory: string | null;
+    rawDependencies: string | null;
+    patch: string | null;
+    rawPendingStep: string | null;
+    rawPreviousAttempts: string | null;
+    rawHistorySummary: string | null;
+    title: string | null;
+    rawAcceptanceCriteria: string | null;
+    rawLikelyFiles: string | null;
+    effort: string | null;
+    rawWorkspace: string | null;
   };
 
   export type TaskMaxAggregateOutputType = {
@@ -2232,6 +2818,16 @@ export namespace Prisma {
     createdAt: Date | null;
     updatedAt: Date | null;
     rawReactHistory: string | null;
+    rawDependencies: string | null;
+    patch: string | null;
+    rawPendingStep: string | null;
+    rawPreviousAttempts: string | null;
+    rawHistorySummary: string | null;
+    title: string | null;
+    rawAcceptanceCriteria: string | null;
+    rawLikelyFiles: string | null;
+    effort: string | null;
+    rawWorkspace: string | null;
   };
 
   export type TaskCountAggregateOutputType = {
@@ -2243,6 +2839,16 @@ export namespace Prisma {
     createdAt: number;
     updatedAt: number;
     rawReactHistory: number;
+    rawDependencies: number;
+    patch: number;
+    rawPendingStep: number;
+    rawPreviousAttempts: number;
+    rawHistorySummary: number;
+    title: number;
+    rawAcceptanceCriteria: number;
+    rawLikelyFiles: number;
+    effort: number;
+    rawWorkspace: number;
     _all: number;
   };
 
@@ -2263,6 +2869,16 @@ export namespace Prisma {
     createdAt?: true;
     updatedAt?: true;
     rawReactHistory?: true;
+    rawDependencies?: true;
+    patch?: true;
+    rawPendingStep?: true;
+    rawPreviousAttempts?: true;
+    rawHistorySummary?: true;
+    title?: true;
+    rawAcceptanceCriteria?: true;
+    rawLikelyFiles?: true;
+    effort?: true;
+    rawWorkspace?: true;
   };
 
   export type TaskMaxAggregateInputType = {
@@ -2274,6 +2890,16 @@ export namespace Prisma {
     createdAt?: true;
     updatedAt?: true;
     rawReactHistory?: true;
+    rawDependencies?: true;
+    patch?: true;
+    rawPendingStep?: true;
+    rawPreviousAttempts?: true;
+    rawHistorySummary?: true;
+    title?: true;
+    rawAcceptanceCriteria?: true;
+    rawLikelyFiles?: true;
+    effort?: true;
+    rawWorkspace?: true;
   };
 
   export type TaskCountAggregateInputType = {
@@ -2285,6 +2911,16 @@ export namespace Prisma {
     createdAt?: true;
     updatedAt?: true;
     rawReactHistory?: true;
+    rawDependencies?: true;
+    patch?: true;
+    rawPendingStep?: true;
+    rawPreviousAttempts?: true;
+    rawHistorySummary?: true;
+    title?: true;
+    rawAcceptanceCriteria?: true;
+    rawLikelyFiles?: true;
+    effort?: true;
+    rawWorkspace?: true;
     _all?: true;
   };
 
@@ -2380,6 +3016,16 @@ export namespace Prisma {
     createdAt: Date;
     updatedAt: Date;
     rawReactHistory: string | null;
+    rawDependencies: string | null;
+    patch: string | null;
+    rawPendingStep: string | null;
+    rawPreviousAttempts: string | null;
+    rawHistorySummary: string | null;
+    title: string | null;
+    rawAcceptanceCriteria: string | null;
+    rawLikelyFiles: string | null;
+    effort: string | null;
+    rawWorkspace: string | null;
     _count: TaskCountAggregateOutputType | null;
     _avg: TaskAvgAggregateOutputType | null;
     _sum: TaskSumAggregateOutputType | null;
@@ -2409,7 +3055,19 @@ export namespace Prisma {
       createdAt?: boolean;
       updatedAt?: boolean;
       rawReactHistory?: boolean;
+      rawDependencies?: boolean;
+      patch?: boolean;
+      rawPendingStep?: boolean;
+      rawPreviousAttempts?: boolean;
+      rawHistorySummary?: boolean;
+      title?: boolean;
+      rawAcceptanceCriteria?: boolean;
+      rawLikelyFiles?: boolean;
+      effort?: boolean;
+      rawWorkspace?: boolean;
       session?: boolean | SessionDefaultArgs<ExtArgs>;
+      subtasks?: boolean | Task$subtasksArgs<ExtArgs>;
+      _count?: boolean | TaskCountOutputTypeDefaultArgs<ExtArgs>;
     },
     ExtArgs['result']['task']
   >;
@@ -2425,6 +3083,16 @@ export namespace Prisma {
         createdAt?: boolean;
         updatedAt?: boolean;
         rawReactHistory?: boolean;
+        rawDependencies?: boolean;
+        patch?: boolean;
+        rawPendingStep?: boolean;
+        rawPreviousAttempts?: boolean;
+        rawHistorySummary?: boolean;
+        title?: boolean;
+        rawAcceptanceCriteria?: boolean;
+        rawLikelyFiles?: boolean;
+        effort?: boolean;
+        rawWorkspace?: boolean;
         session?: boolean | SessionDefaultArgs<ExtArgs>;
       },
       ExtArgs['result']['task']
@@ -2441,6 +3109,16 @@ export namespace Prisma {
         createdAt?: boolean;
         updatedAt?: boolean;
         rawReactHistory?: boolean;
+        rawDependencies?: boolean;
+        patch?: boolean;
+        rawPendingStep?: boolean;
+        rawPreviousAttempts?: boolean;
+        rawHistorySummary?: boolean;
+        title?: boolean;
+        rawAcceptanceCriteria?: boolean;
+        rawLikelyFiles?: boolean;
+        effort?: boolean;
+        rawWorkspace?: boolean;
         session?: boolean | SessionDefaultArgs<ExtArgs>;
       },
       ExtArgs['result']['task']
@@ -2455,14 +3133,43 @@ export namespace Prisma {
     createdAt?: boolean;
     updatedAt?: boolean;
     rawReactHistory?: boolean;
+    rawDependencies?: boolean;
+    patch?: boolean;
+    rawPendingStep?: boolean;
+    rawPreviousAttempts?: boolean;
+    rawHistorySummary?: boolean;
+    title?: boolean;
+    rawAcceptanceCriteria?: boolean;
+    rawLikelyFiles?: boolean;
+    effort?: boolean;
+    rawWorkspace?: boolean;
   };
 
   export type TaskOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<
-    'id' | 'sessionId' | 'order' | 'description' | 'status' | 'createdAt' | 'updatedAt' | 'rawReactHistory',
+    | 'id'
+    | 'sessionId'
+    | 'order'
+    | 'description'
+    | 'status'
+    | 'createdAt'
+    | 'updatedAt'
+    | 'rawReactHistory'
+    | 'rawDependencies'
+    | 'patch'
+    | 'rawPendingStep'
+    | 'rawPreviousAttempts'
+    | 'rawHistorySummary'
+    | 'title'
+    | 'rawAcceptanceCriteria'
+    | 'rawLikelyFiles'
+    | 'effort'
+    | 'rawWorkspace',
     ExtArgs['result']['task']
   >;
   export type TaskInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     session?: boolean | SessionDefaultArgs<ExtArgs>;
+    subtasks?: boolean | Task$subtasksArgs<ExtArgs>;
+    _count?: boolean | TaskCountOutputTypeDefaultArgs<ExtArgs>;
   };
   export type TaskIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     session?: boolean | SessionDefaultArgs<ExtArgs>;
@@ -2475,6 +3182,7 @@ export namespace Prisma {
     name: 'Task';
     objects: {
       session: Prisma.$SessionPayload<ExtArgs>;
+      subtasks: Prisma.$SubtaskPayload<ExtArgs>[];
     };
     scalars: $Extensions.GetPayloadResult<
       {
@@ -2486,6 +3194,16 @@ export namespace Prisma {
         createdAt: Date;
         updatedAt: Date;
         rawReactHistory: string | null;
+        rawDependencies: string | null;
+        patch: string | null;
+        rawPendingStep: string | null;
+        rawPreviousAttempts: string | null;
+        rawHistorySummary: string | null;
+        title: string | null;
+        rawAcceptanceCriteria: string | null;
+        rawLikelyFiles: string | null;
+        effort: string | null;
+        rawWorkspace: string | null;
       },
       ExtArgs['result']['task']
     >;
@@ -2970,6 +3688,11 @@ export namespace Prisma {
       ExtArgs,
       GlobalOmitOptions
     >;
+    subtasks<T extends Task$subtasksArgs<ExtArgs> = {}>(
+      args?: Subset<T, Task$subtasksArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions> | Null
+    >;
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -3009,6 +3732,16 @@ export namespace Prisma {
     readonly createdAt: FieldRef<'Task', 'DateTime'>;
     readonly updatedAt: FieldRef<'Task', 'DateTime'>;
     readonly rawReactHistory: FieldRef<'Task', 'String'>;
+    readonly rawDependencies: FieldRef<'Task', 'String'>;
+    readonly patch: FieldRef<'Task', 'String'>;
+    readonly rawPendingStep: FieldRef<'Task', 'String'>;
+    readonly rawPreviousAttempts: FieldRef<'Task', 'String'>;
+    readonly rawHistorySummary: FieldRef<'Task', 'String'>;
+    readonly title: FieldRef<'Task', 'String'>;
+    readonly rawAcceptanceCriteria: FieldRef<'Task', 'String'>;
+    readonly rawLikelyFiles: FieldRef<'Task', 'String'>;
+    readonly effort: FieldRef<'Task', 'String'>;
+    readonly rawWorkspace: FieldRef<'Task', 'String'>;
   }
 
   // Custom InputTypes
@@ -3403,6 +4136,30 @@ export namespace Prisma {
     limit?: number;
   };
 
+  /**
+   * Task.subtasks
+   */
+  export type Task$subtasksArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    where?: SubtaskWhereInput;
+    orderBy?: SubtaskOrderByWithRelationInput | SubtaskOrderByWithRelationInput[];
+    cursor?: SubtaskWhereUniqueInput;
+    take?: number;
+    skip?: number;
+    distinct?: SubtaskScalarFieldEnum | SubtaskScalarFieldEnum[];
+  };
+
   /**
    * Task without action
    */
@@ -3422,83 +4179,1361 @@ export namespace Prisma {
   };
 
   /**
-   * Enums
+   * Model Subtask
    */
 
-  export const TransactionIsolationLevel: {
-    ReadUncommitted: 'ReadUncommitted';
-    ReadCommitted: 'ReadCommitted';
-    RepeatableRead: 'RepeatableRead';
-    Serializable: 'Serializable';
+  export type AggregateSubtask = {
+    _count: SubtaskCountAggregateOutputType | null;
+    _min: SubtaskMinAggregateOutputType | null;
+    _max: SubtaskMaxAggregateOutputType | null;
   };
 
-  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel];
-
-  export const SessionScalarFieldEnum: {
-    id: 'id';
-    status: 'status';
-    createdAt: 'createdAt';
-    deadline: 'deadline';
-    rawPlan: 'rawPlan';
+  export type SubtaskMinAggregateOutputType = {
+    id: string | null;
+    taskId: string | null;
+    goal: string | null;
+    status: $Enums.TaskStatus | null;
+    rawTools: string | null;
+    rawBudget: string | null;
+    rawReactHistory: string | null;
+    result: string | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
   };
 
-  export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum];
-
-  export const TaskScalarFieldEnum: {
-    id: 'id';
-    sessionId: 'sessionId';
-    order: 'order';
-    description: 'description';
-    status: 'status';
-    createdAt: 'createdAt';
-    updatedAt: 'updatedAt';
-    rawReactHistory: 'rawReactHistory';
+  export type SubtaskMaxAggregateOutputType = {
+    id: string | null;
+    taskId: string | null;
+    goal: string | null;
+    status: $Enums.TaskStatus | null;
+    rawTools: string | null;
+    rawBudget: string | null;
+    rawReactHistory: string | null;
+    result: string | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
   };
 
-  export type TaskScalarFieldEnum = (typeof TaskScalarFieldEnum)[keyof typeof TaskScalarFieldEnum];
-
-  export const SortOrder: {
-    asc: 'asc';
-    desc: 'desc';
+  export type SubtaskCountAggregateOutputType = {
+    id: number;
+    taskId: number;
+    goal: number;
+    status: number;
+    rawTools: number;
+    rawBudget: number;
+    rawReactHistory: number;
+    result: number;
+    createdAt: number;
+    updatedAt: number;
+    _all: number;
   };
 
-  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder];
-
-  export const QueryMode: {
-    default: 'default';
-    insensitive: 'insensitive';
+  export type SubtaskMinAggregateInputType = {
+    id?: true;
+    taskId?: true;
+    goal?: true;
+    status?: true;
+    rawTools?: true;
+    rawBudget?: true;
+    rawReactHistory?: true;
+    result?: true;
+    createdAt?: true;
+    updatedAt?: true;
   };
 
-  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode];
-
-  export const NullsOrder: {
-    first: 'first';
-    last: 'last';
+  export type SubtaskMaxAggregateInputType = {
+    id?: true;
+    taskId?: true;
+    goal?: true;
+    status?: true;
+    rawTools?: true;
+    rawBudget?: true;
+    rawReactHistory?: true;
+    result?: true;
+    createdAt?: true;
+    updatedAt?: true;
   };
 
-  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder];
-
-  /**
-   * Field references
-   */
-
-  /**
-   * Reference to a field of type 'String'
-   */
-  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>;
-
-  /**
-   * Reference to a field of type 'String[]'
-   */
-  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>;
-
-  /**
-   * Reference to a field of type 'SessionStatus'
-   */
-  export type EnumSessionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SessionStatus'>;
+  export type SubtaskCountAggregateInputType = {
+    id?: true;
+    taskId?: true;
+    goal?: true;
+    status?: true;
+    rawTools?: true;
+    rawBudget?: true;
+    rawReactHistory?: true;
+    result?: true;
+    createdAt?: true;
+    updatedAt?: true;
+    _all?: true;
+  };
 
-  /**
-   * Reference to a field of type 'SessionStatus[]'
+  export type SubtaskAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Subtask to aggregate.
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of Subtasks to fetch.
+     */
+    orderBy?: SubtaskOrderByWithRelationInput | SubtaskOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the start position
+     */
+    cursor?: SubtaskWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` Subtasks from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` Subtasks.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Count returned Subtasks
+     **/
+    _count?: true | SubtaskCountAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the minimum value
+     **/
+    _min?: SubtaskMinAggregateInputType;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     *
+     * Select which fields to find the maximum value
+     **/
+    _max?: SubtaskMaxAggregateInputType;
+  };
+
+  export type GetSubtaskAggregateType<T extends SubtaskAggregateArgs> = {
+    [P in keyof T & keyof AggregateSubtask]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateSubtask[P]>
+      : GetScalarType<T[P], AggregateSubtask[P]>;
+  };
+
+  export type SubtaskGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: SubtaskWhereInput;
+    orderBy?: SubtaskOrderByWithAggregationInput | SubtaskOrderByWithAggregationInput[];
+    by: SubtaskScalarFieldEnum[] | SubtaskScalarFieldEnum;
+    having?: SubtaskScalarWhereWithAggregatesInput;
+    take?: number;
+    skip?: number;
+    _count?: SubtaskCountAggregateInputType | true;
+    _min?: SubtaskMinAggregateInputType;
+    _max?: SubtaskMaxAggregateInputType;
+  };
+
+  export type SubtaskGroupByOutputType = {
+    id: string;
+    taskId: string;
+    goal: string;
+    status: $Enums.TaskStatus;
+    rawTools: string | null;
+    rawBudget: string | null;
+    rawReactHistory: string | null;
+    result: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    _count: SubtaskCountAggregateOutputType | null;
+    _min: SubtaskMinAggregateOutputType | null;
+    _max: SubtaskMaxAggregateOutputType | null;
+  };
+
+  type GetSubtaskGroupByPayload<T extends SubtaskGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<SubtaskGroupByOutputType, T['by']> & {
+        [P in keyof T & keyof SubtaskGroupByOutputType]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : GetScalarType<T[P], SubtaskGroupByOutputType[P]>
+          : GetScalarType<T[P], SubtaskGroupByOutputType[P]>;
+      }
+    >
+  >;
+
+  export type SubtaskSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<
+    {
+      id?: boolean;
+      taskId?: boolean;
+      goal?: boolean;
+      status?: boolean;
+      rawTools?: boolean;
+      rawBudget?: boolean;
+      rawReactHistory?: boolean;
+      result?: boolean;
+      createdAt?: boolean;
+      updatedAt?: boolean;
+      task?: boolean | TaskDefaultArgs<ExtArgs>;
+    },
+    ExtArgs['result']['subtask']
+  >;
+
+  export type SubtaskSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    $Extensions.GetSelect<
+      {
+        id?: boolean;
+        taskId?: boolean;
+        goal?: boolean;
+        status?: boolean;
+        rawTools?: boolean;
+        rawBudget?: boolean;
+        rawReactHistory?: boolean;
+        result?: boolean;
+        createdAt?: boolean;
+        updatedAt?: boolean;
+        task?: boolean | TaskDefaultArgs<ExtArgs>;
+      },
+      ExtArgs['result']['subtask']
+    >;
+
+  export type SubtaskSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    $Extensions.GetSelect<
+      {
+        id?: boolean;
+        taskId?: boolean;
+        goal?: boolean;
+        status?: boolean;
+        rawTools?: boolean;
+        rawBudget?: boolean;
+        rawReactHistory?: boolean;
+        result?: boolean;
+        createdAt?: boolean;
+        updatedAt?: boolean;
+        task?: boolean | TaskDefaultArgs<ExtArgs>;
+      },
+      ExtArgs['result']['subtask']
+    >;
+
+  export type SubtaskSelectScalar = {
+    id?: boolean;
+    taskId?: boolean;
+    goal?: boolean;
+    status?: boolean;
+    rawTools?: boolean;
+    rawBudget?: boolean;
+    rawReactHistory?: boolean;
+    result?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+  };
+
+  export type SubtaskOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<
+    | 'id'
+    | 'taskId'
+    | 'goal'
+    | 'status'
+    | 'rawTools'
+    | 'rawBudget'
+    | 'rawReactHistory'
+    | 'result'
+    | 'createdAt'
+    | 'updatedAt',
+    ExtArgs['result']['subtask']
+  >;
+  export type SubtaskInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    task?: boolean | TaskDefaultArgs<ExtArgs>;
+  };
+  export type SubtaskIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    task?: boolean | TaskDefaultArgs<ExtArgs>;
+  };
+  export type SubtaskIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    task?: boolean | TaskDefaultArgs<ExtArgs>;
+  };
+
+  export type $SubtaskPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: 'Subtask';
+    objects: {
+      task: Prisma.$TaskPayload<ExtArgs>;
+    };
+    scalars: $Extensions.GetPayloadResult<
+      {
+        id: string;
+        taskId: string;
+        goal: string;
+        status: $Enums.TaskStatus;
+        rawTools: string | null;
+        rawBudget: string | null;
+        rawReactHistory: string | null;
+        result: string | null;
+        createdAt: Date;
+        updatedAt: Date;
+      },
+      ExtArgs['result']['subtask']
+    >;
+    composites: {};
+  };
+
+  type SubtaskGetPayload<S extends boolean | null | undefined | SubtaskDefaultArgs> = $Result.GetResult<
+    Prisma.$SubtaskPayload,
+    S
+  >;
+
+  type SubtaskCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = Omit<
+    SubtaskFindManyArgs,
+    'select' | 'include' | 'distinct' | 'omit'
+  > & {
+    select?: SubtaskCountAggregateInputType | true;
+  };
+
+  export interface SubtaskDelegate<
+    ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs,
+    GlobalOmitOptions = {},
+  > {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Subtask']; meta: { name: 'Subtask' } };
+    /**
+     * Find zero or one Subtask that matches the filter.
+     * @param {SubtaskFindUniqueArgs} args - Arguments to find a Subtask
+     * @example
+     * // Get one Subtask
+     * const subtask = await prisma.subtask.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends SubtaskFindUniqueArgs>(
+      args: SelectSubset<T, SubtaskFindUniqueArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'findUnique', GlobalOmitOptions> | null,
+      null,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Find one Subtask that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {SubtaskFindUniqueOrThrowArgs} args - Arguments to find a Subtask
+     * @example
+     * // Get one Subtask
+     * const subtask = await prisma.subtask.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends SubtaskFindUniqueOrThrowArgs>(
+      args: SelectSubset<T, SubtaskFindUniqueOrThrowArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions>,
+      never,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Find the first Subtask that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskFindFirstArgs} args - Arguments to find a Subtask
+     * @example
+     * // Get one Subtask
+     * const subtask = await prisma.subtask.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends SubtaskFindFirstArgs>(
+      args?: SelectSubset<T, SubtaskFindFirstArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'findFirst', GlobalOmitOptions> | null,
+      null,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Find the first Subtask that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskFindFirstOrThrowArgs} args - Arguments to find a Subtask
+     * @example
+     * // Get one Subtask
+     * const subtask = await prisma.subtask.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends SubtaskFindFirstOrThrowArgs>(
+      args?: SelectSubset<T, SubtaskFindFirstOrThrowArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'findFirstOrThrow', GlobalOmitOptions>,
+      never,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Find zero or more Subtasks that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Subtasks
+     * const subtasks = await prisma.subtask.findMany()
+     *
+     * // Get first 10 Subtasks
+     * const subtasks = await prisma.subtask.findMany({ take: 10 })
+     *
+     * // Only select the `id`
+     * const subtaskWithIdOnly = await prisma.subtask.findMany({ select: { id: true } })
+     *
+     */
+    findMany<T extends SubtaskFindManyArgs>(
+      args?: SelectSubset<T, SubtaskFindManyArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<$Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'findMany', GlobalOmitOptions>>;
+
+    /**
+     * Create a Subtask.
+     * @param {SubtaskCreateArgs} args - Arguments to create a Subtask.
+     * @example
+     * // Create one Subtask
+     * const Subtask = await prisma.subtask.create({
+     *   data: {
+     *     // ... data to create a Subtask
+     *   }
+     * })
+     *
+     */
+    create<T extends SubtaskCreateArgs>(
+      args: SelectSubset<T, SubtaskCreateArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'create', GlobalOmitOptions>,
+      never,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Create many Subtasks.
+     * @param {SubtaskCreateManyArgs} args - Arguments to create many Subtasks.
+     * @example
+     * // Create many Subtasks
+     * const subtask = await prisma.subtask.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     */
+    createMany<T extends SubtaskCreateManyArgs>(
+      args?: SelectSubset<T, SubtaskCreateManyArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<BatchPayload>;
+
+    /**
+     * Create many Subtasks and returns the data saved in the database.
+     * @param {SubtaskCreateManyAndReturnArgs} args - Arguments to create many Subtasks.
+     * @example
+     * // Create many Subtasks
+     * const subtask = await prisma.subtask.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Create many Subtasks and only return the `id`
+     * const subtaskWithIdOnly = await prisma.subtask.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    createManyAndReturn<T extends SubtaskCreateManyAndReturnArgs>(
+      args?: SelectSubset<T, SubtaskCreateManyAndReturnArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'createManyAndReturn', GlobalOmitOptions>
+    >;
+
+    /**
+     * Delete a Subtask.
+     * @param {SubtaskDeleteArgs} args - Arguments to delete one Subtask.
+     * @example
+     * // Delete one Subtask
+     * const Subtask = await prisma.subtask.delete({
+     *   where: {
+     *     // ... filter to delete one Subtask
+     *   }
+     * })
+     *
+     */
+    delete<T extends SubtaskDeleteArgs>(
+      args: SelectSubset<T, SubtaskDeleteArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'delete', GlobalOmitOptions>,
+      never,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Update one Subtask.
+     * @param {SubtaskUpdateArgs} args - Arguments to update one Subtask.
+     * @example
+     * // Update one Subtask
+     * const subtask = await prisma.subtask.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    update<T extends SubtaskUpdateArgs>(
+      args: SelectSubset<T, SubtaskUpdateArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'update', GlobalOmitOptions>,
+      never,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Delete zero or more Subtasks.
+     * @param {SubtaskDeleteManyArgs} args - Arguments to filter Subtasks to delete.
+     * @example
+     * // Delete a few Subtasks
+     * const { count } = await prisma.subtask.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     *
+     */
+    deleteMany<T extends SubtaskDeleteManyArgs>(
+      args?: SelectSubset<T, SubtaskDeleteManyArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<BatchPayload>;
+
+    /**
+     * Update zero or more Subtasks.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Subtasks
+     * const subtask = await prisma.subtask.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     *
+     */
+    updateMany<T extends SubtaskUpdateManyArgs>(
+      args: SelectSubset<T, SubtaskUpdateManyArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<BatchPayload>;
+
+    /**
+     * Update zero or more Subtasks and returns the data updated in the database.
+     * @param {SubtaskUpdateManyAndReturnArgs} args - Arguments to update many Subtasks.
+     * @example
+     * // Update many Subtasks
+     * const subtask = await prisma.subtask.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *
+     * // Update zero or more Subtasks and only return the `id`
+     * const subtaskWithIdOnly = await prisma.subtask.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     *
+     */
+    updateManyAndReturn<T extends SubtaskUpdateManyAndReturnArgs>(
+      args: SelectSubset<T, SubtaskUpdateManyAndReturnArgs<ExtArgs>>,
+    ): Prisma.PrismaPromise<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'updateManyAndReturn', GlobalOmitOptions>
+    >;
+
+    /**
+     * Create or update one Subtask.
+     * @param {SubtaskUpsertArgs} args - Arguments to update or create a Subtask.
+     * @example
+     * // Update or create a Subtask
+     * const subtask = await prisma.subtask.upsert({
+     *   create: {
+     *     // ... data to create a Subtask
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Subtask we want to update
+     *   }
+     * })
+     */
+    upsert<T extends SubtaskUpsertArgs>(
+      args: SelectSubset<T, SubtaskUpsertArgs<ExtArgs>>,
+    ): Prisma__SubtaskClient<
+      $Result.GetResult<Prisma.$SubtaskPayload<ExtArgs>, T, 'upsert', GlobalOmitOptions>,
+      never,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+
+    /**
+     * Count the number of Subtasks.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskCountArgs} args - Arguments to filter Subtasks to count.
+     * @example
+     * // Count the number of Subtasks
+     * const count = await prisma.subtask.count({
+     *   where: {
+     *     // ... the filter for the Subtasks we want to count
+     *   }
+     * })
+     **/
+    count<T extends SubtaskCountArgs>(
+      args?: Subset<T, SubtaskCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], SubtaskCountAggregateOutputType>
+        : number
+    >;
+
+    /**
+     * Allows you to perform aggregations operations on a Subtask.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+     **/
+    aggregate<T extends SubtaskAggregateArgs>(
+      args: Subset<T, SubtaskAggregateArgs>,
+    ): Prisma.PrismaPromise<GetSubtaskAggregateType<T>>;
+
+    /**
+     * Group by Subtask.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {SubtaskGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     *
+     **/
+    groupBy<
+      T extends SubtaskGroupByArgs,
+      HasSelectOrTake extends Or<Extends<'skip', Keys<T>>, Extends<'take', Keys<T>>>,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: SubtaskGroupByArgs['orderBy'] }
+        : { orderBy?: SubtaskGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+        ? `Error: "by" must not be empty.`
+        : HavingValid extends False
+          ? {
+              [P in HavingFields]: P extends ByFields
+                ? never
+                : P extends string
+                  ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                  : [Error, 'Field ', P, ` in "having" needs to be provided in "by"`];
+            }[HavingFields]
+          : 'take' extends Keys<T>
+            ? 'orderBy' extends Keys<T>
+              ? ByValid extends True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "take", you also need to provide "orderBy"'
+            : 'skip' extends Keys<T>
+              ? 'orderBy' extends Keys<T>
+                ? ByValid extends True
+                  ? {}
+                  : {
+                      [P in OrderFields]: P extends ByFields
+                        ? never
+                        : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                    }[OrderFields]
+                : 'Error: If you provide "skip", you also need to provide "orderBy"'
+              : ByValid extends True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields],
+    >(
+      args: SubsetIntersection<T, SubtaskGroupByArgs, OrderByArg> & InputErrors,
+    ): {} extends InputErrors ? GetSubtaskGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+    /**
+     * Fields of the Subtask model
+     */
+    readonly fields: SubtaskFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Subtask.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__SubtaskClient<
+    T,
+    Null = never,
+    ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs,
+    GlobalOmitOptions = {},
+  > extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: 'PrismaPromise';
+    task<T extends TaskDefaultArgs<ExtArgs> = {}>(
+      args?: Subset<T, TaskDefaultArgs<ExtArgs>>,
+    ): Prisma__TaskClient<
+      $Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, 'findUniqueOrThrow', GlobalOmitOptions> | Null,
+      Null,
+      ExtArgs,
+      GlobalOmitOptions
+    >;
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(
+      onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+      onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null,
+    ): $Utils.JsPromise<TResult1 | TResult2>;
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(
+      onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null,
+    ): $Utils.JsPromise<T | TResult>;
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>;
+  }
+
+  /**
+   * Fields of the Subtask model
+   */
+  interface SubtaskFieldRefs {
+    readonly id: FieldRef<'Subtask', 'String'>;
+    readonly taskId: FieldRef<'Subtask', 'String'>;
+    readonly goal: FieldRef<'Subtask', 'String'>;
+    readonly status: FieldRef<'Subtask', 'TaskStatus'>;
+    readonly rawTools: FieldRef<'Subtask', 'String'>;
+    readonly rawBudget: FieldRef<'Subtask', 'String'>;
+    readonly rawReactHistory: FieldRef<'Subtask', 'String'>;
+    readonly result: FieldRef<'Subtask', 'String'>;
+    readonly createdAt: FieldRef<'Subtask', 'DateTime'>;
+    readonly updatedAt: FieldRef<'Subtask', 'DateTime'>;
+  }
+
+  // Custom InputTypes
+  /**
+   * Subtask findUnique
+   */
+  export type SubtaskFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * Filter, which Subtask to fetch.
+     */
+    where: SubtaskWhereUniqueInput;
+  };
+
+  /**
+   * Subtask findUniqueOrThrow
+   */
+  export type SubtaskFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * Filter, which Subtask to fetch.
+     */
+    where: SubtaskWhereUniqueInput;
+  };
+
+  /**
+   * Subtask findFirst
+   */
+  export type SubtaskFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * Filter, which Subtask to fetch.
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of Subtasks to fetch.
+     */
+    orderBy?: SubtaskOrderByWithRelationInput | SubtaskOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for Subtasks.
+     */
+    cursor?: SubtaskWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` Subtasks from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` Subtasks.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of Subtasks.
+     */
+    distinct?: SubtaskScalarFieldEnum | SubtaskScalarFieldEnum[];
+  };
+
+  /**
+   * Subtask findFirstOrThrow
+   */
+  export type SubtaskFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * Filter, which Subtask to fetch.
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of Subtasks to fetch.
+     */
+    orderBy?: SubtaskOrderByWithRelationInput | SubtaskOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for searching for Subtasks.
+     */
+    cursor?: SubtaskWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` Subtasks from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` Subtasks.
+     */
+    skip?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     *
+     * Filter by unique combinations of Subtasks.
+     */
+    distinct?: SubtaskScalarFieldEnum | SubtaskScalarFieldEnum[];
+  };
+
+  /**
+   * Subtask findMany
+   */
+  export type SubtaskFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * Filter, which Subtasks to fetch.
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     *
+     * Determine the order of Subtasks to fetch.
+     */
+    orderBy?: SubtaskOrderByWithRelationInput | SubtaskOrderByWithRelationInput[];
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     *
+     * Sets the position for listing Subtasks.
+     */
+    cursor?: SubtaskWhereUniqueInput;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Take `±n` Subtasks from the position of the cursor.
+     */
+    take?: number;
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     *
+     * Skip the first `n` Subtasks.
+     */
+    skip?: number;
+    distinct?: SubtaskScalarFieldEnum | SubtaskScalarFieldEnum[];
+  };
+
+  /**
+   * Subtask create
+   */
+  export type SubtaskCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * The data needed to create a Subtask.
+     */
+    data: XOR<SubtaskCreateInput, SubtaskUncheckedCreateInput>;
+  };
+
+  /**
+   * Subtask createMany
+   */
+  export type SubtaskCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Subtasks.
+     */
+    data: SubtaskCreateManyInput | SubtaskCreateManyInput[];
+    skipDuplicates?: boolean;
+  };
+
+  /**
+   * Subtask createManyAndReturn
+   */
+  export type SubtaskCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelectCreateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * The data used to create many Subtasks.
+     */
+    data: SubtaskCreateManyInput | SubtaskCreateManyInput[];
+    skipDuplicates?: boolean;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskIncludeCreateManyAndReturn<ExtArgs> | null;
+  };
+
+  /**
+   * Subtask update
+   */
+  export type SubtaskUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * The data needed to update a Subtask.
+     */
+    data: XOR<SubtaskUpdateInput, SubtaskUncheckedUpdateInput>;
+    /**
+     * Choose, which Subtask to update.
+     */
+    where: SubtaskWhereUniqueInput;
+  };
+
+  /**
+   * Subtask updateMany
+   */
+  export type SubtaskUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Subtasks.
+     */
+    data: XOR<SubtaskUpdateManyMutationInput, SubtaskUncheckedUpdateManyInput>;
+    /**
+     * Filter which Subtasks to update
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * Limit how many Subtasks to update.
+     */
+    limit?: number;
+  };
+
+  /**
+   * Subtask updateManyAndReturn
+   */
+  export type SubtaskUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelectUpdateManyAndReturn<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * The data used to update Subtasks.
+     */
+    data: XOR<SubtaskUpdateManyMutationInput, SubtaskUncheckedUpdateManyInput>;
+    /**
+     * Filter which Subtasks to update
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * Limit how many Subtasks to update.
+     */
+    limit?: number;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskIncludeUpdateManyAndReturn<ExtArgs> | null;
+  };
+
+  /**
+   * Subtask upsert
+   */
+  export type SubtaskUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * The filter to search for the Subtask to update in case it exists.
+     */
+    where: SubtaskWhereUniqueInput;
+    /**
+     * In case the Subtask found by the `where` argument doesn't exist, create a new Subtask with this data.
+     */
+    create: XOR<SubtaskCreateInput, SubtaskUncheckedCreateInput>;
+    /**
+     * In case the Subtask was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<SubtaskUpdateInput, SubtaskUncheckedUpdateInput>;
+  };
+
+  /**
+   * Subtask delete
+   */
+  export type SubtaskDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+    /**
+     * Filter which Subtask to delete.
+     */
+    where: SubtaskWhereUniqueInput;
+  };
+
+  /**
+   * Subtask deleteMany
+   */
+  export type SubtaskDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Subtasks to delete
+     */
+    where?: SubtaskWhereInput;
+    /**
+     * Limit how many Subtasks to delete.
+     */
+    limit?: number;
+  };
+
+  /**
+   * Subtask without action
+   */
+  export type SubtaskDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Subtask
+     */
+    select?: SubtaskSelect<ExtArgs> | null;
+    /**
+     * Omit specific fields from the Subtask
+     */
+    omit?: SubtaskOmit<ExtArgs> | null;
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: SubtaskInclude<ExtArgs> | null;
+  };
+
+  /**
+   * Enums
+   */
+
+  export const TransactionIsolationLevel: {
+    ReadUncommitted: 'ReadUncommitted';
+    ReadCommitted: 'ReadCommitted';
+    RepeatableRead: 'RepeatableRead';
+    Serializable: 'Serializable';
+  };
+
+  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel];
+
+  export const SessionScalarFieldEnum: {
+    id: 'id';
+    status: 'status';
+    createdAt: 'createdAt';
+    deadline: 'deadline';
+    rawPlan: 'rawPlan';
+    confirmedPlan: 'confirmedPlan';
+    confirmedAt: 'confirmedAt';
+    rawRefinementHistory: 'rawRefinementHistory';
+    rawPlanHistory: 'rawPlanHistory';
+    rawAgentContext: 'rawAgentContext';
+    containerId: 'containerId';
+    controlRequest: 'controlRequest';
+    rawTaskBudget: 'rawTaskBudget';
+    repoUrl: 'repoUrl';
+    maxParallelTasks: 'maxParallelTasks';
+    rawApprovalRequests: 'rawApprovalRequests';
+    rawFailurePolicy: 'rawFailurePolicy';
+    branch: 'branch';
+    workspaceRetention: 'workspaceRetention';
+    prompt: 'prompt';
+    prUrl: 'prUrl';
+    rawUsage: 'rawUsage';
+    rawSessionBudget: 'rawSessionBudget';
+    rawVerificationPolicy: 'rawVerificationPolicy';
+    parentSessionId: 'parentSessionId';
+    forkedFromTaskId: 'forkedFromTaskId';
+    workspaceImage: 'workspaceImage';
+    dryRun: 'dryRun';
+  };
+
+  export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum];
+
+  export const TaskScalarFieldEnum: {
+    id: 'id';
+    sessionId: 'sessionId';
+    order: 'order';
+    description: 'description';
+    status: 'status';
+    createdAt: 'createdAt';
+    updatedAt: 'updatedAt';
+    rawReactHistory: 'rawReactHistory';
+    rawDependencies: 'rawDependencies';
+    patch: 'patch';
+    rawPendingStep: 'rawPendingStep';
+    rawPreviousAttempts: 'rawPreviousAttempts';
+    rawHistorySummary: 'rawHistorySummary';
+    title: 'title';
+    rawAcceptanceCriteria: 'rawAcceptanceCriteria';
+    rawLikelyFiles: 'rawLikelyFiles';
+    effort: 'effort';
+    rawWorkspace: 'rawWorkspace';
+  };
+
+  export type TaskScalarFieldEnum = (typeof TaskScalarFieldEnum)[keyof typeof TaskScalarFieldEnum];
+
+  export const SubtaskScalarFieldEnum: {
+    id: 'id';
+    taskId: 'taskId';
+    goal: 'goal';
+    status: 'status';
+    rawTools: 'rawTools';
+    rawBudget: 'rawBudget';
+    rawReactHistory: 'rawReactHistory';
+    result: 'result';
+    createdAt: 'createdAt';
+    updatedAt: 'updatedAt';
+  };
+
+  export type SubtaskScalarFieldEnum = (typeof SubtaskScalarFieldEnum)[keyof typeof SubtaskScalarFieldEnum];
+
+  export const SortOrder: {
+    asc: 'asc';
+    desc: 'desc';
+  };
+
+  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder];
+
+  export const QueryMode: {
+    default: 'default';
+    insensitive: 'insensitive';
+  };
+
+  export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode];
+
+  export const NullsOrder: {
+    first: 'first';
+    last: 'last';
+  };
+
+  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder];
+
+  /**
+   * Field references
+   */
+
+  /**
+   * Reference to a field of type 'String'
+   */
+  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>;
+
+  /**
+   * Reference to a field of type 'String[]'
+   */
+  export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String[]'>;
+
+  /**
+   * Reference to a field of type 'SessionStatus'
+   */
+  export type EnumSessionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SessionStatus'>;
+
+  /**
+   * Reference to a field of type 'SessionStatus[]'
    */
   export type ListEnumSessionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SessionStatus[]'>;
 
@@ -3522,6 +5557,11 @@ export namespace Prisma {
    */
   export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>;
 
+  /**
+   * Reference to a field of type 'Boolean'
+   */
+  export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>;
+
   /**
    * Reference to a field of type 'TaskStatus'
    */
@@ -3555,6 +5595,31 @@ export namespace Prisma {
     createdAt?: DateTimeFilter<'Session'> | Date | string;
     deadline?: DateTimeNullableFilter<'Session'> | Date | string | null;
     rawPlan?: StringNullableFilter<'Session'> | string | null;
+    confirmedPlan?: StringNullableFilter<'Session'> | string | null;
+    confirmedAt?: DateTimeNullableFilter<'Session'> | Date | string | null;
+    rawRefinementHistory?: StringNullableFilter<'Session'> | string | null;
+    rawPlanHistory?: StringNullableFilter<'Session'> | string | null;
+    rawAgentContext?: StringNullableFilter<'Session'> | string | null;
+    containerId?: StringNullableFilter<'Session'> | string | null;
+    controlRequest?: StringNullableFilter<'Session'> | string | null;
+    rawTaskBudget?: StringNullableFilter<'Session'> | string | null;
+    repoUrl?: StringNullableFilter<'Session'> | string | null;
+    maxParallelTasks?: IntNullableFilter<'Session'> | number | null;
+    rawApprovalRequests?: StringNullableFilter<'Session'> | string | null;
+    rawFailurePolicy?: StringNullableFilter<'Session'> | string | null;
+    branch?: StringNullableFilter<'Session'> | string | null;
+    workspaceRetention?: StringNullableFilter<'Session'> | string | null;
+    prompt?: StringNullableFilter<'Session'> | string | null;
+    prUrl?: StringNullableFilter<'Session'> | string | null;
+    rawUsage?: StringNullableFilter<'Session'> | string | null;
+    rawSessionBudget?: StringNullableFilter<'Session'> | string | null;
+    rawVerificationPolicy?: StringNullableFilter<'Session'> | string | null;
+    parentSessionId?: StringNullableFilter<'Session'> | string | null;
+    forkedFromTaskId?: StringNullableFilter<'Session'> | string | null;
+    workspaceImage?: StringNullableFilter<'Session'> | string | null;
+    dryRun?: BoolNullableFilter<'Session'> | boolean | null;
+    parentSession?: XOR<SessionNullableScalarRelationFilter, SessionWhereInput> | null;
+    forks?: SessionListRelationFilter;
     tasks?: TaskListRelationFilter;
   };
 
@@ -3564,6 +5629,31 @@ export namespace Prisma {
     createdAt?: SortOrder;
     deadline?: SortOrderInput | SortOrder;
     rawPlan?: SortOrderInput | SortOrder;
+    confirmedPlan?: SortOrderInput | SortOrder;
+    confirmedAt?: SortOrderInput | SortOrder;
+    rawRefinementHistory?: SortOrderInput | SortOrder;
+    rawPlanHistory?: SortOrderInput | SortOrder;
+    rawAgentContext?: SortOrderInput | SortOrder;
+    containerId?: SortOrderInput | SortOrder;
+    controlRequest?: SortOrderInput | SortOrder;
+    rawTaskBudget?: SortOrderInput | SortOrder;
+    repoUrl?: SortOrderInput | SortOrder;
+    maxParallelTasks?: SortOrderInput | SortOrder;
+    rawApprovalRequests?: SortOrderInput | SortOrder;
+    rawFailurePolicy?: SortOrderInput | SortOrder;
+    branch?: SortOrderInput | SortOrder;
+    workspaceRetention?: SortOrderInput | SortOrder;
+    prompt?: SortOrderInput | SortOrder;
+    prUrl?: SortOrderInput | SortOrder;
+    rawUsage?: SortOrderInput | SortOrder;
+    rawSessionBudget?: SortOrderInput | SortOrder;
+    rawVerificationPolicy?: SortOrderInput | SortOrder;
+    parentSessionId?: SortOrderInput | SortOrder;
+    forkedFromTaskId?: SortOrderInput | SortOrder;
+    workspaceImage?: SortOrderInput | SortOrder;
+    dryRun?: SortOrderInput | SortOrder;
+    parentSession?: SessionOrderByWithRelationInput;
+    forks?: SessionOrderByRelationAggregateInput;
     tasks?: TaskOrderByRelationAggregateInput;
   };
 
@@ -3577,6 +5667,31 @@ export namespace Prisma {
       createdAt?: DateTimeFilter<'Session'> | Date | string;
       deadline?: DateTimeNullableFilter<'Session'> | Date | string | null;
       rawPlan?: StringNullableFilter<'Session'> | string | null;
+      confirmedPlan?: StringNullableFilter<'Session'> | string | null;
+      confirmedAt?: DateTimeNullableFilter<'Session'> | Date | string | null;
+      rawRefinementHistory?: StringNullableFilter<'Session'> | string | null;
+      rawPlanHistory?: StringNullableFilter<'Session'> | string | null;
+      rawAgentContext?: StringNullableFilter<'Session'> | string | null;
+      containerId?: StringNullableFilter<'Session'> | string | null;
+      controlRequest?: StringNullableFilter<'Session'> | string | null;
+      rawTaskBudget?: StringNullableFilter<'Session'> | string | null;
+      repoUrl?: StringNullableFilter<'Session'> | string | null;
+      maxParallelTasks?: IntNullableFilter<'Session'> | number | null;
+      rawApprovalRequests?: StringNullableFilter<'Session'> | string | null;
+      rawFailurePolicy?: StringNullableFilter<'Session'> | string | null;
+      branch?: StringNullableFilter<'Session'> | string | null;
+      workspaceRetention?: StringNullableFilter<'Session'> | string | null;
+      prompt?: StringNullableFilter<'Session'> | string | null;
+      prUrl?: StringNullableFilter<'Session'> | string | null;
+      rawUsage?: StringNullableFilter<'Session'> | string | null;
+      rawSessionBudget?: StringNullableFilter<'Session'> | string | null;
+      rawVerificationPolicy?: StringNullableFilter<'Session'> | string | null;
+      parentSessionId?: StringNullableFilter<'Session'> | string | null;
+      forkedFromTaskId?: StringNullableFilter<'Session'> | string | null;
+      workspaceImage?: StringNullableFilter<'Session'> | string | null;
+      dryRun?: BoolNullableFilter<'Session'> | boolean | null;
+      parentSession?: XOR<SessionNullableScalarRelationFilter, SessionWhereInput> | null;
+      forks?: SessionListRelationFilter;
       tasks?: TaskListRelationFilter;
     },
     'id'
@@ -3588,9 +5703,34 @@ export namespace Prisma {
     createdAt?: SortOrder;
     deadline?: SortOrderInput | SortOrder;
     rawPlan?: SortOrderInput | SortOrder;
+    confirmedPlan?: SortOrderInput | SortOrder;
+    confirmedAt?: SortOrderInput | SortOrder;
+    rawRefinementHistory?: SortOrderInput | SortOrder;
+    rawPlanHistory?: SortOrderInput | SortOrder;
+    rawAgentContext?: SortOrderInput | SortOrder;
+    containerId?: SortOrderInput | SortOrder;
+    controlRequest?: SortOrderInput | SortOrder;
+    rawTaskBudget?: SortOrderInput | SortOrder;
+    repoUrl?: SortOrderInput | SortOrder;
+    maxParallelTasks?: SortOrderInput | SortOrder;
+    rawApprovalRequests?: SortOrderInput | SortOrder;
+    rawFailurePolicy?: SortOrderInput | SortOrder;
+    branch?: SortOrderInput | SortOrder;
+    workspaceRetention?: SortOrderInput | SortOrder;
+    prompt?: SortOrderInput | SortOrder;
+    prUrl?: SortOrderInput | SortOrder;
+    rawUsage?: SortOrderInput | SortOrder;
+    rawSessionBudget?: SortOrderInput | SortOrder;
+    rawVerificationPolicy?: SortOrderInput | SortOrder;
+    parentSessionId?: SortOrderInput | SortOrder;
+    forkedFromTaskId?: SortOrderInput | SortOrder;
+    workspaceImage?: SortOrderInput | SortOrder;
+    dryRun?: SortOrderInput | SortOrder;
     _count?: SessionCountOrderByAggregateInput;
+    _avg?: SessionAvgOrderByAggregateInput;
     _max?: SessionMaxOrderByAggregateInput;
     _min?: SessionMinOrderByAggregateInput;
+    _sum?: SessionSumOrderByAggregateInput;
   };
 
   export type SessionScalarWhereWithAggregatesInput = {
@@ -3602,6 +5742,29 @@ export namespace Prisma {
     createdAt?: DateTimeWithAggregatesFilter<'Session'> | Date | string;
     deadline?: DateTimeNullableWithAggregatesFilter<'Session'> | Date | string | null;
     rawPlan?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    confirmedPlan?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    confirmedAt?: DateTimeNullableWithAggregatesFilter<'Session'> | Date | string | null;
+    rawRefinementHistory?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawPlanHistory?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawAgentContext?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    containerId?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    controlRequest?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawTaskBudget?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    repoUrl?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    maxParallelTasks?: IntNullableWithAggregatesFilter<'Session'> | number | null;
+    rawApprovalRequests?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawFailurePolicy?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    branch?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    workspaceRetention?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    prompt?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    prUrl?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawUsage?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawSessionBudget?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    rawVerificationPolicy?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    parentSessionId?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    forkedFromTaskId?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    workspaceImage?: StringNullableWithAggregatesFilter<'Session'> | string | null;
+    dryRun?: BoolNullableWithAggregatesFilter<'Session'> | boolean | null;
   };
 
   export type TaskWhereInput = {
@@ -3616,7 +5779,18 @@ export namespace Prisma {
     createdAt?: DateTimeFilter<'Task'> | Date | string;
     updatedAt?: DateTimeFilter<'Task'> | Date | string;
     rawReactHistory?: StringNullableFilter<'Task'> | string | null;
+    rawDependencies?: StringNullableFilter<'Task'> | string | null;
+    patch?: StringNullableFilter<'Task'> | string | null;
+    rawPendingStep?: StringNullableFilter<'Task'> | string | null;
+    rawPreviousAttempts?: StringNullableFilter<'Task'> | string | null;
+    rawHistorySummary?: StringNullableFilter<'Task'> | string | null;
+    title?: StringNullableFilter<'Task'> | string | null;
+    rawAcceptanceCriteria?: StringNullableFilter<'Task'> | string | null;
+    rawLikelyFiles?: StringNullableFilter<'Task'> | string | null;
+    effort?: StringNullableFilter<'Task'> | string | null;
+    rawWorkspace?: StringNullableFilter<'Task'> | string | null;
     session?: XOR<SessionScalarRelationFilter, SessionWhereInput>;
+    subtasks?: SubtaskListRelationFilter;
   };
 
   export type TaskOrderByWithRelationInput = {
@@ -3628,7 +5802,18 @@ export namespace Prisma {
     createdAt?: SortOrder;
     updatedAt?: SortOrder;
     rawReactHistory?: SortOrderInput | SortOrder;
+    rawDependencies?: SortOrderInput | SortOrder;
+    patch?: SortOrderInput | SortOrder;
+    rawPendingStep?: SortOrderInput | SortOrder;
+    rawPreviousAttempts?: SortOrderInput | SortOrder;
+    rawHistorySummary?: SortOrderInput | SortOrder;
+    title?: SortOrderInput | SortOrder;
+    rawAcceptanceCriteria?: SortOrderInput | SortOrder;
+    rawLikelyFiles?: SortOrderInput | SortOrder;
+    effort?: SortOrderInput | SortOrder;
+    rawWorkspace?: SortOrderInput | SortOrder;
     session?: SessionOrderByWithRelationInput;
+    subtasks?: SubtaskOrderByRelationAggregateInput;
   };
 
   export type TaskWhereUniqueInput = Prisma.AtLeast<
@@ -3644,7 +5829,18 @@ export namespace Prisma {
       createdAt?: DateTimeFilter<'Task'> | Date | string;
       updatedAt?: DateTimeFilter<'Task'> | Date | string;
       rawReactHistory?: StringNullableFilter<'Task'> | string | null;
+      rawDependencies?: StringNullableFilter<'Task'> | string | null;
+      patch?: StringNullableFilter<'Task'> | string | null;
+      rawPendingStep?: StringNullableFilter<'Task'> | string | null;
+      rawPreviousAttempts?: StringNullableFilter<'Task'> | string | null;
+      rawHistorySummary?: StringNullableFilter<'Task'> | string | null;
+      title?: StringNullableFilter<'Task'> | string | null;
+      rawAcceptanceCriteria?: StringNullableFilter<'Task'> | string | null;
+      rawLikelyFiles?: StringNullableFilter<'Task'> | string | null;
+      effort?: StringNullableFilter<'Task'> | string | null;
+      rawWorkspace?: StringNullableFilter<'Task'> | string | null;
       session?: XOR<SessionScalarRelationFilter, SessionWhereInput>;
+      subtasks?: SubtaskListRelationFilter;
     },
     'id'
   >;
@@ -3658,6 +5854,16 @@ export namespace Prisma {
     createdAt?: SortOrder;
     updatedAt?: SortOrder;
     rawReactHistory?: SortOrderInput | SortOrder;
+    rawDependencies?: SortOrderInput | SortOrder;
+    patch?: SortOrderInput | SortOrder;
+    rawPendingStep?: SortOrderInput | SortOrder;
+    rawPreviousAttempts?: SortOrderInput | SortOrder;
+    rawHistorySummary?: SortOrderInput | SortOrder;
+    title?: SortOrderInput | SortOrder;
+    rawAcceptanceCriteria?: SortOrderInput | SortOrder;
+    rawLikelyFiles?: SortOrderInput | SortOrder;
+    effort?: SortOrderInput | SortOrder;
+    rawWorkspace?: SortOrderInput | SortOrder;
     _count?: TaskCountOrderByAggregateInput;
     _avg?: TaskAvgOrderByAggregateInput;
     _max?: TaskMaxOrderByAggregateInput;
@@ -3677,6 +5883,99 @@ export namespace Prisma {
     createdAt?: DateTimeWithAggregatesFilter<'Task'> | Date | string;
     updatedAt?: DateTimeWithAggregatesFilter<'Task'> | Date | string;
     rawReactHistory?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawDependencies?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    patch?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawPendingStep?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawPreviousAttempts?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawHistorySummary?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    title?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawAcceptanceCriteria?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawLikelyFiles?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    effort?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+    rawWorkspace?: StringNullableWithAggregatesFilter<'Task'> | string | null;
+  };
+
+  export type SubtaskWhereInput = {
+    AND?: SubtaskWhereInput | SubtaskWhereInput[];
+    OR?: SubtaskWhereInput[];
+    NOT?: SubtaskWhereInput | SubtaskWhereInput[];
+    id?: StringFilter<'Subtask'> | string;
+    taskId?: StringFilter<'Subtask'> | string;
+    goal?: StringFilter<'Subtask'> | string;
+    status?: EnumTaskStatusFilter<'Subtask'> | $Enums.TaskStatus;
+    rawTools?: StringNullableFilter<'Subtask'> | string | null;
+    rawBudget?: StringNullableFilter<'Subtask'> | string | null;
+    rawReactHistory?: StringNullableFilter<'Subtask'> | string | null;
+    result?: StringNullableFilter<'Subtask'> | string | null;
+    createdAt?: DateTimeFilter<'Subtask'> | Date | string;
+    updatedAt?: DateTimeFilter<'Subtask'> | Date | string;
+    task?: XOR<TaskScalarRelationFilter, TaskWhereInput>;
+  };
+
+  export type SubtaskOrderByWithRelationInput = {
+    id?: SortOrder;
+    taskId?: SortOrder;
+    goal?: SortOrder;
+    status?: SortOrder;
+    rawTools?: SortOrderInput | SortOrder;
+    rawBudget?: SortOrderInput | SortOrder;
+    rawReactHistory?: SortOrderInput | SortOrder;
+    result?: SortOrderInput | SortOrder;
+    createdAt?: SortOrder;
+    updatedAt?: SortOrder;
+    task?: TaskOrderByWithRelationInput;
+  };
+
+  export type SubtaskWhereUniqueInput = Prisma.AtLeast<
+    {
+      id?: string;
+      AND?: SubtaskWhereInput | SubtaskWhereInput[];
+      OR?: SubtaskWhereInput[];
+      NOT?: SubtaskWhereInput | SubtaskWhereInput[];
+      taskId?: StringFilter<'Subtask'> | string;
+      goal?: StringFilter<'Subtask'> | string;
+      status?: EnumTaskStatusFilter<'Subtask'> | $Enums.TaskStatus;
+      rawTools?: StringNullableFilter<'Subtask'> | string | null;
+      rawBudget?: StringNullableFilter<'Subtask'> | string | null;
+      rawReactHistory?: StringNullableFilter<'Subtask'> | string | null;
+      result?: StringNullableFilter<'Subtask'> | string | null;
+      createdAt?: DateTimeFilter<'Subtask'> | Date | string;
+      updatedAt?: DateTimeFilter<'Subtask'> | Date | string;
+      task?: XOR<TaskScalarRelationFilter, TaskWhereInput>;
+    },
+    'id'
+  >;
+
+  export type SubtaskOrderByWithAggregationInput = {
+    id?: SortOrder;
+    taskId?: SortOrder;
+    goal?: SortOrder;
+    status?: SortOrder;
+    rawTools?: SortOrderInput | SortOrder;
+    rawBudget?: SortOrderInput | SortOrder;
+    rawReactHistory?: SortOrderInput | SortOrder;
+    result?: SortOrderInput | SortOrder;
+    createdAt?: SortOrder;
+    updatedAt?: SortOrder;
+    _count?: SubtaskCountOrderByAggregateInput;
+    _max?: SubtaskMaxOrderByAggregateInput;
+    _min?: SubtaskMinOrderByAggregateInput;
+  };
+
+  export type SubtaskScalarWhereWithAggregatesInput = {
+    AND?: SubtaskScalarWhereWithAggregatesInput | SubtaskScalarWhereWithAggregatesInput[];
+    OR?: SubtaskScalarWhereWithAggregatesInput[];
+    NOT?: SubtaskScalarWhereWithAggregatesInput | SubtaskScalarWhereWithAggregatesInput[];
+    id?: StringWithAggregatesFilter<'Subtask'> | string;
+    taskId?: StringWithAggregatesFilter<'Subtask'> | string;
+    goal?: StringWithAggregatesFilter<'Subtask'> | string;
+    status?: EnumTaskStatusWithAggregatesFilter<'Subtask'> | $Enums.TaskStatus;
+    rawTools?: StringNullableWithAggregatesFilter<'Subtask'> | string | null;
+    rawBudget?: StringNullableWithAggregatesFilter<'Subtask'> | string | null;
+    rawReactHistory?: StringNullableWithAggregatesFilter<'Subtask'> | string | null;
+    result?: StringNullableWithAggregatesFilter<'Subtask'> | string | null;
+    createdAt?: DateTimeWithAggregatesFilter<'Subtask'> | Date | string;
+    updatedAt?: DateTimeWithAggregatesFilter<'Subtask'> | Date | string;
   };
 
   export type SessionCreateInput = {
@@ -3685,6 +5984,30 @@ export namespace Prisma {
     createdAt?: Date | string;
     deadline?: Date | string | null;
     rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    parentSession?: SessionCreateNestedOneWithoutForksInput;
+    forks?: SessionCreateNestedManyWithoutParentSessionInput;
     tasks?: TaskCreateNestedManyWithoutSessionInput;
   };
 
@@ -3694,6 +6017,30 @@ export namespace Prisma {
     createdAt?: Date | string;
     deadline?: Date | string | null;
     rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    parentSessionId?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    forks?: SessionUncheckedCreateNestedManyWithoutParentSessionInput;
     tasks?: TaskUncheckedCreateNestedManyWithoutSessionInput;
   };
 
@@ -3703,6 +6050,30 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
     rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    parentSession?: SessionUpdateOneWithoutForksNestedInput;
+    forks?: SessionUpdateManyWithoutParentSessionNestedInput;
     tasks?: TaskUpdateManyWithoutSessionNestedInput;
   };
 
@@ -3712,6 +6083,30 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
     rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    parentSessionId?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    forks?: SessionUncheckedUpdateManyWithoutParentSessionNestedInput;
     tasks?: TaskUncheckedUpdateManyWithoutSessionNestedInput;
   };
 
@@ -3721,6 +6116,29 @@ export namespace Prisma {
     createdAt?: Date | string;
     deadline?: Date | string | null;
     rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    parentSessionId?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
   };
 
   export type SessionUpdateManyMutationInput = {
@@ -3729,6 +6147,28 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
     rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
   };
 
   export type SessionUncheckedUpdateManyInput = {
@@ -3737,6 +6177,29 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
     rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    parentSessionId?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
   };
 
   export type TaskCreateInput = {
@@ -3747,7 +6210,18 @@ export namespace Prisma {
     createdAt?: Date | string;
     updatedAt?: Date | string;
     rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
     session: SessionCreateNestedOneWithoutTasksInput;
+    subtasks?: SubtaskCreateNestedManyWithoutTaskInput;
   };
 
   export type TaskUncheckedCreateInput = {
@@ -3759,6 +6233,17 @@ export namespace Prisma {
     createdAt?: Date | string;
     updatedAt?: Date | string;
     rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
+    subtasks?: SubtaskUncheckedCreateNestedManyWithoutTaskInput;
   };
 
   export type TaskUpdateInput = {
@@ -3769,7 +6254,18 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
     session?: SessionUpdateOneRequiredWithoutTasksNestedInput;
+    subtasks?: SubtaskUpdateManyWithoutTaskNestedInput;
   };
 
   export type TaskUncheckedUpdateInput = {
@@ -3781,6 +6277,17 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+    subtasks?: SubtaskUncheckedUpdateManyWithoutTaskNestedInput;
   };
 
   export type TaskCreateManyInput = {
@@ -3792,6 +6299,16 @@ export namespace Prisma {
     createdAt?: Date | string;
     updatedAt?: Date | string;
     rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
   };
 
   export type TaskUpdateManyMutationInput = {
@@ -3802,6 +6319,16 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
   };
 
   export type TaskUncheckedUpdateManyInput = {
@@ -3813,6 +6340,106 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+  };
+
+  export type SubtaskCreateInput = {
+    id?: string;
+    goal: string;
+    status?: $Enums.TaskStatus;
+    rawTools?: string | null;
+    rawBudget?: string | null;
+    rawReactHistory?: string | null;
+    result?: string | null;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+    task: TaskCreateNestedOneWithoutSubtasksInput;
+  };
+
+  export type SubtaskUncheckedCreateInput = {
+    id?: string;
+    taskId: string;
+    goal: string;
+    status?: $Enums.TaskStatus;
+    rawTools?: string | null;
+    rawBudget?: string | null;
+    rawReactHistory?: string | null;
+    result?: string | null;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+  };
+
+  export type SubtaskUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    task?: TaskUpdateOneRequiredWithoutSubtasksNestedInput;
+  };
+
+  export type SubtaskUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    taskId?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+  };
+
+  export type SubtaskCreateManyInput = {
+    id?: string;
+    taskId: string;
+    goal: string;
+    status?: $Enums.TaskStatus;
+    rawTools?: string | null;
+    rawBudget?: string | null;
+    rawReactHistory?: string | null;
+    result?: string | null;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+  };
+
+  export type SubtaskUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+  };
+
+  export type SubtaskUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    taskId?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
   };
 
   export type StringFilter<$PrismaModel = never> = {
@@ -3874,6 +6501,33 @@ export namespace Prisma {
     not?: NestedStringNullableFilter<$PrismaModel> | string | null;
   };
 
+  export type IntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null;
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    lt?: number | IntFieldRefInput<$PrismaModel>;
+    lte?: number | IntFieldRefInput<$PrismaModel>;
+    gt?: number | IntFieldRefInput<$PrismaModel>;
+    gte?: number | IntFieldRefInput<$PrismaModel>;
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null;
+  };
+
+  export type BoolNullableFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel> | null;
+    not?: NestedBoolNullableFilter<$PrismaModel> | boolean | null;
+  };
+
+  export type SessionNullableScalarRelationFilter = {
+    is?: SessionWhereInput | null;
+    isNot?: SessionWhereInput | null;
+  };
+
+  export type SessionListRelationFilter = {
+    every?: SessionWhereInput;
+    some?: SessionWhereInput;
+    none?: SessionWhereInput;
+  };
+
   export type TaskListRelationFilter = {
     every?: TaskWhereInput;
     some?: TaskWhereInput;
@@ -3885,6 +6539,10 @@ export namespace Prisma {
     nulls?: NullsOrder;
   };
 
+  export type SessionOrderByRelationAggregateInput = {
+    _count?: SortOrder;
+  };
+
   export type TaskOrderByRelationAggregateInput = {
     _count?: SortOrder;
   };
@@ -3895,6 +6553,33 @@ export namespace Prisma {
     createdAt?: SortOrder;
     deadline?: SortOrder;
     rawPlan?: SortOrder;
+    confirmedPlan?: SortOrder;
+    confirmedAt?: SortOrder;
+    rawRefinementHistory?: SortOrder;
+    rawPlanHistory?: SortOrder;
+    rawAgentContext?: SortOrder;
+    containerId?: SortOrder;
+    controlRequest?: SortOrder;
+    rawTaskBudget?: SortOrder;
+    repoUrl?: SortOrder;
+    maxParallelTasks?: SortOrder;
+    rawApprovalRequests?: SortOrder;
+    rawFailurePolicy?: SortOrder;
+    branch?: SortOrder;
+    workspaceRetention?: SortOrder;
+    prompt?: SortOrder;
+    prUrl?: SortOrder;
+    rawUsage?: SortOrder;
+    rawSessionBudget?: SortOrder;
+    rawVerificationPolicy?: SortOrder;
+    parentSessionId?: SortOrder;
+    forkedFromTaskId?: SortOrder;
+    workspaceImage?: SortOrder;
+    dryRun?: SortOrder;
+  };
+
+  export type SessionAvgOrderByAggregateInput = {
+    maxParallelTasks?: SortOrder;
   };
 
   export type SessionMaxOrderByAggregateInput = {
@@ -3903,6 +6588,29 @@ export namespace Prisma {
     createdAt?: SortOrder;
     deadline?: SortOrder;
     rawPlan?: SortOrder;
+    confirmedPlan?: SortOrder;
+    confirmedAt?: SortOrder;
+    rawRefinementHistory?: SortOrder;
+    rawPlanHistory?: SortOrder;
+    rawAgentContext?: SortOrder;
+    containerId?: SortOrder;
+    controlRequest?: SortOrder;
+    rawTaskBudget?: SortOrder;
+    repoUrl?: SortOrder;
+    maxParallelTasks?: SortOrder;
+    rawApprovalRequests?: SortOrder;
+    rawFailurePolicy?: SortOrder;
+    branch?: SortOrder;
+    workspaceRetention?: SortOrder;
+    prompt?: SortOrder;
+    prUrl?: SortOrder;
+    rawUsage?: SortOrder;
+    rawSessionBudget?: SortOrder;
+    rawVerificationPolicy?: SortOrder;
+    parentSessionId?: SortOrder;
+    forkedFromTaskId?: SortOrder;
+    workspaceImage?: SortOrder;
+    dryRun?: SortOrder;
   };
 
   export type SessionMinOrderByAggregateInput = {
@@ -3911,6 +6619,33 @@ export namespace Prisma {
     createdAt?: SortOrder;
     deadline?: SortOrder;
     rawPlan?: SortOrder;
+    confirmedPlan?: SortOrder;
+    confirmedAt?: SortOrder;
+    rawRefinementHistory?: SortOrder;
+    rawPlanHistory?: SortOrder;
+    rawAgentContext?: SortOrder;
+    containerId?: SortOrder;
+    controlRequest?: SortOrder;
+    rawTaskBudget?: SortOrder;
+    repoUrl?: SortOrder;
+    maxParallelTasks?: SortOrder;
+    rawApprovalRequests?: SortOrder;
+    rawFailurePolicy?: SortOrder;
+    branch?: SortOrder;
+    workspaceRetention?: SortOrder;
+    prompt?: SortOrder;
+    prUrl?: SortOrder;
+    rawUsage?: SortOrder;
+    rawSessionBudget?: SortOrder;
+    rawVerificationPolicy?: SortOrder;
+    parentSessionId?: SortOrder;
+    forkedFromTaskId?: SortOrder;
+    workspaceImage?: SortOrder;
+    dryRun?: SortOrder;
+  };
+
+  export type SessionSumOrderByAggregateInput = {
+    maxParallelTasks?: SortOrder;
   };
 
   export type StringWithAggregatesFilter<$PrismaModel = never> = {
@@ -3987,6 +6722,30 @@ export namespace Prisma {
     _max?: NestedStringNullableFilter<$PrismaModel>;
   };
 
+  export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null;
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    lt?: number | IntFieldRefInput<$PrismaModel>;
+    lte?: number | IntFieldRefInput<$PrismaModel>;
+    gt?: number | IntFieldRefInput<$PrismaModel>;
+    gte?: number | IntFieldRefInput<$PrismaModel>;
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null;
+    _count?: NestedIntNullableFilter<$PrismaModel>;
+    _avg?: NestedFloatNullableFilter<$PrismaModel>;
+    _sum?: NestedIntNullableFilter<$PrismaModel>;
+    _min?: NestedIntNullableFilter<$PrismaModel>;
+    _max?: NestedIntNullableFilter<$PrismaModel>;
+  };
+
+  export type BoolNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel> | null;
+    not?: NestedBoolNullableWithAggregatesFilter<$PrismaModel> | boolean | null;
+    _count?: NestedIntNullableFilter<$PrismaModel>;
+    _min?: NestedBoolNullableFilter<$PrismaModel>;
+    _max?: NestedBoolNullableFilter<$PrismaModel>;
+  };
+
   export type IntFilter<$PrismaModel = never> = {
     equals?: number | IntFieldRefInput<$PrismaModel>;
     in?: number[] | ListIntFieldRefInput<$PrismaModel>;
@@ -4010,6 +6769,16 @@ export namespace Prisma {
     isNot?: SessionWhereInput;
   };
 
+  export type SubtaskListRelationFilter = {
+    every?: SubtaskWhereInput;
+    some?: SubtaskWhereInput;
+    none?: SubtaskWhereInput;
+  };
+
+  export type SubtaskOrderByRelationAggregateInput = {
+    _count?: SortOrder;
+  };
+
   export type TaskCountOrderByAggregateInput = {
     id?: SortOrder;
     sessionId?: SortOrder;
@@ -4019,6 +6788,16 @@ export namespace Prisma {
     createdAt?: SortOrder;
     updatedAt?: SortOrder;
     rawReactHistory?: SortOrder;
+    rawDependencies?: SortOrder;
+    patch?: SortOrder;
+    rawPendingStep?: SortOrder;
+    rawPreviousAttempts?: SortOrder;
+    rawHistorySummary?: SortOrder;
+    title?: SortOrder;
+    rawAcceptanceCriteria?: SortOrder;
+    rawLikelyFiles?: SortOrder;
+    effort?: SortOrder;
+    rawWorkspace?: SortOrder;
   };
 
   export type TaskAvgOrderByAggregateInput = {
@@ -4034,6 +6813,16 @@ export namespace Prisma {
     createdAt?: SortOrder;
     updatedAt?: SortOrder;
     rawReactHistory?: SortOrder;
+    rawDependencies?: SortOrder;
+    patch?: SortOrder;
+    rawPendingStep?: SortOrder;
+    rawPreviousAttempts?: SortOrder;
+    rawHistorySummary?: SortOrder;
+    title?: SortOrder;
+    rawAcceptanceCriteria?: SortOrder;
+    rawLikelyFiles?: SortOrder;
+    effort?: SortOrder;
+    rawWorkspace?: SortOrder;
   };
 
   export type TaskMinOrderByAggregateInput = {
@@ -4045,6 +6834,16 @@ export namespace Prisma {
     createdAt?: SortOrder;
     updatedAt?: SortOrder;
     rawReactHistory?: SortOrder;
+    rawDependencies?: SortOrder;
+    patch?: SortOrder;
+    rawPendingStep?: SortOrder;
+    rawPreviousAttempts?: SortOrder;
+    rawHistorySummary?: SortOrder;
+    title?: SortOrder;
+    rawAcceptanceCriteria?: SortOrder;
+    rawLikelyFiles?: SortOrder;
+    effort?: SortOrder;
+    rawWorkspace?: SortOrder;
   };
 
   export type TaskSumOrderByAggregateInput = {
@@ -4077,6 +6876,68 @@ export namespace Prisma {
     _max?: NestedEnumTaskStatusFilter<$PrismaModel>;
   };
 
+  export type TaskScalarRelationFilter = {
+    is?: TaskWhereInput;
+    isNot?: TaskWhereInput;
+  };
+
+  export type SubtaskCountOrderByAggregateInput = {
+    id?: SortOrder;
+    taskId?: SortOrder;
+    goal?: SortOrder;
+    status?: SortOrder;
+    rawTools?: SortOrder;
+    rawBudget?: SortOrder;
+    rawReactHistory?: SortOrder;
+    result?: SortOrder;
+    createdAt?: SortOrder;
+    updatedAt?: SortOrder;
+  };
+
+  export type SubtaskMaxOrderByAggregateInput = {
+    id?: SortOrder;
+    taskId?: SortOrder;
+    goal?: SortOrder;
+    status?: SortOrder;
+    rawTools?: SortOrder;
+    rawBudget?: SortOrder;
+    rawReactHistory?: SortOrder;
+    result?: SortOrder;
+    createdAt?: SortOrder;
+    updatedAt?: SortOrder;
+  };
+
+  export type SubtaskMinOrderByAggregateInput = {
+    id?: SortOrder;
+    taskId?: SortOrder;
+    goal?: SortOrder;
+    status?: SortOrder;
+    rawTools?: SortOrder;
+    rawBudget?: SortOrder;
+    rawReactHistory?: SortOrder;
+    result?: SortOrder;
+    createdAt?: SortOrder;
+    updatedAt?: SortOrder;
+  };
+
+  export type SessionCreateNestedOneWithoutForksInput = {
+    create?: XOR<SessionCreateWithoutForksInput, SessionUncheckedCreateWithoutForksInput>;
+    connectOrCreate?: SessionCreateOrConnectWithoutForksInput;
+    connect?: SessionWhereUniqueInput;
+  };
+
+  export type SessionCreateNestedManyWithoutParentSessionInput = {
+    create?:
+      | XOR<SessionCreateWithoutParentSessionInput, SessionUncheckedCreateWithoutParentSessionInput>
+      | SessionCreateWithoutParentSessionInput[]
+      | SessionUncheckedCreateWithoutParentSessionInput[];
+    connectOrCreate?:
+      | SessionCreateOrConnectWithoutParentSessionInput
+      | SessionCreateOrConnectWithoutParentSessionInput[];
+    createMany?: SessionCreateManyParentSessionInputEnvelope;
+    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+  };
+
   export type TaskCreateNestedManyWithoutSessionInput = {
     create?:
       | XOR<TaskCreateWithoutSessionInput, TaskUncheckedCreateWithoutSessionInput>
@@ -4087,6 +6948,18 @@ export namespace Prisma {
     connect?: TaskWhereUniqueInput | TaskWhereUniqueInput[];
   };
 
+  export type SessionUncheckedCreateNestedManyWithoutParentSessionInput = {
+    create?:
+      | XOR<SessionCreateWithoutParentSessionInput, SessionUncheckedCreateWithoutParentSessionInput>
+      | SessionCreateWithoutParentSessionInput[]
+      | SessionUncheckedCreateWithoutParentSessionInput[];
+    connectOrCreate?:
+      | SessionCreateOrConnectWithoutParentSessionInput
+      | SessionCreateOrConnectWithoutParentSessionInput[];
+    createMany?: SessionCreateManyParentSessionInputEnvelope;
+    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+  };
+
   export type TaskUncheckedCreateNestedManyWithoutSessionInput = {
     create?:
       | XOR<TaskCreateWithoutSessionInput, TaskUncheckedCreateWithoutSessionInput>
@@ -4113,8 +6986,58 @@ export namespace Prisma {
     set?: Date | string | null;
   };
 
-  export type NullableStringFieldUpdateOperationsInput = {
-    set?: string | null;
+  export type NullableStringFieldUpdateOperationsInput = {
+    set?: string | null;
+  };
+
+  export type NullableIntFieldUpdateOperationsInput = {
+    set?: number | null;
+    increment?: number;
+    decrement?: number;
+    multiply?: number;
+    divide?: number;
+  };
+
+  export type NullableBoolFieldUpdateOperationsInput = {
+    set?: boolean | null;
+  };
+
+  export type SessionUpdateOneWithoutForksNestedInput = {
+    create?: XOR<SessionCreateWithoutForksInput, SessionUncheckedCreateWithoutForksInput>;
+    connectOrCreate?: SessionCreateOrConnectWithoutForksInput;
+    upsert?: SessionUpsertWithoutForksInput;
+    disconnect?: SessionWhereInput | boolean;
+    delete?: SessionWhereInput | boolean;
+    connect?: SessionWhereUniqueInput;
+    update?: XOR<
+      XOR<SessionUpdateToOneWithWhereWithoutForksInput, SessionUpdateWithoutForksInput>,
+      SessionUncheckedUpdateWithoutForksInput
+    >;
+  };
+
+  export type SessionUpdateManyWithoutParentSessionNestedInput = {
+    create?:
+      | XOR<SessionCreateWithoutParentSessionInput, SessionUncheckedCreateWithoutParentSessionInput>
+      | SessionCreateWithoutParentSessionInput[]
+      | SessionUncheckedCreateWithoutParentSessionInput[];
+    connectOrCreate?:
+      | SessionCreateOrConnectWithoutParentSessionInput
+      | SessionCreateOrConnectWithoutParentSessionInput[];
+    upsert?:
+      | SessionUpsertWithWhereUniqueWithoutParentSessionInput
+      | SessionUpsertWithWhereUniqueWithoutParentSessionInput[];
+    createMany?: SessionCreateManyParentSessionInputEnvelope;
+    set?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    disconnect?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    delete?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    update?:
+      | SessionUpdateWithWhereUniqueWithoutParentSessionInput
+      | SessionUpdateWithWhereUniqueWithoutParentSessionInput[];
+    updateMany?:
+      | SessionUpdateManyWithWhereWithoutParentSessionInput
+      | SessionUpdateManyWithWhereWithoutParentSessionInput[];
+    deleteMany?: SessionScalarWhereInput | SessionScalarWhereInput[];
   };
 
   export type TaskUpdateManyWithoutSessionNestedInput = {
@@ -4134,6 +7057,31 @@ export namespace Prisma {
     deleteMany?: TaskScalarWhereInput | TaskScalarWhereInput[];
   };
 
+  export type SessionUncheckedUpdateManyWithoutParentSessionNestedInput = {
+    create?:
+      | XOR<SessionCreateWithoutParentSessionInput, SessionUncheckedCreateWithoutParentSessionInput>
+      | SessionCreateWithoutParentSessionInput[]
+      | SessionUncheckedCreateWithoutParentSessionInput[];
+    connectOrCreate?:
+      | SessionCreateOrConnectWithoutParentSessionInput
+      | SessionCreateOrConnectWithoutParentSessionInput[];
+    upsert?:
+      | SessionUpsertWithWhereUniqueWithoutParentSessionInput
+      | SessionUpsertWithWhereUniqueWithoutParentSessionInput[];
+    createMany?: SessionCreateManyParentSessionInputEnvelope;
+    set?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    disconnect?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    delete?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    connect?: SessionWhereUniqueInput | SessionWhereUniqueInput[];
+    update?:
+      | SessionUpdateWithWhereUniqueWithoutParentSessionInput
+      | SessionUpdateWithWhereUniqueWithoutParentSessionInput[];
+    updateMany?:
+      | SessionUpdateManyWithWhereWithoutParentSessionInput
+      | SessionUpdateManyWithWhereWithoutParentSessionInput[];
+    deleteMany?: SessionScalarWhereInput | SessionScalarWhereInput[];
+  };
+
   export type TaskUncheckedUpdateManyWithoutSessionNestedInput = {
     create?:
       | XOR<TaskCreateWithoutSessionInput, TaskUncheckedCreateWithoutSessionInput>
@@ -4157,6 +7105,26 @@ export namespace Prisma {
     connect?: SessionWhereUniqueInput;
   };
 
+  export type SubtaskCreateNestedManyWithoutTaskInput = {
+    create?:
+      | XOR<SubtaskCreateWithoutTaskInput, SubtaskUncheckedCreateWithoutTaskInput>
+      | SubtaskCreateWithoutTaskInput[]
+      | SubtaskUncheckedCreateWithoutTaskInput[];
+    connectOrCreate?: SubtaskCreateOrConnectWithoutTaskInput | SubtaskCreateOrConnectWithoutTaskInput[];
+    createMany?: SubtaskCreateManyTaskInputEnvelope;
+    connect?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+  };
+
+  export type SubtaskUncheckedCreateNestedManyWithoutTaskInput = {
+    create?:
+      | XOR<SubtaskCreateWithoutTaskInput, SubtaskUncheckedCreateWithoutTaskInput>
+      | SubtaskCreateWithoutTaskInput[]
+      | SubtaskUncheckedCreateWithoutTaskInput[];
+    connectOrCreate?: SubtaskCreateOrConnectWithoutTaskInput | SubtaskCreateOrConnectWithoutTaskInput[];
+    createMany?: SubtaskCreateManyTaskInputEnvelope;
+    connect?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+  };
+
   export type IntFieldUpdateOperationsInput = {
     set?: number;
     increment?: number;
@@ -4180,6 +7148,57 @@ export namespace Prisma {
     >;
   };
 
+  export type SubtaskUpdateManyWithoutTaskNestedInput = {
+    create?:
+      | XOR<SubtaskCreateWithoutTaskInput, SubtaskUncheckedCreateWithoutTaskInput>
+      | SubtaskCreateWithoutTaskInput[]
+      | SubtaskUncheckedCreateWithoutTaskInput[];
+    connectOrCreate?: SubtaskCreateOrConnectWithoutTaskInput | SubtaskCreateOrConnectWithoutTaskInput[];
+    upsert?: SubtaskUpsertWithWhereUniqueWithoutTaskInput | SubtaskUpsertWithWhereUniqueWithoutTaskInput[];
+    createMany?: SubtaskCreateManyTaskInputEnvelope;
+    set?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    disconnect?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    delete?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    connect?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    update?: SubtaskUpdateWithWhereUniqueWithoutTaskInput | SubtaskUpdateWithWhereUniqueWithoutTaskInput[];
+    updateMany?: SubtaskUpdateManyWithWhereWithoutTaskInput | SubtaskUpdateManyWithWhereWithoutTaskInput[];
+    deleteMany?: SubtaskScalarWhereInput | SubtaskScalarWhereInput[];
+  };
+
+  export type SubtaskUncheckedUpdateManyWithoutTaskNestedInput = {
+    create?:
+      | XOR<SubtaskCreateWithoutTaskInput, SubtaskUncheckedCreateWithoutTaskInput>
+      | SubtaskCreateWithoutTaskInput[]
+      | SubtaskUncheckedCreateWithoutTaskInput[];
+    connectOrCreate?: SubtaskCreateOrConnectWithoutTaskInput | SubtaskCreateOrConnectWithoutTaskInput[];
+    upsert?: SubtaskUpsertWithWhereUniqueWithoutTaskInput | SubtaskUpsertWithWhereUniqueWithoutTaskInput[];
+    createMany?: SubtaskCreateManyTaskInputEnvelope;
+    set?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    disconnect?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    delete?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    connect?: SubtaskWhereUniqueInput | SubtaskWhereUniqueInput[];
+    update?: SubtaskUpdateWithWhereUniqueWithoutTaskInput | SubtaskUpdateWithWhereUniqueWithoutTaskInput[];
+    updateMany?: SubtaskUpdateManyWithWhereWithoutTaskInput | SubtaskUpdateManyWithWhereWithoutTaskInput[];
+    deleteMany?: SubtaskScalarWhereInput | SubtaskScalarWhereInput[];
+  };
+
+  export type TaskCreateNestedOneWithoutSubtasksInput = {
+    create?: XOR<TaskCreateWithoutSubtasksInput, TaskUncheckedCreateWithoutSubtasksInput>;
+    connectOrCreate?: TaskCreateOrConnectWithoutSubtasksInput;
+    connect?: TaskWhereUniqueInput;
+  };
+
+  export type TaskUpdateOneRequiredWithoutSubtasksNestedInput = {
+    create?: XOR<TaskCreateWithoutSubtasksInput, TaskUncheckedCreateWithoutSubtasksInput>;
+    connectOrCreate?: TaskCreateOrConnectWithoutSubtasksInput;
+    upsert?: TaskUpsertWithoutSubtasksInput;
+    connect?: TaskWhereUniqueInput;
+    update?: XOR<
+      XOR<TaskUpdateToOneWithWhereWithoutSubtasksInput, TaskUpdateWithoutSubtasksInput>,
+      TaskUncheckedUpdateWithoutSubtasksInput
+    >;
+  };
+
   export type NestedStringFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel>;
     in?: string[] | ListStringFieldRefInput<$PrismaModel>;
@@ -4237,6 +7256,22 @@ export namespace Prisma {
     not?: NestedStringNullableFilter<$PrismaModel> | string | null;
   };
 
+  export type NestedIntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null;
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    lt?: number | IntFieldRefInput<$PrismaModel>;
+    lte?: number | IntFieldRefInput<$PrismaModel>;
+    gt?: number | IntFieldRefInput<$PrismaModel>;
+    gte?: number | IntFieldRefInput<$PrismaModel>;
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null;
+  };
+
+  export type NestedBoolNullableFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel> | null;
+    not?: NestedBoolNullableFilter<$PrismaModel> | boolean | null;
+  };
+
   export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel>;
     in?: string[] | ListStringFieldRefInput<$PrismaModel>;
@@ -4303,17 +7338,6 @@ export namespace Prisma {
     _max?: NestedDateTimeNullableFilter<$PrismaModel>;
   };
 
-  export type NestedIntNullableFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null;
-    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
-    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
-    lt?: number | IntFieldRefInput<$PrismaModel>;
-    lte?: number | IntFieldRefInput<$PrismaModel>;
-    gt?: number | IntFieldRefInput<$PrismaModel>;
-    gte?: number | IntFieldRefInput<$PrismaModel>;
-    not?: NestedIntNullableFilter<$PrismaModel> | number | null;
-  };
-
   export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel> | null;
     in?: string[] | ListStringFieldRefInput<$PrismaModel> | null;
@@ -4331,6 +7355,41 @@ export namespace Prisma {
     _max?: NestedStringNullableFilter<$PrismaModel>;
   };
 
+  export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null;
+    in?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    notIn?: number[] | ListIntFieldRefInput<$PrismaModel> | null;
+    lt?: number | IntFieldRefInput<$PrismaModel>;
+    lte?: number | IntFieldRefInput<$PrismaModel>;
+    gt?: number | IntFieldRefInput<$PrismaModel>;
+    gte?: number | IntFieldRefInput<$PrismaModel>;
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null;
+    _count?: NestedIntNullableFilter<$PrismaModel>;
+    _avg?: NestedFloatNullableFilter<$PrismaModel>;
+    _sum?: NestedIntNullableFilter<$PrismaModel>;
+    _min?: NestedIntNullableFilter<$PrismaModel>;
+    _max?: NestedIntNullableFilter<$PrismaModel>;
+  };
+
+  export type NestedFloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null;
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null;
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null;
+    lt?: number | FloatFieldRefInput<$PrismaModel>;
+    lte?: number | FloatFieldRefInput<$PrismaModel>;
+    gt?: number | FloatFieldRefInput<$PrismaModel>;
+    gte?: number | FloatFieldRefInput<$PrismaModel>;
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null;
+  };
+
+  export type NestedBoolNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel> | null;
+    not?: NestedBoolNullableWithAggregatesFilter<$PrismaModel> | boolean | null;
+    _count?: NestedIntNullableFilter<$PrismaModel>;
+    _min?: NestedBoolNullableFilter<$PrismaModel>;
+    _max?: NestedBoolNullableFilter<$PrismaModel>;
+  };
+
   export type NestedEnumTaskStatusFilter<$PrismaModel = never> = {
     equals?: $Enums.TaskStatus | EnumTaskStatusFieldRefInput<$PrismaModel>;
     in?: $Enums.TaskStatus[] | ListEnumTaskStatusFieldRefInput<$PrismaModel>;
@@ -4375,6 +7434,149 @@ export namespace Prisma {
     _max?: NestedEnumTaskStatusFilter<$PrismaModel>;
   };
 
+  export type SessionCreateWithoutForksInput = {
+    id?: string;
+    status: $Enums.SessionStatus;
+    createdAt?: Date | string;
+    deadline?: Date | string | null;
+    rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    parentSession?: SessionCreateNestedOneWithoutForksInput;
+    tasks?: TaskCreateNestedManyWithoutSessionInput;
+  };
+
+  export type SessionUncheckedCreateWithoutForksInput = {
+    id?: string;
+    status: $Enums.SessionStatus;
+    createdAt?: Date | string;
+    deadline?: Date | string | null;
+    rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    parentSessionId?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    tasks?: TaskUncheckedCreateNestedManyWithoutSessionInput;
+  };
+
+  export type SessionCreateOrConnectWithoutForksInput = {
+    where: SessionWhereUniqueInput;
+    create: XOR<SessionCreateWithoutForksInput, SessionUncheckedCreateWithoutForksInput>;
+  };
+
+  export type SessionCreateWithoutParentSessionInput = {
+    id?: string;
+    status: $Enums.SessionStatus;
+    createdAt?: Date | string;
+    deadline?: Date | string | null;
+    rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    forks?: SessionCreateNestedManyWithoutParentSessionInput;
+    tasks?: TaskCreateNestedManyWithoutSessionInput;
+  };
+
+  export type SessionUncheckedCreateWithoutParentSessionInput = {
+    id?: string;
+    status: $Enums.SessionStatus;
+    createdAt?: Date | string;
+    deadline?: Date | string | null;
+    rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    forks?: SessionUncheckedCreateNestedManyWithoutParentSessionInput;
+    tasks?: TaskUncheckedCreateNestedManyWithoutSessionInput;
+  };
+
+  export type SessionCreateOrConnectWithoutParentSessionInput = {
+    where: SessionWhereUniqueInput;
+    create: XOR<SessionCreateWithoutParentSessionInput, SessionUncheckedCreateWithoutParentSessionInput>;
+  };
+
+  export type SessionCreateManyParentSessionInputEnvelope = {
+    data: SessionCreateManyParentSessionInput | SessionCreateManyParentSessionInput[];
+    skipDuplicates?: boolean;
+  };
+
   export type TaskCreateWithoutSessionInput = {
     id?: string;
     order: number;
@@ -4383,6 +7585,17 @@ export namespace Prisma {
     createdAt?: Date | string;
     updatedAt?: Date | string;
     rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
+    subtasks?: SubtaskCreateNestedManyWithoutTaskInput;
   };
 
   export type TaskUncheckedCreateWithoutSessionInput = {
@@ -4393,6 +7606,17 @@ export namespace Prisma {
     createdAt?: Date | string;
     updatedAt?: Date | string;
     rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
+    subtasks?: SubtaskUncheckedCreateNestedManyWithoutTaskInput;
   };
 
   export type TaskCreateOrConnectWithoutSessionInput = {
@@ -4405,6 +7629,131 @@ export namespace Prisma {
     skipDuplicates?: boolean;
   };
 
+  export type SessionUpsertWithoutForksInput = {
+    update: XOR<SessionUpdateWithoutForksInput, SessionUncheckedUpdateWithoutForksInput>;
+    create: XOR<SessionCreateWithoutForksInput, SessionUncheckedCreateWithoutForksInput>;
+    where?: SessionWhereInput;
+  };
+
+  export type SessionUpdateToOneWithWhereWithoutForksInput = {
+    where?: SessionWhereInput;
+    data: XOR<SessionUpdateWithoutForksInput, SessionUncheckedUpdateWithoutForksInput>;
+  };
+
+  export type SessionUpdateWithoutForksInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    status?: EnumSessionStatusFieldUpdateOperationsInput | $Enums.SessionStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    parentSession?: SessionUpdateOneWithoutForksNestedInput;
+    tasks?: TaskUpdateManyWithoutSessionNestedInput;
+  };
+
+  export type SessionUncheckedUpdateWithoutForksInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    status?: EnumSessionStatusFieldUpdateOperationsInput | $Enums.SessionStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    parentSessionId?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    tasks?: TaskUncheckedUpdateManyWithoutSessionNestedInput;
+  };
+
+  export type SessionUpsertWithWhereUniqueWithoutParentSessionInput = {
+    where: SessionWhereUniqueInput;
+    update: XOR<SessionUpdateWithoutParentSessionInput, SessionUncheckedUpdateWithoutParentSessionInput>;
+    create: XOR<SessionCreateWithoutParentSessionInput, SessionUncheckedCreateWithoutParentSessionInput>;
+  };
+
+  export type SessionUpdateWithWhereUniqueWithoutParentSessionInput = {
+    where: SessionWhereUniqueInput;
+    data: XOR<SessionUpdateWithoutParentSessionInput, SessionUncheckedUpdateWithoutParentSessionInput>;
+  };
+
+  export type SessionUpdateManyWithWhereWithoutParentSessionInput = {
+    where: SessionScalarWhereInput;
+    data: XOR<SessionUpdateManyMutationInput, SessionUncheckedUpdateManyWithoutParentSessionInput>;
+  };
+
+  export type SessionScalarWhereInput = {
+    AND?: SessionScalarWhereInput | SessionScalarWhereInput[];
+    OR?: SessionScalarWhereInput[];
+    NOT?: SessionScalarWhereInput | SessionScalarWhereInput[];
+    id?: StringFilter<'Session'> | string;
+    status?: EnumSessionStatusFilter<'Session'> | $Enums.SessionStatus;
+    createdAt?: DateTimeFilter<'Session'> | Date | string;
+    deadline?: DateTimeNullableFilter<'Session'> | Date | string | null;
+    rawPlan?: StringNullableFilter<'Session'> | string | null;
+    confirmedPlan?: StringNullableFilter<'Session'> | string | null;
+    confirmedAt?: DateTimeNullableFilter<'Session'> | Date | string | null;
+    rawRefinementHistory?: StringNullableFilter<'Session'> | string | null;
+    rawPlanHistory?: StringNullableFilter<'Session'> | string | null;
+    rawAgentContext?: StringNullableFilter<'Session'> | string | null;
+    containerId?: StringNullableFilter<'Session'> | string | null;
+    controlRequest?: StringNullableFilter<'Session'> | string | null;
+    rawTaskBudget?: StringNullableFilter<'Session'> | string | null;
+    repoUrl?: StringNullableFilter<'Session'> | string | null;
+    maxParallelTasks?: IntNullableFilter<'Session'> | number | null;
+    rawApprovalRequests?: StringNullableFilter<'Session'> | string | null;
+    rawFailurePolicy?: StringNullableFilter<'Session'> | string | null;
+    branch?: StringNullableFilter<'Session'> | string | null;
+    workspaceRetention?: StringNullableFilter<'Session'> | string | null;
+    prompt?: StringNullableFilter<'Session'> | string | null;
+    prUrl?: StringNullableFilter<'Session'> | string | null;
+    rawUsage?: StringNullableFilter<'Session'> | string | null;
+    rawSessionBudget?: StringNullableFilter<'Session'> | string | null;
+    rawVerificationPolicy?: StringNullableFilter<'Session'> | string | null;
+    parentSessionId?: StringNullableFilter<'Session'> | string | null;
+    forkedFromTaskId?: StringNullableFilter<'Session'> | string | null;
+    workspaceImage?: StringNullableFilter<'Session'> | string | null;
+    dryRun?: BoolNullableFilter<'Session'> | boolean | null;
+  };
+
   export type TaskUpsertWithWhereUniqueWithoutSessionInput = {
     where: TaskWhereUniqueInput;
     update: XOR<TaskUpdateWithoutSessionInput, TaskUncheckedUpdateWithoutSessionInput>;
@@ -4433,6 +7782,16 @@ export namespace Prisma {
     createdAt?: DateTimeFilter<'Task'> | Date | string;
     updatedAt?: DateTimeFilter<'Task'> | Date | string;
     rawReactHistory?: StringNullableFilter<'Task'> | string | null;
+    rawDependencies?: StringNullableFilter<'Task'> | string | null;
+    patch?: StringNullableFilter<'Task'> | string | null;
+    rawPendingStep?: StringNullableFilter<'Task'> | string | null;
+    rawPreviousAttempts?: StringNullableFilter<'Task'> | string | null;
+    rawHistorySummary?: StringNullableFilter<'Task'> | string | null;
+    title?: StringNullableFilter<'Task'> | string | null;
+    rawAcceptanceCriteria?: StringNullableFilter<'Task'> | string | null;
+    rawLikelyFiles?: StringNullableFilter<'Task'> | string | null;
+    effort?: StringNullableFilter<'Task'> | string | null;
+    rawWorkspace?: StringNullableFilter<'Task'> | string | null;
   };
 
   export type SessionCreateWithoutTasksInput = {
@@ -4441,6 +7800,30 @@ export namespace Prisma {
     createdAt?: Date | string;
     deadline?: Date | string | null;
     rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    parentSession?: SessionCreateNestedOneWithoutForksInput;
+    forks?: SessionCreateNestedManyWithoutParentSessionInput;
   };
 
   export type SessionUncheckedCreateWithoutTasksInput = {
@@ -4449,6 +7832,30 @@ export namespace Prisma {
     createdAt?: Date | string;
     deadline?: Date | string | null;
     rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    parentSessionId?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
+    forks?: SessionUncheckedCreateNestedManyWithoutParentSessionInput;
   };
 
   export type SessionCreateOrConnectWithoutTasksInput = {
@@ -4456,6 +7863,40 @@ export namespace Prisma {
     create: XOR<SessionCreateWithoutTasksInput, SessionUncheckedCreateWithoutTasksInput>;
   };
 
+  export type SubtaskCreateWithoutTaskInput = {
+    id?: string;
+    goal: string;
+    status?: $Enums.TaskStatus;
+    rawTools?: string | null;
+    rawBudget?: string | null;
+    rawReactHistory?: string | null;
+    result?: string | null;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+  };
+
+  export type SubtaskUncheckedCreateWithoutTaskInput = {
+    id?: string;
+    goal: string;
+    status?: $Enums.TaskStatus;
+    rawTools?: string | null;
+    rawBudget?: string | null;
+    rawReactHistory?: string | null;
+    result?: string | null;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+  };
+
+  export type SubtaskCreateOrConnectWithoutTaskInput = {
+    where: SubtaskWhereUniqueInput;
+    create: XOR<SubtaskCreateWithoutTaskInput, SubtaskUncheckedCreateWithoutTaskInput>;
+  };
+
+  export type SubtaskCreateManyTaskInputEnvelope = {
+    data: SubtaskCreateManyTaskInput | SubtaskCreateManyTaskInput[];
+    skipDuplicates?: boolean;
+  };
+
   export type SessionUpsertWithoutTasksInput = {
     update: XOR<SessionUpdateWithoutTasksInput, SessionUncheckedUpdateWithoutTasksInput>;
     create: XOR<SessionCreateWithoutTasksInput, SessionUncheckedCreateWithoutTasksInput>;
@@ -4473,6 +7914,30 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
     rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    parentSession?: SessionUpdateOneWithoutForksNestedInput;
+    forks?: SessionUpdateManyWithoutParentSessionNestedInput;
   };
 
   export type SessionUncheckedUpdateWithoutTasksInput = {
@@ -4481,6 +7946,192 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
     rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    parentSessionId?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    forks?: SessionUncheckedUpdateManyWithoutParentSessionNestedInput;
+  };
+
+  export type SubtaskUpsertWithWhereUniqueWithoutTaskInput = {
+    where: SubtaskWhereUniqueInput;
+    update: XOR<SubtaskUpdateWithoutTaskInput, SubtaskUncheckedUpdateWithoutTaskInput>;
+    create: XOR<SubtaskCreateWithoutTaskInput, SubtaskUncheckedCreateWithoutTaskInput>;
+  };
+
+  export type SubtaskUpdateWithWhereUniqueWithoutTaskInput = {
+    where: SubtaskWhereUniqueInput;
+    data: XOR<SubtaskUpdateWithoutTaskInput, SubtaskUncheckedUpdateWithoutTaskInput>;
+  };
+
+  export type SubtaskUpdateManyWithWhereWithoutTaskInput = {
+    where: SubtaskScalarWhereInput;
+    data: XOR<SubtaskUpdateManyMutationInput, SubtaskUncheckedUpdateManyWithoutTaskInput>;
+  };
+
+  export type SubtaskScalarWhereInput = {
+    AND?: SubtaskScalarWhereInput | SubtaskScalarWhereInput[];
+    OR?: SubtaskScalarWhereInput[];
+    NOT?: SubtaskScalarWhereInput | SubtaskScalarWhereInput[];
+    id?: StringFilter<'Subtask'> | string;
+    taskId?: StringFilter<'Subtask'> | string;
+    goal?: StringFilter<'Subtask'> | string;
+    status?: EnumTaskStatusFilter<'Subtask'> | $Enums.TaskStatus;
+    rawTools?: StringNullableFilter<'Subtask'> | string | null;
+    rawBudget?: StringNullableFilter<'Subtask'> | string | null;
+    rawReactHistory?: StringNullableFilter<'Subtask'> | string | null;
+    result?: StringNullableFilter<'Subtask'> | string | null;
+    createdAt?: DateTimeFilter<'Subtask'> | Date | string;
+    updatedAt?: DateTimeFilter<'Subtask'> | Date | string;
+  };
+
+  export type TaskCreateWithoutSubtasksInput = {
+    id?: string;
+    order: number;
+    description: string;
+    status: $Enums.TaskStatus;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+    rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
+    session: SessionCreateNestedOneWithoutTasksInput;
+  };
+
+  export type TaskUncheckedCreateWithoutSubtasksInput = {
+    id?: string;
+    sessionId: string;
+    order: number;
+    description: string;
+    status: $Enums.TaskStatus;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+    rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
+  };
+
+  export type TaskCreateOrConnectWithoutSubtasksInput = {
+    where: TaskWhereUniqueInput;
+    create: XOR<TaskCreateWithoutSubtasksInput, TaskUncheckedCreateWithoutSubtasksInput>;
+  };
+
+  export type TaskUpsertWithoutSubtasksInput = {
+    update: XOR<TaskUpdateWithoutSubtasksInput, TaskUncheckedUpdateWithoutSubtasksInput>;
+    create: XOR<TaskCreateWithoutSubtasksInput, TaskUncheckedCreateWithoutSubtasksInput>;
+    where?: TaskWhereInput;
+  };
+
+  export type TaskUpdateToOneWithWhereWithoutSubtasksInput = {
+    where?: TaskWhereInput;
+    data: XOR<TaskUpdateWithoutSubtasksInput, TaskUncheckedUpdateWithoutSubtasksInput>;
+  };
+
+  export type TaskUpdateWithoutSubtasksInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    order?: IntFieldUpdateOperationsInput | number;
+    description?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+    session?: SessionUpdateOneRequiredWithoutTasksNestedInput;
+  };
+
+  export type TaskUncheckedUpdateWithoutSubtasksInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    sessionId?: StringFieldUpdateOperationsInput | string;
+    order?: IntFieldUpdateOperationsInput | number;
+    description?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+  };
+
+  export type SessionCreateManyParentSessionInput = {
+    id?: string;
+    status: $Enums.SessionStatus;
+    createdAt?: Date | string;
+    deadline?: Date | string | null;
+    rawPlan?: string | null;
+    confirmedPlan?: string | null;
+    confirmedAt?: Date | string | null;
+    rawRefinementHistory?: string | null;
+    rawPlanHistory?: string | null;
+    rawAgentContext?: string | null;
+    containerId?: string | null;
+    controlRequest?: string | null;
+    rawTaskBudget?: string | null;
+    repoUrl?: string | null;
+    maxParallelTasks?: number | null;
+    rawApprovalRequests?: string | null;
+    rawFailurePolicy?: string | null;
+    branch?: string | null;
+    workspaceRetention?: string | null;
+    prompt?: string | null;
+    prUrl?: string | null;
+    rawUsage?: string | null;
+    rawSessionBudget?: string | null;
+    rawVerificationPolicy?: string | null;
+    forkedFromTaskId?: string | null;
+    workspaceImage?: string | null;
+    dryRun?: boolean | null;
   };
 
   export type TaskCreateManySessionInput = {
@@ -4491,6 +8142,110 @@ export namespace Prisma {
     createdAt?: Date | string;
     updatedAt?: Date | string;
     rawReactHistory?: string | null;
+    rawDependencies?: string | null;
+    patch?: string | null;
+    rawPendingStep?: string | null;
+    rawPreviousAttempts?: string | null;
+    rawHistorySummary?: string | null;
+    title?: string | null;
+    rawAcceptanceCriteria?: string | null;
+    rawLikelyFiles?: string | null;
+    effort?: string | null;
+    rawWorkspace?: string | null;
+  };
+
+  export type SessionUpdateWithoutParentSessionInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    status?: EnumSessionStatusFieldUpdateOperationsInput | $Enums.SessionStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    forks?: SessionUpdateManyWithoutParentSessionNestedInput;
+    tasks?: TaskUpdateManyWithoutSessionNestedInput;
+  };
+
+  export type SessionUncheckedUpdateWithoutParentSessionInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    status?: EnumSessionStatusFieldUpdateOperationsInput | $Enums.SessionStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
+    forks?: SessionUncheckedUpdateManyWithoutParentSessionNestedInput;
+    tasks?: TaskUncheckedUpdateManyWithoutSessionNestedInput;
+  };
+
+  export type SessionUncheckedUpdateManyWithoutParentSessionInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    status?: EnumSessionStatusFieldUpdateOperationsInput | $Enums.SessionStatus;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    deadline?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedPlan?: NullableStringFieldUpdateOperationsInput | string | null;
+    confirmedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+    rawRefinementHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPlanHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAgentContext?: NullableStringFieldUpdateOperationsInput | string | null;
+    containerId?: NullableStringFieldUpdateOperationsInput | string | null;
+    controlRequest?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawTaskBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    repoUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    maxParallelTasks?: NullableIntFieldUpdateOperationsInput | number | null;
+    rawApprovalRequests?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawFailurePolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    branch?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceRetention?: NullableStringFieldUpdateOperationsInput | string | null;
+    prompt?: NullableStringFieldUpdateOperationsInput | string | null;
+    prUrl?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawUsage?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawSessionBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawVerificationPolicy?: NullableStringFieldUpdateOperationsInput | string | null;
+    forkedFromTaskId?: NullableStringFieldUpdateOperationsInput | string | null;
+    workspaceImage?: NullableStringFieldUpdateOperationsInput | string | null;
+    dryRun?: NullableBoolFieldUpdateOperationsInput | boolean | null;
   };
 
   export type TaskUpdateWithoutSessionInput = {
@@ -4501,6 +8256,17 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+    subtasks?: SubtaskUpdateManyWithoutTaskNestedInput;
   };
 
   export type TaskUncheckedUpdateWithoutSessionInput = {
@@ -4511,6 +8277,17 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+    subtasks?: SubtaskUncheckedUpdateManyWithoutTaskNestedInput;
   };
 
   export type TaskUncheckedUpdateManyWithoutSessionInput = {
@@ -4521,6 +8298,64 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
     rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawDependencies?: NullableStringFieldUpdateOperationsInput | string | null;
+    patch?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPendingStep?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawPreviousAttempts?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawHistorySummary?: NullableStringFieldUpdateOperationsInput | string | null;
+    title?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawAcceptanceCriteria?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawLikelyFiles?: NullableStringFieldUpdateOperationsInput | string | null;
+    effort?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawWorkspace?: NullableStringFieldUpdateOperationsInput | string | null;
+  };
+
+  export type SubtaskCreateManyTaskInput = {
+    id?: string;
+    goal: string;
+    status?: $Enums.TaskStatus;
+    rawTools?: string | null;
+    rawBudget?: string | null;
+    rawReactHistory?: string | null;
+    result?: string | null;
+    createdAt?: Date | string;
+    updatedAt?: Date | string;
+  };
+
+  export type SubtaskUpdateWithoutTaskInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+  };
+
+  export type SubtaskUncheckedUpdateWithoutTaskInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+  };
+
+  export type SubtaskUncheckedUpdateManyWithoutTaskInput = {
+    id?: StringFieldUpdateOperationsInput | string;
+    goal?: StringFieldUpdateOperationsInput | string;
+    status?: EnumTaskStatusFieldUpdateOperationsInput | $Enums.TaskStatus;
+    rawTools?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawBudget?: NullableStringFieldUpdateOperationsInput | string | null;
+    rawReactHistory?: NullableStringFieldUpdateOperationsInput | string | null;
+    result?: NullableStringFieldUpdateOperationsInput | string | null;
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string;
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string;
   };
 
   /**
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { createTestDockerService, DockerService } from './index.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import Docker from 'dockerode';
+import { createDockerService, createTestDockerService, DockerService } from './index.js';
 import { TestDockerHelpers } from './index.js';
+import { createTestConfig } from '../config/index.js';
 
 describe('Docker Service', () => {
   let service: DockerService & TestDockerHelpers;
@@ -57,6 +60,46 @@ describe('Docker Service', () => {
     }
   });
 
+  it('should attach to an existing container', async () => {
+    const createResult = await service.createContainer({ groupId: 'test-group' });
+    expect(createResult.ok).toBe(true);
+
+    if (createResult.ok) {
+      const attachResult = await service.attachContainer(createResult.value.id, 'test-group');
+      expect(attachResult.ok).toBe(true);
+      if (attachResult.ok) {
+        expect(attachResult.value.id).toBe(createResult.value.id);
+      }
+    }
+
+    const missingResult = await service.attachContainer('missing', 'test-group');
+    expect(missingResult.ok).toBe(false);
+    if (!missingResult.ok) {
+      expect(missingResult.error.type).toBe('ContainerNotFound');
+    }
+  });
+
+  it('should snapshot a container to an image tagged with its group and remove it', async () => {
+    const createResult = await service.createContainer({ groupId: 'test-group' });
+    expect(createResult.ok).toBe(true);
+
+    if (createResult.ok) {
+      const snapshotResult = await service.snapshotContainer(createResult.value.id, 'test-group');
+      expect(snapshotResult.ok).toBe(true);
+      if (snapshotResult.ok) {
+        expect(snapshotResult.value).toContain('test-group');
+        expect(service.getSnapshots()).toEqual([snapshotResult.value]);
+
+        expect((await service.removeSnapshot(snapshotResult.value)).ok).toBe(true);
+        expect(service.getSnapshots()).toEqual([]);
+        expect((await service.removeSnapshot(snapshotResult.value)).ok).toBe(false);
+      }
+    }
+
+    const missingResult = await service.snapshotContainer('missing', 'test-group');
+    expect(missingResult.ok).toBe(false);
+  });
+
   it('should execute a script in a container', async () => {
     const createResult = await service.createContainer({ groupId: 'test-group' });
     expect(createResult.ok).toBe(true);
@@ -73,7 +116,6 @@ describe('Docker Service', () => {
     }
   });
 
-
   it('should handle container limit', async () => {
     const limitedService = createTestDockerService({ containerLimit: 2 });
 
@@ -111,3 +153,42 @@ describe('Docker Service', () => {
     }
   });
 });
+
+describe('Docker Service exec output', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Builds a frame of a multiplexed exec stream
+   */
+  function frame(streamType: number, payload: string): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt8(streamType, 0);
+    header.writeUInt32BE(Buffer.byteLength(payload), 4);
+    return Buffer.concat([header, Buffer.from(payload)]);
+  }
+
+  it('should strip the frame headers Docker adds to exec output', async () => {
+    const framed = Buffer.concat([
+      frame(1, 'check passed\n'),
+      frame(2, 'warning: lint\n'),
+      frame(1, 'origin/develop\n'),
+    ]);
+    const stream = new PassThrough();
+    vi.spyOn(Docker.prototype, 'getContainer').mockReturnValue({
+      inspect: vi.fn().mockResolvedValue({ State: { Status: 'running' }, Created: new Date().toISOString() }),
+      exec: vi.fn().mockResolvedValue({ start: vi.fn().mockResolvedValue(stream) }),
+    } as unknown as Docker.Container);
+    const service = createDockerService(createTestConfig());
+    await service.attachContainer('c1', 'test-group');
+
+    const execPromise = service.executeScript({ containerId: 'c1', script: 'npm test' });
+    // Frames arrive split across chunks
+    stream.write(framed.subarray(0, 5));
+    stream.end(framed.subarray(5));
+    const execResult = await execPromise;
+
+    expect(execResult).toEqual({ ok: true, value: 'check passed\nwarning: lint\norigin/develop\n' });
+  });
+});
@@ -46,6 +46,8 @@ export type DockerErrorType =
   | 'ContainerCreationFailed'
   | 'ContainerExecutionFailed'
   | 'ContainerDestructionFailed'
+  | 'ContainerSnapshotFailed'
+  | 'SnapshotRemovalFailed'
   | 'InternalError';
 
 // NOTE: Not a part of the public API, only used internally
@@ -65,13 +67,31 @@ let containerState: { [key: string]: Container } = {};
  */
 export interface DockerService {
   createContainer(options: CreateContainerOptions): Promise<Result<Container, DockerError>>;
+  attachContainer(containerId: string, groupId: string): Promise<Result<Container, DockerError>>;
   listContainers(groupId?: string): Promise<Result<Container[], DockerError>>;
   destroyContainer(containerId: string): Promise<Result<void, DockerError>>;
+  snapshotContainer(containerId: string, groupId: string): Promise<Result<string, DockerError>>;
+  removeSnapshot(image: string): Promise<Result<void, DockerError>>;
   executeScript(options: ExecuteScriptOptions): Promise<Result<string, DockerError>>;
   cleanupIdleContainers(): Promise<Result<number, DockerError>>;
   ingestDirectory(options: IngestDirectoryOptions): Promise<Result<string, DockerError>>;
 }
 
+/**
+ * Extracts the output of an exec stream, which Docker splits into frames that each start with an 8-byte header
+ * The header holds the stream type and the payload size; stdout and stderr payloads are kept in the order received
+ */
+function demultiplexExecOutput(output: Buffer): string {
+  const payloads: Buffer[] = [];
+  let offset = 0;
+  while (offset + 8 <= output.length) {
+    const size = output.readUInt32BE(offset + 4);
+    payloads.push(output.subarray(offset + 8, offset + 8 + size));
+    offset += 8 + size;
+  }
+  return Buffer.concat(payloads).toString('utf8');
+}
+
 /**
  * Auto-detect Docker socket path
  */
@@ -151,6 +171,57 @@ export function createDockerService(config: ApplicationConfig): DockerService {
       return ok(newContainer);
     },
 
+    /**
+     * Re-attaches to a container created by an earlier process, starting it if it has stopped
+     */
+    async attachContainer(containerId: string, groupId: string): Promise<Result<Container, DockerError>> {
+      const existing = containerState[containerId];
+      if (existing) {
+        return ok(existing);
+      }
+
+      const dockerContainer = docker.getContainer(containerId);
+
+      const inspectResult = await trapAsync(
+        () => dockerContainer.inspect(),
+        (error) => ({
+          type: 'ContainerNotFound' as DockerErrorType,
+          message: `Container with ID '${containerId}' not found: ${extractErrorMessage(error)}`,
+          originalError: error instanceof Error ? error : undefined,
+        }),
+      );
+
+      if (!inspectResult.ok) {
+        return inspectResult;
+      }
+
+      if (inspectResult.value.State.Status !== 'running') {
+        const startResult = await trapAsync(
+          () => dockerContainer.start(),
+          (error) => ({
+            type: 'ContainerExecutionFailed' as DockerErrorType,
+            message: `Failed to start container: ${extractErrorMessage(error)}`,
+            originalError: error instanceof Error ? error : undefined,
+          }),
+        );
+
+        if (!startResult.ok) {
+          return startResult;
+        }
+      }
+
+      const container: Container = {
+        id: containerId,
+        groupId,
+        status: 'running',
+        createdAt: new Date(inspectResult.value.Created),
+        lastUsed: new Date(),
+      };
+
+      containerState[containerId] = container;
+      return ok(container);
+    },
+
     /**
      *
      */
@@ -207,6 +278,56 @@ export function createDockerService(config: ApplicationConfig): DockerService {
       return ok(undefined);
     },
 
+    /**
+     * Commits a container's filesystem to an image that new containers can be created from
+     * The image is tagged with the group it was taken from, so snapshots can be told apart by session
+     */
+    async snapshotContainer(containerId: string, groupId: string): Promise<Result<string, DockerError>> {
+      if (!containerState[containerId]) {
+        return err({
+          type: 'ContainerNotFound',
+          message: `Container with ID '${containerId}' not found`,
+        });
+      }
+
+      const repo = `${config.dockerContainerPrefix}-snapshot`.toLowerCase();
+      const tag = `${groupId}-${Math.random().toString(36).substring(2, 8)}`.toLowerCase();
+      const commitResult = await trapAsync(
+        () => docker.getContainer(containerId).commit({ repo, tag }),
+        (error) => ({
+          type: 'ContainerSnapshotFailed' as DockerErrorType,
+          message: extractErrorMessage(error),
+          originalError: error instanceof Error ? error : undefined,
+        }),
+      );
+
+      if (!commitResult.ok) {
+        return commitResult;
+      }
+
+      return ok(`${repo}:${tag}`);
+    },
+
+    /**
+     * Removes an image taken by snapshotContainer once no container needs it anymore
+     */
+    async removeSnapshot(image: string): Promise<Result<void, DockerError>> {
+      const removeResult = await trapAsync(
+        () => docker.getImage(image).remove(),
+        (error) => ({
+          type: 'SnapshotRemovalFailed' as DockerErrorType,
+          message: extractErrorMessage(error),
+          originalError: error instanceof Error ? error : undefined,
+        }),
+      );
+
+      if (!removeResult.ok) {
+        return removeResult;
+      }
+
+      return ok(undefined);
+    },
+
     /**
      *
      */
@@ -284,13 +405,14 @@ export function createDockerService(config: ApplicationConfig): DockerService {
       const stream = streamResult.value;
 
       return new Promise((resolve) => {
-        let output = '';
+        // Frames can span chunks, so they are only split once the stream has ended
+        const chunks: Buffer[] = [];
         stream.on('data', (chunk: Buffer) => {
-          output += chunk.toString('utf8');
+          chunks.push(chunk);
         });
         stream.on('end', () => {
           container.lastUsed = new Date();
-          resolve(ok(output));
+          resolve(ok(demultiplexExecOutput(Buffer.concat(chunks))));
         });
         stream.on('error', (error: Error) => {
           resolve(
@@ -366,6 +488,7 @@ export interface TestDockerConfig {
 export interface TestDockerHelpers {
   getContainerCount(): number;
   getContainers(): Container[];
+  getSnapshots(): string[];
   reset(): void;
   simulateContainerFailure(containerId: string): void;
 }
@@ -379,6 +502,7 @@ export function createTestDockerService(config: TestDockerConfig = {}): DockerSe
   const { containerCreationDelay = 0, scriptExecutionDelay = 0, simulateFailures = false, containerLimit = 5 } = config;
 
   let testContainers = new Map<string, Container>();
+  const testSnapshots = new Set<string>();
   let idCounter = 1;
 
   /**
@@ -424,6 +548,22 @@ export function createTestDockerService(config: TestDockerConfig = {}): DockerSe
       return ok(container);
     },
 
+    /**
+     *
+     */
+    async attachContainer(containerId: string, _groupId_: string): Promise<Result<Container, DockerError>> {
+      const container = testContainers.get(containerId);
+      if (!container) {
+        return err({
+          type: 'ContainerNotFound',
+          message: `Container with ID '${containerId}' not found`,
+        });
+      }
+
+      container.lastUsed = new Date();
+      return ok(container);
+    },
+
     /**
      *
      */
@@ -455,6 +595,36 @@ export function createTestDockerService(config: TestDockerConfig = {}): DockerSe
       return ok(undefined);
     },
 
+    /**
+     *
+     */
+    async snapshotContainer(containerId: string, groupId: string): Promise<Result<string, DockerError>> {
+      if (!testContainers.has(containerId)) {
+        return err({
+          type: 'ContainerNotFound',
+          message: `Container with ID '${containerId}' not found`,
+        });
+      }
+
+      const image = `test-snapshot:${groupId}-${containerId}`;
+      testSnapshots.add(image);
+      return ok(image);
+    },
+
+    /**
+     *
+     */
+    async removeSnapshot(image: string): Promise<Result<void, DockerError>> {
+      if (!testSnapshots.delete(image)) {
+        return err({
+          type: 'SnapshotRemovalFailed',
+          message: `Image '${image}' not found`,
+        });
+      }
+
+      return ok(undefined);
+    },
+
     /**
      *
      */
@@ -529,11 +699,19 @@ export function createTestDockerService(config: TestDockerConfig = {}): DockerSe
       return Array.from(testContainers.values());
     },
 
+    /**
+     *
+     */
+    getSnapshots(): string[] {
+      return Array.from(testSnapshots);
+    },
+
     /**
      *
      */
     reset(): void {
       testContainers.clear();
+      testSnapshots.clear();
       idCounter = 1;
     },
 
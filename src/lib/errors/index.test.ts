@@ -9,6 +9,7 @@ import {
   chainResults,
   combineResults,
   retryOperation,
+  raceAbort,
   ok,
   err,
   Result,
@@ -147,6 +148,24 @@ describe('Error Service', () => {
     });
   });
 
+  describe('raceAbort', () => {
+    it('should resolve with the promise value when not aborted', async () => {
+      const controller = new AbortController();
+      await expect(raceAbort(Promise.resolve('done'), controller.signal)).resolves.toBe('done');
+    });
+
+    it('should reject with the abort reason when the signal aborts first', async () => {
+      const controller = new AbortController();
+      const pending = new Promise<string>(() => {});
+
+      const race = raceAbort(pending, controller.signal);
+      controller.abort('CANCEL');
+
+      await expect(race).rejects.toBe('CANCEL');
+      await expect(raceAbort(Promise.resolve('late'), controller.signal)).rejects.toBe('CANCEL');
+    });
+  });
+
   describe('wrapPromise', () => {
     it('should wrap successful promises', async () => {
       const promise = Promise.resolve('success');
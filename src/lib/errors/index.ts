@@ -92,6 +92,27 @@ export function isError(error: unknown): error is Error {
   return error instanceof Error;
 }
 
+/**
+ * Races a promise against an abort signal, for work that cannot be cancelled itself
+ * @param promise - The promise to race
+ * @param signal - The signal that rejects the race with its reason when aborted
+ * @returns The promise's value, unless the signal aborts first
+ */
+export async function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    /**
+     *
+     */
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
 /**
  * Wraps a Promise to convert rejections to Result types
  * @param promise - The promise to wrap
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createLLMRunnerWithConfig } from './index.js';
-import type { LLMConfig } from './index.js';
+import { createLLMRunnerWithConfig, estimateCost } from './index.js';
+import type { LLMConfig, ChatMessage } from './index.js';
 
 describe('LLM Runner - Prompt Size Validation', () => {
   beforeEach(() => {
@@ -201,4 +201,90 @@ describe('LLM Runner - Prompt Size Validation', () => {
       await expect(runner.generateContent(specialPrompt)).rejects.toThrow(/Prompt too large/);
     });
   });
-});
\ No newline at end of file
+});
+describe('LLM Runner - Chat with tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+  });
+
+  it('should validate the size of the whole transcript', async () => {
+    const runner = createLLMRunnerWithConfig({
+      provider: 'gemini',
+      apiKey: 'test-key',
+      model: 'gemini-pro', // 32K limit
+    });
+
+    const messages: ChatMessage[] = [
+      { role: 'user', content: 'Do the task' },
+      { role: 'assistant', toolCalls: [{ id: 'call_1', name: 'run_shell_command', arguments: { command: 'ls' } }] },
+      { role: 'tool', toolCallId: 'call_1', name: 'run_shell_command', content: 'x'.repeat(135000) },
+    ];
+
+    await expect(runner.chatWithTools!(messages)).rejects.toThrow(/Prompt too large/);
+  });
+
+  it('should send tool calls and tool results to Gemini as model and function turns', async () => {
+    const generateContent = vi.fn().mockResolvedValue({
+      response: {
+        /**
+         * Mock text response
+         * @returns Test response string
+         */
+        text: () => 'TASK_COMPLETE',
+        /**
+         * Mock function calls
+         * @returns No function calls
+         */
+        functionCalls: () => undefined,
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, totalTokenCount: 12 },
+      },
+    });
+    const getGenerativeModel = vi.fn().mockReturnValue({ generateContent });
+
+    vi.doMock('@google/generative-ai', () => ({
+      GoogleGenerativeAI: vi.fn().mockImplementation(() => ({ getGenerativeModel })),
+    }));
+
+    const runner = createLLMRunnerWithConfig({
+      provider: 'gemini',
+      apiKey: 'test-key',
+      retryConfig: { initialDelay: 0 },
+    });
+
+    const response = await runner.chatWithTools!([
+      { role: 'system', content: 'You are a coding agent' },
+      { role: 'user', content: 'List files' },
+      { role: 'assistant', toolCalls: [{ id: 'call_1', name: 'run_shell_command', arguments: { command: 'ls' } }] },
+      { role: 'tool', toolCallId: 'call_1', name: 'run_shell_command', content: '"README.md"' },
+    ]);
+
+    expect(response.content).toBe('TASK_COMPLETE');
+    expect(response.usage?.totalTokens).toBe(12);
+    expect(getGenerativeModel).toHaveBeenCalledWith(
+      expect.objectContaining({ systemInstruction: 'You are a coding agent' }),
+    );
+    expect(generateContent).toHaveBeenCalledWith({
+      contents: [
+        { role: 'user', parts: [{ text: 'List files' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'run_shell_command', args: { command: 'ls' } } }] },
+        {
+          role: 'function',
+          parts: [{ functionResponse: { name: 'run_shell_command', response: { content: '"README.md"' } } }],
+        },
+      ],
+    });
+  });
+});
+
+describe('LLM Runner - Cost estimation', () => {
+  it('should price prompt and completion tokens at the model price', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 };
+
+    expect(estimateCost('gpt-4o', usage)).toBe(7.5);
+  });
+
+  it('should not price unknown models', () => {
+    expect(estimateCost('unknown-model-xyz', { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 })).toBe(0);
+  });
+});
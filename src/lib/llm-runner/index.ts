@@ -2,8 +2,10 @@
  * LLM Runner service for unified LLM provider access
  */
 
+import type { Content, Part } from '@google/generative-ai';
 import type { LLMToolsService } from '../llm-tools/index.js';
 import { ApplicationConfig } from '../config/index.js';
+import { raceAbort } from '../errors/index.js';
 
 /**
  * Supported LLM providers
@@ -61,6 +63,15 @@ export interface ToolCallResponse {
   };
 }
 
+/**
+ * Chat message for multi-turn conversations with tool calling
+ */
+export type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content?: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
 /**
  * LLM Runner service interface
  */
@@ -68,7 +79,7 @@ export interface LLMRunnerService {
   /**
    * Generate content using the configured LLM provider
    */
-  generateContent(prompt: string): Promise<string>;
+  generateContent(prompt: string, signal?: AbortSignal): Promise<string>;
 
   /**
    * Generate structured content with full response metadata
@@ -78,17 +89,30 @@ export interface LLMRunnerService {
   /**
    * Generate JSON content with optional schema
    */
-  generateJSON?(prompt: string, schema?: unknown): Promise<unknown>;
+  generateJSON?(prompt: string, schema?: unknown, signal?: AbortSignal): Promise<unknown>;
 
   /**
    * Generate content with tool calling support
    */
   generateWithTools?(prompt: string): Promise<ToolCallResponse>;
 
+  /**
+   * Continue a multi-turn conversation with tool calling support
+   */
+  chatWithTools?(messages: ChatMessage[], signal?: AbortSignal): Promise<ToolCallResponse>;
+
   /**
    * Execute tool calls and return results
    */
-  executeToolCalls?(toolCalls: ToolCall[]): Promise<Array<{ toolCallId: string; result: unknown }>>;
+  executeToolCalls?(
+    toolCalls: ToolCall[],
+    signal?: AbortSignal,
+  ): Promise<Array<{ toolCallId: string; result: unknown }>>;
+
+  /**
+   * Count the tokens of a text with the provider's tokenizer, estimating when it has none
+   */
+  countTokens?(text: string): Promise<number>;
 
   /**
    * Get the current provider configuration
@@ -142,6 +166,43 @@ const MODEL_TOKEN_LIMITS: Record<string, number> = {
   'claude-2.1': 200000, // 200K tokens
 };
 
+/**
+ * Prices in US dollars per million prompt (input) and completion (output) tokens
+ */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  // Gemini models
+  'gemini-2.0-flash-exp': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+
+  // OpenAI models
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+
+  // Claude models
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'claude-3-sonnet-20240229': { input: 3, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-2.1': { input: 8, output: 24 },
+};
+
+/**
+ * Estimate the cost of an LLM call in US dollars; models without a known price cost nothing
+ */
+export function estimateCost(model: string | undefined, usage: NonNullable<LLMResponse['usage']>): number {
+  const price = model ? MODEL_PRICES[model] : undefined;
+  if (!price) {
+    return 0;
+  }
+  return ((usage.promptTokens ?? 0) * price.input + (usage.completionTokens ?? 0) * price.output) / 1_000_000;
+}
+
 /**
  * Count tokens using Gemini API
  */
@@ -200,7 +261,7 @@ function countTokensClaude(prompt: string): number {
  * Simple token estimation (4 characters per token)
  * This is a rough estimate when proper tokenization is not available
  */
-function estimateTokenCount(text: string): number {
+export function estimateTokenCount(text: string): number {
   // Rough estimate: 1 token ≈ 4 characters (common approximation)
   return Math.ceil(text.length / 4);
 }
@@ -252,6 +313,24 @@ async function validatePromptSize(
   }
 }
 
+/**
+ * Flatten a chat transcript into plain text for prompt size validation
+ */
+function serializeChatMessages(messages: ChatMessage[]): string {
+  return messages
+    .map((message) => {
+      switch (message.role) {
+        case 'assistant':
+          return `assistant: ${message.content || ''}${message.toolCalls ? ` ${JSON.stringify(message.toolCalls)}` : ''}`;
+        case 'tool':
+          return `tool (${message.name}): ${message.content}`;
+        default:
+          return `${message.role}: ${message.content}`;
+      }
+    })
+    .join('\n');
+}
+
 /**
  * Sleep for specified milliseconds
  */
@@ -262,7 +341,7 @@ function sleep(ms: number): Promise<void> {
 /**
  * Retry wrapper for handling 503 errors
  */
-async function retryOn503<T>(fn: () => Promise<T>, config: RetryConfig = {}): Promise<T> {
+async function retryOn503<T>(fn: () => Promise<T>, config: RetryConfig = {}, signal?: AbortSignal): Promise<T> {
   const { maxRetries, initialDelay, maxDelay, backoffFactor } = {
     ...DEFAULT_RETRY_CONFIG,
     ...config,
@@ -272,6 +351,7 @@ async function retryOn503<T>(fn: () => Promise<T>, config: RetryConfig = {}): Pr
   let delay = initialDelay;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    signal?.throwIfAborted();
     try {
       // Add small delay before each request to avoid burst rate limiting
       if (attempt > 0 || delay > 0) {
@@ -280,6 +360,7 @@ async function retryOn503<T>(fn: () => Promise<T>, config: RetryConfig = {}): Pr
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      signal?.throwIfAborted();
 
       // Check if it's a 503 error
       const is503 =
@@ -302,6 +383,127 @@ async function retryOn503<T>(fn: () => Promise<T>, config: RetryConfig = {}): Pr
   throw lastError;
 }
 
+/**
+ * Join the system messages of a transcript into a single instruction
+ */
+function extractSystemInstruction(messages: ChatMessage[]): string | undefined {
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+  return system || undefined;
+}
+
+/**
+ * Convert a chat transcript to Gemini contents
+ * Consecutive tool results are grouped into a single function turn
+ */
+function toGeminiContents(messages: ChatMessage[]): Content[] {
+  const contents: Content[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    let role: string;
+    const parts: Part[] = [];
+
+    if (message.role === 'assistant') {
+      role = 'model';
+      if (message.content) {
+        parts.push({ text: message.content });
+      }
+      for (const toolCall of message.toolCalls || []) {
+        parts.push({ functionCall: { name: toolCall.name, args: (toolCall.arguments || {}) as object } });
+      }
+    } else if (message.role === 'tool') {
+      role = 'function';
+      parts.push({ functionResponse: { name: message.name, response: { content: message.content } } });
+    } else {
+      role = 'user';
+      parts.push({ text: message.content });
+    }
+
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Convert a chat transcript to OpenAI chat completion messages
+ */
+function toOpenAIMessages(messages: ChatMessage[]): Array<Record<string, unknown>> {
+  return messages.map((message) => {
+    switch (message.role) {
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls?.length
+            ? message.toolCalls.map((toolCall) => ({
+                id: toolCall.id,
+                type: 'function',
+                function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments ?? {}) },
+              }))
+            : undefined,
+        };
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      default:
+        return { role: message.role, content: message.content };
+    }
+  });
+}
+
+/**
+ * Convert a chat transcript to Claude messages
+ * Tool results are sent as user turns and consecutive turns of the same role are merged
+ */
+function toClaudeMessages(messages: ChatMessage[]): Array<{ role: 'user' | 'assistant'; content: unknown[] }> {
+  const claudeMessages: Array<{ role: 'user' | 'assistant'; content: unknown[] }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    let role: 'user' | 'assistant';
+    const content: unknown[] = [];
+
+    if (message.role === 'assistant') {
+      role = 'assistant';
+      if (message.content) {
+        content.push({ type: 'text', text: message.content });
+      }
+      for (const toolCall of message.toolCalls || []) {
+        content.push({ type: 'tool_use', id: toolCall.id, name: toolCall.name, input: toolCall.arguments ?? {} });
+      }
+    } else if (message.role === 'tool') {
+      role = 'user';
+      content.push({ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content });
+    } else {
+      role = 'user';
+      content.push({ type: 'text', text: message.content });
+    }
+
+    const previous = claudeMessages[claudeMessages.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...content);
+    } else {
+      claudeMessages.push({ role, content });
+    }
+  }
+
+  return claudeMessages;
+}
+
 /**
  * Provider factory functions that return plain objects
  */
@@ -316,7 +518,7 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
     /**
      *
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, signal?: AbortSignal): Promise<string> {
       // Validate prompt size before making API call
       await validatePromptSize(prompt, config.model || 'gemini-1.5-flash', 'gemini', config.apiKey);
       
@@ -331,10 +533,10 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
           },
         });
 
-        const result = await model.generateContent(prompt);
+        const result = await raceAbort(model.generateContent(prompt), signal);
         const response = result.response;
         return response.text();
-      }, retryConfig);
+      }, retryConfig, signal);
     },
 
     /**
@@ -375,7 +577,7 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
     /**
      * Generate JSON content with optional schema
      */
-    async generateJSON(prompt: string, _schema_?: unknown): Promise<unknown> {
+    async generateJSON(prompt: string, _schema_?: unknown, signal?: AbortSignal): Promise<unknown> {
       // Validate prompt size before making API call
       await validatePromptSize(prompt, config.model || 'gemini-1.5-flash', 'gemini', config.apiKey);
       
@@ -398,7 +600,7 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
           generationConfig,
         });
 
-        const result = await model.generateContent(prompt);
+        const result = await raceAbort(model.generateContent(prompt), signal);
         const response = result.response;
         const jsonString = response.text();
 
@@ -412,7 +614,7 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
           }
           throw new Error(`Failed to parse JSON response: ${error}`);
         }
-      }, retryConfig);
+      }, retryConfig, signal);
     },
 
     /**
@@ -486,18 +688,83 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
       };
     },
 
+    /**
+     * Continue a multi-turn conversation with tool calling support
+     */
+    async chatWithTools(messages: ChatMessage[], signal?: AbortSignal): Promise<ToolCallResponse> {
+      // Validate transcript size before making API call
+      await validatePromptSize(
+        serializeChatMessages(messages),
+        config.model || 'gemini-1.5-flash',
+        'gemini',
+        config.apiKey,
+      );
+
+      return retryOn503(async () => {
+        const { GoogleGenerativeAI } = await import('@google/generative-ai');
+        const genAI = new GoogleGenerativeAI(config.apiKey);
+
+        // Convert tools to Gemini format
+        const functionDeclarations = (config.tools?.getToolDefinitions() || []).map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        }));
+
+        const model = genAI.getGenerativeModel({
+          model: config.model || 'gemini-1.5-flash',
+          generationConfig: {
+            temperature: config.temperature,
+            maxOutputTokens: config.maxTokens,
+          },
+          systemInstruction: extractSystemInstruction(messages),
+          // Type assertion needed due to Gemini SDK type limitations
+          tools:
+            functionDeclarations.length > 0
+              ? ([{ functionDeclarations }] as unknown as Parameters<typeof genAI.getGenerativeModel>[0]['tools'])
+              : undefined,
+        });
+
+        const result = await raceAbort(model.generateContent({ contents: toGeminiContents(messages) }), signal);
+        const response = result.response;
+
+        // Gemini does not return call IDs, so derive ones that are unique within the transcript
+        const toolCalls: ToolCall[] = (response.functionCalls() || []).map((call, index) => ({
+          id: `call_${messages.length}_${index}`,
+          name: call.name,
+          arguments: call.args,
+        }));
+
+        return {
+          content: response.text() || undefined,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          provider: 'gemini',
+          model: config.model || 'gemini-1.5-flash',
+          usage: {
+            promptTokens: response.usageMetadata?.promptTokenCount,
+            completionTokens: response.usageMetadata?.candidatesTokenCount,
+            totalTokens: response.usageMetadata?.totalTokenCount,
+          },
+        };
+      }, retryConfig, signal);
+    },
+
     /**
      * Execute tool calls and return results
      */
-    async executeToolCalls(toolCalls: ToolCall[]): Promise<Array<{ toolCallId: string; result: unknown }>> {
+    async executeToolCalls(
+      toolCalls: ToolCall[],
+      signal?: AbortSignal,
+    ): Promise<Array<{ toolCallId: string; result: unknown }>> {
       if (!config.tools) {
         throw new Error('No tools service available');
       }
 
       const results = [];
       for (const toolCall of toolCalls) {
+        signal?.throwIfAborted();
         try {
-          const result = await config.tools.executeTool(toolCall.name, toolCall.arguments);
+          const result = await config.tools.executeTool(toolCall.name, toolCall.arguments, signal);
           results.push({ toolCallId: toolCall.id, result });
         } catch (error) {
           results.push({
@@ -509,6 +776,13 @@ function createGeminiProvider(config: LLMConfig): LLMRunnerService {
       return results;
     },
 
+    /**
+     *
+     */
+    async countTokens(text: string): Promise<number> {
+      return countTokensGemini(text, config.model || 'gemini-1.5-flash', config.apiKey);
+    },
+
     /**
      *
      */
@@ -528,7 +802,7 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
     /**
      *
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, signal?: AbortSignal): Promise<string> {
       // Validate prompt size before making API call
       await validatePromptSize(prompt, config.model || 'gpt-4o-mini', 'openai');
       
@@ -543,13 +817,13 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
             messages: [{ role: 'user', content: prompt }],
             temperature: config.temperature,
             max_tokens: config.maxTokens,
-          });
+          }, { signal });
 
           return completion.choices[0]?.message?.content || '';
         } catch (error) {
           throw new Error(`OpenAI provider requires 'openai' package to be installed: ${(error as Error).message}`);
         }
-      }, retryConfig);
+      }, retryConfig, signal);
     },
 
     /**
@@ -593,7 +867,7 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
     /**
      * Generate JSON content with optional schema
      */
-    async generateJSON(prompt: string, _schema_?: unknown): Promise<unknown> {
+    async generateJSON(prompt: string, _schema_?: unknown, signal?: AbortSignal): Promise<unknown> {
       // Validate prompt size before making API call
       await validatePromptSize(prompt, config.model || 'gpt-4o-mini', 'openai');
       
@@ -620,8 +894,11 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
             messages,
             temperature: config.temperature,
             max_tokens: config.maxTokens,
-            response_format: { type: 'json_object' },
-          });
+            // A schema constrains the output to it; without one, any JSON object is accepted
+            response_format: _schema_
+              ? { type: 'json_schema', json_schema: { name: 'response', schema: _schema_ } }
+              : { type: 'json_object' },
+          }, { signal });
 
           const content = completion.choices[0]?.message?.content || '{}';
 
@@ -638,7 +915,7 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
         } catch (error) {
           throw new Error(`OpenAI JSON generation failed: ${(error as Error).message}`);
         }
-      }, retryConfig);
+      }, retryConfig, signal);
     },
 
     /**
@@ -724,18 +1001,95 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
       }
     },
 
+    /**
+     * Continue a multi-turn conversation with tool calling support
+     */
+    async chatWithTools(messages: ChatMessage[], signal?: AbortSignal): Promise<ToolCallResponse> {
+      // Validate transcript size before making API call
+      await validatePromptSize(serializeChatMessages(messages), config.model || 'gpt-4o-mini', 'openai');
+
+      return retryOn503(async () => {
+        try {
+          const openaiModule = await import('openai' as string);
+          const OpenAI = openaiModule.default;
+          const openai = new OpenAI({ apiKey: config.apiKey });
+
+          // Convert tools to OpenAI format
+          const tools = (config.tools?.getToolDefinitions() || []).map((tool) => ({
+            type: 'function' as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters,
+            },
+          }));
+
+          const completion = await openai.chat.completions.create({
+            model: config.model || 'gpt-4o-mini',
+            messages: toOpenAIMessages(messages),
+            temperature: config.temperature,
+            max_tokens: config.maxTokens,
+            tools: tools.length > 0 ? tools : undefined,
+            tool_choice: tools.length > 0 ? 'auto' : undefined,
+          }, { signal });
+
+          const message = completion.choices[0]?.message;
+          const toolCalls: ToolCall[] = [];
+
+          if (message?.tool_calls) {
+            interface OpenAIToolCall {
+              id: string;
+              type: string;
+              function: {
+                name: string;
+                arguments: string;
+              };
+            }
+            message.tool_calls.forEach((toolCall: unknown) => {
+              const tc = toolCall as OpenAIToolCall;
+              if (tc.type === 'function') {
+                toolCalls.push({
+                  id: tc.id,
+                  name: tc.function.name,
+                  arguments: JSON.parse(tc.function.arguments),
+                });
+              }
+            });
+          }
+
+          return {
+            content: message?.content || undefined,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            provider: 'openai' as LLMProvider,
+            model: config.model || 'gpt-4o-mini',
+            usage: {
+              promptTokens: completion.usage?.prompt_tokens,
+              completionTokens: completion.usage?.completion_tokens,
+              totalTokens: completion.usage?.total_tokens,
+            },
+          };
+        } catch (error) {
+          throw new Error(`OpenAI chat generation failed: ${(error as Error).message}`);
+        }
+      }, retryConfig, signal);
+    },
+
     /**
      * Execute tool calls and return results
      */
-    async executeToolCalls(toolCalls: ToolCall[]): Promise<Array<{ toolCallId: string; result: unknown }>> {
+    async executeToolCalls(
+      toolCalls: ToolCall[],
+      signal?: AbortSignal,
+    ): Promise<Array<{ toolCallId: string; result: unknown }>> {
       if (!config.tools) {
         throw new Error('No tools service available');
       }
 
       const results = [];
       for (const toolCall of toolCalls) {
+        signal?.throwIfAborted();
         try {
-          const result = await config.tools.executeTool(toolCall.name, toolCall.arguments);
+          const result = await config.tools.executeTool(toolCall.name, toolCall.arguments, signal);
           results.push({ toolCallId: toolCall.id, result });
         } catch (error) {
           results.push({
@@ -747,6 +1101,13 @@ function createOpenAIProvider(config: LLMConfig): LLMRunnerService {
       return results;
     },
 
+    /**
+     *
+     */
+    async countTokens(text: string): Promise<number> {
+      return countTokensOpenAI(text, config.model || 'gpt-4o-mini');
+    },
+
     /**
      *
      */
@@ -766,7 +1127,7 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
     /**
      *
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, signal?: AbortSignal): Promise<string> {
       // Validate prompt size before making API call
       await validatePromptSize(prompt, config.model || 'claude-3-haiku-20240307', 'claude');
       
@@ -781,7 +1142,7 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
             max_tokens: config.maxTokens || 1000,
             temperature: config.temperature,
             messages: [{ role: 'user', content: prompt }],
-          });
+          }, { signal });
 
           return response.content[0]?.type === 'text' ? response.content[0].text : '';
         } catch (error) {
@@ -789,13 +1150,13 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
             `Claude provider requires '@anthropic-ai/sdk' package to be installed: ${(error as Error).message}`,
           );
         }
-      }, retryConfig);
+      }, retryConfig, signal);
     },
 
     /**
      * Generate JSON content using Claude's prefill technique
      */
-    async generateJSON(prompt: string, _schema_?: unknown): Promise<unknown> {
+    async generateJSON(prompt: string, _schema_?: unknown, signal?: AbortSignal): Promise<unknown> {
       // Validate prompt size before making API call
       await validatePromptSize(prompt, config.model || 'claude-3-haiku-20240307', 'claude');
       
@@ -823,7 +1184,7 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
                 content: '{',
               },
             ],
-          });
+          }, { signal });
 
           // Get the response and prepend the opening brace
           const content = '{' + (response.content[0]?.type === 'text' ? response.content[0].text : '');
@@ -841,7 +1202,7 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
         } catch (error) {
           throw new Error(`Claude JSON generation failed: ${(error as Error).message}`);
         }
-      }, retryConfig);
+      }, retryConfig, signal);
     },
 
     /**
@@ -964,18 +1325,91 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
       }
     },
 
+    /**
+     * Continue a multi-turn conversation with tool calling support
+     */
+    async chatWithTools(messages: ChatMessage[], signal?: AbortSignal): Promise<ToolCallResponse> {
+      // Validate transcript size before making API call
+      await validatePromptSize(serializeChatMessages(messages), config.model || 'claude-3-haiku-20240307', 'claude');
+
+      return retryOn503(async () => {
+        try {
+          const anthropicModule = await import('@anthropic-ai/sdk' as string);
+          const Anthropic = anthropicModule.default;
+          const anthropic = new Anthropic({ apiKey: config.apiKey });
+
+          // Convert tools to Claude format
+          const tools = (config.tools?.getToolDefinitions() || []).map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          }));
+
+          const response = await anthropic.messages.create({
+            model: config.model || 'claude-3-haiku-20240307',
+            max_tokens: config.maxTokens || 1000,
+            temperature: config.temperature,
+            system: extractSystemInstruction(messages),
+            messages: toClaudeMessages(messages),
+            tools: tools.length > 0 ? tools : undefined,
+          }, { signal });
+
+          const toolCalls: ToolCall[] = [];
+          let textContent = '';
+
+          interface ClaudeContent {
+            type: string;
+            text?: string;
+            id?: string;
+            name?: string;
+            input?: unknown;
+          }
+          response.content.forEach((content: unknown, index: number) => {
+            const c = content as ClaudeContent;
+            if (c.type === 'text') {
+              textContent += c.text || '';
+            } else if (c.type === 'tool_use') {
+              toolCalls.push({
+                id: c.id || `call_${index}`,
+                name: c.name || '',
+                arguments: c.input,
+              });
+            }
+          });
+
+          return {
+            content: textContent || undefined,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            provider: 'claude' as LLMProvider,
+            model: config.model || 'claude-3-haiku-20240307',
+            usage: {
+              promptTokens: response.usage.input_tokens,
+              completionTokens: response.usage.output_tokens,
+              totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+            },
+          };
+        } catch (error) {
+          throw new Error(`Claude chat generation failed: ${(error as Error).message}`);
+        }
+      }, retryConfig, signal);
+    },
+
     /**
      * Execute tool calls and return results
      */
-    async executeToolCalls(toolCalls: ToolCall[]): Promise<Array<{ toolCallId: string; result: unknown }>> {
+    async executeToolCalls(
+      toolCalls: ToolCall[],
+      signal?: AbortSignal,
+    ): Promise<Array<{ toolCallId: string; result: unknown }>> {
       if (!config.tools) {
         throw new Error('No tools service available');
       }
 
       const results = [];
       for (const toolCall of toolCalls) {
+        signal?.throwIfAborted();
         try {
-          const result = await config.tools.executeTool(toolCall.name, toolCall.arguments);
+          const result = await config.tools.executeTool(toolCall.name, toolCall.arguments, signal);
           results.push({ toolCallId: toolCall.id, result });
         } catch (error) {
           results.push({
@@ -987,6 +1421,13 @@ function createClaudeProvider(config: LLMConfig): LLMRunnerService {
       return results;
     },
 
+    /**
+     *
+     */
+    async countTokens(text: string): Promise<number> {
+      return countTokensClaude(text);
+    },
+
     /**
      *
      */
@@ -1100,12 +1541,14 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
   addResponse: (response: string) => void;
   setResponseMapping: (pattern: string, response: string) => void;
   getCallHistory: () => string[];
+  getChatHistory: () => ChatMessage[][];
   reset: () => void;
   setToolCallResponses: (responses: ToolCall[]) => void;
 } {
   let responseQueue = [...(config.responses || [])];
   let responseMappings = { ...config.responseMappings };
   let callHistory: string[] = [];
+  let chatHistory: ChatMessage[][] = [];
   let toolCallResponses: ToolCall[] = [];
   const defaultResponse = config.defaultResponse || 'Test response';
   const simulateLatency = config.simulateLatency || 0;
@@ -1123,7 +1566,8 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
     /**
      *
      */
-    async generateContent(prompt: string): Promise<string> {
+    async generateContent(prompt: string, signal?: AbortSignal): Promise<string> {
+      signal?.throwIfAborted();
       await simulateDelay();
       callHistory.push(prompt);
 
@@ -1162,7 +1606,8 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
     /**
      * Generate JSON content with optional schema
      */
-    async generateJSON(prompt: string, _schema_?: unknown): Promise<unknown> {
+    async generateJSON(prompt: string, _schema_?: unknown, signal?: AbortSignal): Promise<unknown> {
+      signal?.throwIfAborted();
       await simulateDelay();
       callHistory.push(prompt);
 
@@ -1240,15 +1685,28 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
       };
     },
 
+    /**
+     * Continue a multi-turn conversation with tool calling support
+     */
+    async chatWithTools(messages: ChatMessage[], signal?: AbortSignal): Promise<ToolCallResponse> {
+      chatHistory.push(messages.map((message) => ({ ...message })));
+      signal?.throwIfAborted();
+      return this.generateWithTools!(serializeChatMessages(messages));
+    },
+
     /**
      * Execute tool calls and return results
      */
-    async executeToolCalls(toolCalls: ToolCall[]): Promise<Array<{ toolCallId: string; result: unknown }>> {
+    async executeToolCalls(
+      toolCalls: ToolCall[],
+      signal?: AbortSignal,
+    ): Promise<Array<{ toolCallId: string; result: unknown }>> {
       if (config.tools) {
         const results = [];
         for (const toolCall of toolCalls) {
+          signal?.throwIfAborted();
           try {
-            const result = await config.tools.executeTool(toolCall.name, toolCall.arguments);
+            const result = await config.tools.executeTool(toolCall.name, toolCall.arguments, signal);
             results.push({ toolCallId: toolCall.id, result });
           } catch (error) {
             results.push({
@@ -1267,6 +1725,13 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
       }));
     },
 
+    /**
+     *
+     */
+    async countTokens(text: string): Promise<number> {
+      return estimateTokenCount(text);
+    },
+
     /**
      *
      */
@@ -1307,6 +1772,13 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
       return [...callHistory];
     },
 
+    /**
+     *
+     */
+    getChatHistory(): ChatMessage[][] {
+      return [...chatHistory];
+    },
+
     /**
      *
      */
@@ -1314,6 +1786,7 @@ export function createTestLLMRunner(config: TestLLMRunnerConfig = {}): LLMRunner
       responseQueue = [...(config.responses || [])];
       responseMappings = { ...config.responseMappings };
       callHistory = [];
+      chatHistory = [];
       toolCallResponses = [];
     },
 
@@ -227,7 +227,7 @@ describe('LLM Tools Service', () => {
     it('should return all expected tool definitions', () => {
       const definitions = toolsService.getToolDefinitions();
 
-      expect(definitions).toHaveLength(20); // 1 shell + 2 web + 12 GitHub + 5 Docker tools
+      expect(definitions).toHaveLength(21); // 1 shell + 2 web + 1 agent + 12 GitHub + 5 Docker tools
 
       const toolNames = definitions.map((def) => def.name);
 
@@ -238,6 +238,9 @@ describe('LLM Tools Service', () => {
       expect(toolNames).toContain('web_fetch');
       expect(toolNames).toContain('google_web_search');
 
+      // Agent tools
+      expect(toolNames).toContain('delegate_subtask');
+
       // GitHub tools
       expect(toolNames).toContain('githubService.createRepository');
       expect(toolNames).toContain('githubService.listRepositories');
@@ -318,6 +321,14 @@ describe('LLM Tools Service', () => {
     });
   });
 
+  describe('Agent Tool Execution', () => {
+    it('should leave delegated subtasks to the agent service', async () => {
+      await expect(
+        toolsService.executeTool('delegate_subtask', { goal: 'Find where auth is configured' }),
+      ).rejects.toThrow('Unknown tool: delegate_subtask');
+    });
+  });
+
   describe('GitHub Tool Execution', () => {
     it('should create repository', async () => {
       const result = await toolsService.executeTool('githubService.createRepository', {
@@ -520,7 +531,7 @@ describe('LLM Tools Service', () => {
       expect(testToolsService).toHaveProperty('executeTool');
 
       const definitions = testToolsService.getToolDefinitions();
-      expect(definitions).toHaveLength(20);
+      expect(definitions).toHaveLength(21);
     });
 
     it('should execute tools with mock data', async () => {
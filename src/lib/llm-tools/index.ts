@@ -5,6 +5,7 @@
 import type { GitHubService } from '../github/index.js';
 import type { DockerService } from '../docker/index.js';
 import type { DatabaseService } from '../database/index.js';
+import { raceAbort } from '../errors/index.js';
 
 /**
  * Tool definition interface matching LLM provider expectations
@@ -19,6 +20,16 @@ export interface ToolDefinition {
   };
 }
 
+/**
+ * Arguments of the delegate_subtask tool
+ */
+export interface DelegateSubtaskArgs {
+  goal: string;
+  tools?: string[];
+  maxSteps?: number;
+  maxTokens?: number;
+}
+
 /**
  * LLM Tools service interface
  */
@@ -31,7 +42,7 @@ export interface LLMToolsService {
   /**
    * Execute a tool by name with provided arguments
    */
-  executeTool(name: string, args: unknown): Promise<unknown>;
+  executeTool(name: string, args: unknown, signal?: AbortSignal): Promise<unknown>;
 }
 
 /**
@@ -113,6 +124,36 @@ export function createLLMToolsService(deps: LLMToolsDependencies): LLMToolsServi
       },
     },
 
+    // Agent Tools: offered here, but executed by the agent service as subtasks of the calling task
+    {
+      name: 'delegate_subtask',
+      description:
+        'Run a focused investigation or change as a separate sub-run with its own goal, step budget and tools, and return its condensed result',
+      parameters: {
+        type: 'object',
+        properties: {
+          goal: {
+            type: 'string',
+            description: 'What the subtask must achieve or find out',
+          },
+          tools: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Names of the tools the subtask may use; defaults to all tools except delegate_subtask',
+          },
+          maxSteps: {
+            type: 'number',
+            description: 'Maximum number of steps of the subtask',
+          },
+          maxTokens: {
+            type: 'number',
+            description: 'Maximum number of tokens the subtask may use',
+          },
+        },
+        required: ['goal'],
+      },
+    },
+
     // GitHub Tools
     {
       name: 'githubService.createRepository',
@@ -710,12 +751,12 @@ export function createLLMToolsService(deps: LLMToolsDependencies): LLMToolsServi
     /**
      * Execute a tool by name with provided arguments
      */
-    async executeTool(name: string, args: unknown): Promise<unknown> {
+    async executeTool(name: string, args: unknown, signal?: AbortSignal): Promise<unknown> {
       const executor = toolExecutors[name];
       if (!executor) {
         throw new Error(`Unknown tool: ${name}`);
       }
-      return executor(args);
+      return raceAbort(executor(args), signal);
     },
   };
 }